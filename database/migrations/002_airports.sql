@@ -0,0 +1,20 @@
+-- Migration 002: Airport reference data
+-- Stores IATA/ICAO codes, IANA timezone, coordinates and country for each station
+-- Seed with: npm run db:seed:airports (loads src/data/airports.json)
+
+CREATE TABLE IF NOT EXISTS airports (
+  iata_code VARCHAR(3) PRIMARY KEY,
+  icao_code VARCHAR(4) UNIQUE,
+  name VARCHAR(200) NOT NULL,
+  city VARCHAR(100),
+  country_code VARCHAR(2) NOT NULL,
+  timezone VARCHAR(64) NOT NULL,
+  latitude DECIMAL(9,6) NOT NULL,
+  longitude DECIMAL(9,6) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_airports_country ON airports(country_code);
+
+CREATE TRIGGER update_airports_updated_at BEFORE UPDATE ON airports FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
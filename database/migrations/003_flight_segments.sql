@@ -0,0 +1,24 @@
+-- Migration 003: Flight segments
+-- Leg-level records (flight number, stations, out/off/on/in times) linked to duty_time_records
+
+CREATE TABLE IF NOT EXISTS flight_segments (
+  segment_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  duty_id UUID REFERENCES duty_time_records(duty_id) ON DELETE CASCADE,
+  crew_id UUID REFERENCES crew_members(crew_id) ON DELETE CASCADE,
+  segment_number INTEGER NOT NULL,
+  flight_number VARCHAR(10) NOT NULL,
+  origin VARCHAR(3) NOT NULL,
+  destination VARCHAR(3) NOT NULL,
+  out_utc TIMESTAMP NOT NULL,
+  off_utc TIMESTAMP,
+  on_utc TIMESTAMP,
+  in_utc TIMESTAMP NOT NULL,
+  aircraft_tail VARCHAR(10),
+  aircraft_type VARCHAR(50),
+  is_deadhead BOOLEAN DEFAULT false,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (duty_id, segment_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_segments_duty ON flight_segments(duty_id);
+CREATE INDEX IF NOT EXISTS idx_segments_crew_out ON flight_segments(crew_id, out_utc);
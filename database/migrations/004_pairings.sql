@@ -0,0 +1,43 @@
+-- Migration 004: Pairings
+-- Trips spanning multiple duty periods, and the link from recorded duties to their pairing
+
+-- Multi-day trips grouping duty periods and layovers
+CREATE TABLE IF NOT EXISTS pairings (
+  pairing_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_number VARCHAR(20) NOT NULL,
+  base_airport VARCHAR(3) NOT NULL,
+  crew_type VARCHAR(20) CHECK (crew_type IN ('PILOT', 'FLIGHT_ATTENDANT')),
+  start_utc TIMESTAMP NOT NULL,
+  end_utc TIMESTAMP NOT NULL,
+  credit_minutes INTEGER DEFAULT 0,
+  status VARCHAR(20) DEFAULT 'PLANNED' CHECK (status IN ('PLANNED', 'PUBLISHED', 'COMPLETED', 'CANCELLED')),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (trip_number, start_utc)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pairings_trip_number ON pairings(trip_number);
+CREATE INDEX IF NOT EXISTS idx_pairings_base_start ON pairings(base_airport, start_utc);
+
+-- Planned duty periods within a pairing, in sequence
+CREATE TABLE IF NOT EXISTS pairing_duty_periods (
+  pairing_duty_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pairing_id UUID REFERENCES pairings(pairing_id) ON DELETE CASCADE,
+  sequence_number INTEGER NOT NULL,
+  duty_start_utc TIMESTAMP NOT NULL,
+  duty_end_utc TIMESTAMP NOT NULL,
+  report_airport VARCHAR(3) NOT NULL,
+  release_airport VARCHAR(3) NOT NULL,
+  aircraft_type VARCHAR(50) NOT NULL,
+  flight_time_minutes INTEGER DEFAULT 0,
+  number_of_segments INTEGER DEFAULT 1,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (pairing_id, sequence_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pairing_duty_pairing ON pairing_duty_periods(pairing_id);
+
+ALTER TABLE duty_time_records ADD COLUMN IF NOT EXISTS pairing_id UUID REFERENCES pairings(pairing_id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_duty_pairing ON duty_time_records(pairing_id);
+
+CREATE TRIGGER update_pairings_updated_at BEFORE UPDATE ON pairings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
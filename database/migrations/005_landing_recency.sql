@@ -0,0 +1,8 @@
+-- Migration 005: Landing recency
+-- Marks the pilot flying on each leg so takeoffs and landings in type can be counted (14 CFR 121.439)
+
+ALTER TABLE flight_segments ADD COLUMN IF NOT EXISTS pilot_flying BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_segments_crew_type_landing
+  ON flight_segments(crew_id, aircraft_type, in_utc)
+  WHERE pilot_flying;
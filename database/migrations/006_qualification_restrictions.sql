@@ -0,0 +1,23 @@
+-- Migration 006: Qualification restrictions
+-- High-minimums, IOE and consolidation restrictions with the hours or date that lift them
+
+CREATE TABLE IF NOT EXISTS qualification_restrictions (
+  restriction_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  crew_id UUID REFERENCES crew_members(crew_id) ON DELETE CASCADE,
+  restriction_type VARCHAR(30) NOT NULL CHECK (restriction_type IN ('HIGH_MINIMUMS', 'IOE', 'CONSOLIDATION')),
+  aircraft_type VARCHAR(50) NOT NULL,
+  description TEXT,
+  imposed_date DATE NOT NULL,
+  lift_condition VARCHAR(30) NOT NULL CHECK (lift_condition IN ('PIC_HOURS_IN_TYPE', 'FLIGHT_HOURS_IN_TYPE', 'MANUAL')),
+  required_hours DECIMAL(8,2),
+  expires_on DATE,
+  status VARCHAR(20) DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'LIFTED')),
+  lifted_at TIMESTAMP,
+  lift_reason TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_restrictions_crew_status ON qualification_restrictions(crew_id, status);
+
+CREATE TRIGGER update_qualification_restrictions_updated_at BEFORE UPDATE ON qualification_restrictions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,6 @@
+-- Migration 007: Regulatory rule packs
+-- Operator certificate and optional rule pack override per crew member
+
+ALTER TABLE crew_members ADD COLUMN IF NOT EXISTS operator_certificate VARCHAR(50);
+ALTER TABLE crew_members ADD COLUMN IF NOT EXISTS rule_pack VARCHAR(20)
+  CHECK (rule_pack IN ('FAA_PART117', 'EASA_FTL'));
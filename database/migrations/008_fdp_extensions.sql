@@ -0,0 +1,40 @@
+-- Migration 008: FDP extensions
+-- Unforeseen-circumstance FDP extensions, the longer rest they require and reports awaiting filing
+
+CREATE TABLE IF NOT EXISTS fdp_extensions (
+  extension_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  crew_id UUID REFERENCES crew_members(crew_id) ON DELETE CASCADE,
+  duty_id UUID REFERENCES duty_time_records(duty_id) ON DELETE CASCADE,
+  duty_start_utc TIMESTAMP NOT NULL,
+  extension_minutes INTEGER NOT NULL CHECK (extension_minutes > 0),
+  extended_duty_end_utc TIMESTAMP NOT NULL,
+  rule_pack VARCHAR(20) NOT NULL,
+  regulation VARCHAR(50) NOT NULL,
+  authorized_by VARCHAR(100) NOT NULL,
+  reason TEXT NOT NULL,
+  authorized_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  report_required BOOLEAN DEFAULT false,
+  report_due_date DATE,
+  report_filed_at TIMESTAMP,
+  report_reference VARCHAR(100),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fdp_extensions_crew_start ON fdp_extensions(crew_id, duty_start_utc);
+CREATE INDEX IF NOT EXISTS idx_fdp_extensions_report_due
+  ON fdp_extensions(report_due_date)
+  WHERE report_required AND report_filed_at IS NULL;
+
+CREATE TRIGGER update_fdp_extensions_updated_at BEFORE UPDATE ON fdp_extensions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Extensions whose report to the authority has not been filed
+CREATE OR REPLACE VIEW fdp_extension_reports_due AS
+SELECT
+  e.*,
+  cm.employee_number,
+  cm.first_name || ' ' || cm.last_name AS name,
+  cm.base_airport
+FROM fdp_extensions e
+JOIN crew_members cm ON e.crew_id = cm.crew_id
+WHERE e.report_required AND e.report_filed_at IS NULL;
@@ -0,0 +1,4 @@
+-- Migration 009: Split-duty rest
+-- Rest opportunities taken within a duty, credited toward the FDP limit where the rule pack allows (14 CFR 117.15, CS FTL.1.220)
+
+ALTER TABLE duty_time_records ADD COLUMN IF NOT EXISTS rest_opportunities JSONB DEFAULT '[]';
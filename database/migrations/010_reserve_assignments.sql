@@ -0,0 +1,24 @@
+-- Migration 010: Reserve assignments
+-- Airport, short-call and long-call reserve periods, counted toward FDP and reserve limits when a reservist is called out
+
+CREATE TABLE IF NOT EXISTS reserve_assignments (
+  reserve_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  crew_id UUID REFERENCES crew_members(crew_id) ON DELETE CASCADE,
+  reserve_type VARCHAR(20) NOT NULL CHECK (reserve_type IN ('AIRPORT', 'SHORT_CALL', 'LONG_CALL')),
+  reserve_airport VARCHAR(4) NOT NULL,
+  reserve_start_utc TIMESTAMP NOT NULL,
+  reserve_end_utc TIMESTAMP NOT NULL,
+  status VARCHAR(20) DEFAULT 'SCHEDULED' CHECK (status IN ('SCHEDULED', 'CALLED_OUT', 'RELEASED')),
+  callout_utc TIMESTAMP,
+  duty_id UUID REFERENCES duty_time_records(duty_id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CHECK (reserve_end_utc > reserve_start_utc)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reserve_crew_start ON reserve_assignments(crew_id, reserve_start_utc);
+CREATE INDEX IF NOT EXISTS idx_reserve_available
+  ON reserve_assignments(reserve_airport, reserve_end_utc)
+  WHERE status = 'SCHEDULED';
+
+CREATE TRIGGER update_reserve_assignments_updated_at BEFORE UPDATE ON reserve_assignments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,10 @@
+-- Migration 011: Deadhead time
+-- Positioning time recorded per duty, counted as duty but not flight time, and paid under the deadhead rule
+
+ALTER TABLE duty_time_records ADD COLUMN IF NOT EXISTS deadhead_minutes INTEGER DEFAULT 0;
+
+ALTER TABLE crew_pay_records ADD COLUMN IF NOT EXISTS deadhead_pay DECIMAL(10,2) DEFAULT 0;
+
+ALTER TABLE pay_calculation_rules DROP CONSTRAINT IF EXISTS pay_calculation_rules_rule_type_check;
+ALTER TABLE pay_calculation_rules ADD CONSTRAINT pay_calculation_rules_rule_type_check
+  CHECK (rule_type IN ('BASE_PAY', 'PER_DIEM', 'PREMIUM', 'OVERTIME', 'GUARANTEE', 'DEADHEAD'));
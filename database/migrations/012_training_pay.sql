@@ -0,0 +1,14 @@
+-- Migration 012: Training pay
+-- Format and length of each training event, paid at the simulator, classroom or line check rate
+
+ALTER TABLE recurrent_training ADD COLUMN IF NOT EXISTS event_format VARCHAR(20) DEFAULT 'CLASSROOM'
+  CHECK (event_format IN ('SIMULATOR', 'CLASSROOM', 'LINE_CHECK'));
+ALTER TABLE recurrent_training ADD COLUMN IF NOT EXISTS duration_minutes INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_training_completion ON recurrent_training(crew_id, completion_date);
+
+ALTER TABLE crew_pay_records ADD COLUMN IF NOT EXISTS training_pay DECIMAL(10,2) DEFAULT 0;
+
+ALTER TABLE pay_calculation_rules DROP CONSTRAINT IF EXISTS pay_calculation_rules_rule_type_check;
+ALTER TABLE pay_calculation_rules ADD CONSTRAINT pay_calculation_rules_rule_type_check
+  CHECK (rule_type IN ('BASE_PAY', 'PER_DIEM', 'PREMIUM', 'OVERTIME', 'GUARANTEE', 'DEADHEAD', 'TRAINING'));
@@ -0,0 +1,10 @@
+-- Migration 013: Credit rules
+-- Per-union credit guarantees (minimum day, duty rig, trip rig) in pay_calculation_rules.rule_config
+
+ALTER TABLE crew_pay_records ADD COLUMN IF NOT EXISTS credit_hours DECIMAL(10,2) DEFAULT 0;
+
+ALTER TABLE pay_calculation_rules DROP CONSTRAINT IF EXISTS pay_calculation_rules_rule_type_check;
+ALTER TABLE pay_calculation_rules ADD CONSTRAINT pay_calculation_rules_rule_type_check
+  CHECK (rule_type IN ('BASE_PAY', 'PER_DIEM', 'PREMIUM', 'OVERTIME', 'GUARANTEE', 'DEADHEAD', 'TRAINING', 'CREDIT'));
+
+CREATE INDEX IF NOT EXISTS idx_rules_union ON pay_calculation_rules(union_code);
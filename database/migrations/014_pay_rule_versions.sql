@@ -0,0 +1,7 @@
+-- Migration 014: Pay rule versions
+-- Version number on each database pay rule, reported with the pay lines it produces
+
+ALTER TABLE pay_calculation_rules ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_rules_resolution
+  ON pay_calculation_rules(rule_type, position, union_code, effective_date);
@@ -0,0 +1,4 @@
+-- Migration 015: Captain seat
+-- Marks legs flown in the captain seat, which are the only legs that count toward PIC hours in type
+
+ALTER TABLE flight_segments ADD COLUMN IF NOT EXISTS captain_seat BOOLEAN DEFAULT false;
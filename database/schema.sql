@@ -5,6 +5,14 @@
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
 -- Drop tables if they exist (for clean resets)
+DROP VIEW IF EXISTS fdp_extension_reports_due;
+DROP TABLE IF EXISTS reserve_assignments CASCADE;
+DROP TABLE IF EXISTS fdp_extensions CASCADE;
+DROP TABLE IF EXISTS qualification_restrictions CASCADE;
+DROP TABLE IF EXISTS pairing_duty_periods CASCADE;
+DROP TABLE IF EXISTS pairings CASCADE;
+DROP TABLE IF EXISTS flight_segments CASCADE;
+DROP TABLE IF EXISTS airports CASCADE;
 DROP TABLE IF EXISTS faa_part117_compliance CASCADE;
 DROP TABLE IF EXISTS crew_claims CASCADE;
 DROP TABLE IF EXISTS pay_calculation_rules CASCADE;
@@ -31,6 +39,8 @@ CREATE TABLE crew_members (
   seniority_number INTEGER,
   status VARCHAR(20) DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'ON_LEAVE', 'INACTIVE')),
   union_code VARCHAR(50),
+  operator_certificate VARCHAR(50),
+  rule_pack VARCHAR(20) CHECK (rule_pack IN ('FAA_PART117', 'EASA_FTL')), -- overrides the operator certificate's rule pack
   email VARCHAR(255),
   phone VARCHAR(20),
   created_at TIMESTAMP DEFAULT NOW(),
@@ -67,7 +77,7 @@ CREATE TABLE aircraft_type_ratings (
   initial_date DATE NOT NULL,
   last_check_date DATE,
   next_check_due DATE,
-  currency_status VARCHAR(20) DEFAULT 'CURRENT' CHECK (currency_status IN ('CURRENT', 'EXPIRING_SOON', 'EXPIRED')),
+  currency_status VARCHAR(20) DEFAULT 'CURRENT' CHECK (currency_status IN ('CURRENT', 'EXPIRING_SOON', 'EXPIRED')), -- informational; derived from dates at read time
   landings_90_day INTEGER DEFAULT 0,
   approaches_90_day INTEGER DEFAULT 0,
   created_at TIMESTAMP DEFAULT NOW(),
@@ -87,7 +97,7 @@ CREATE TABLE medical_certificates (
   issue_date DATE NOT NULL,
   expiration_date DATE NOT NULL,
   limitations TEXT,
-  status VARCHAR(20) DEFAULT 'VALID' CHECK (status IN ('VALID', 'EXPIRING_SOON', 'EXPIRED')),
+  status VARCHAR(20) DEFAULT 'VALID' CHECK (status IN ('VALID', 'EXPIRING_SOON', 'EXPIRED')), -- informational; derived from dates at read time
   created_at TIMESTAMP DEFAULT NOW()
 );
 
@@ -105,13 +115,16 @@ CREATE TABLE recurrent_training (
   next_due_date DATE NOT NULL,
   instructor_name VARCHAR(200),
   training_location VARCHAR(100),
-  status VARCHAR(20) DEFAULT 'CURRENT' CHECK (status IN ('CURRENT', 'DUE_SOON', 'OVERDUE')),
+  event_format VARCHAR(20) DEFAULT 'CLASSROOM' CHECK (event_format IN ('SIMULATOR', 'CLASSROOM', 'LINE_CHECK')),
+  duration_minutes INTEGER, -- length of the event, for hourly training rates
+  status VARCHAR(20) DEFAULT 'CURRENT' CHECK (status IN ('CURRENT', 'DUE_SOON', 'OVERDUE')), -- informational; derived from dates at read time
   created_at TIMESTAMP DEFAULT NOW()
 );
 
 CREATE INDEX idx_training_crew ON recurrent_training(crew_id);
 CREATE INDEX idx_training_due ON recurrent_training(next_due_date);
 CREATE INDEX idx_training_status ON recurrent_training(status);
+CREATE INDEX idx_training_completion ON recurrent_training(crew_id, completion_date);
 
 -- Table 6: duty_time_records
 -- Flight and duty time tracking
@@ -124,12 +137,15 @@ CREATE TABLE duty_time_records (
   flight_time_minutes INTEGER DEFAULT 0,
   duty_time_minutes INTEGER DEFAULT 0,
   block_time_minutes INTEGER DEFAULT 0,
+  deadhead_minutes INTEGER DEFAULT 0, -- positioning time; duty but not flight time
   rest_period_start_utc TIMESTAMP,
   rest_period_end_utc TIMESTAMP,
   is_fdp BOOLEAN DEFAULT false,
   wocl_crossing BOOLEAN DEFAULT false,
   consecutive_nights INTEGER DEFAULT 0,
   flight_segments INTEGER DEFAULT 0,
+  pairing_id UUID,
+  rest_opportunities JSONB DEFAULT '[]', -- [{start_utc, end_utc, location}] within the duty
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
 );
@@ -146,11 +162,14 @@ CREATE TABLE crew_pay_records (
   pay_period_end DATE NOT NULL,
   flight_hours DECIMAL(10,2) DEFAULT 0,
   duty_hours DECIMAL(10,2) DEFAULT 0,
+  credit_hours DECIMAL(10,2) DEFAULT 0,
   base_pay DECIMAL(10,2) DEFAULT 0,
   per_diem DECIMAL(10,2) DEFAULT 0,
   premium_pay DECIMAL(10,2) DEFAULT 0,
   overtime_pay DECIMAL(10,2) DEFAULT 0,
   guarantee_pay DECIMAL(10,2) DEFAULT 0,
+  deadhead_pay DECIMAL(10,2) DEFAULT 0,
+  training_pay DECIMAL(10,2) DEFAULT 0,
   total_compensation DECIMAL(10,2) DEFAULT 0,
   calculation_method VARCHAR(50) DEFAULT 'AUTOMATED' CHECK (calculation_method IN ('AUTOMATED', 'MANUAL', 'ADJUSTED')),
   verified BOOLEAN DEFAULT false,
@@ -169,13 +188,14 @@ CREATE INDEX idx_pay_verified ON crew_pay_records(verified);
 CREATE TABLE pay_calculation_rules (
   rule_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   rule_name VARCHAR(200) NOT NULL,
-  rule_type VARCHAR(50) NOT NULL CHECK (rule_type IN ('BASE_PAY', 'PER_DIEM', 'PREMIUM', 'OVERTIME', 'GUARANTEE')),
+  rule_type VARCHAR(50) NOT NULL CHECK (rule_type IN ('BASE_PAY', 'PER_DIEM', 'PREMIUM', 'OVERTIME', 'GUARANTEE', 'DEADHEAD', 'TRAINING', 'CREDIT')),
   crew_type VARCHAR(20) NOT NULL,
   position VARCHAR(50),
   effective_date DATE NOT NULL,
   expiration_date DATE,
-  rule_config JSONB NOT NULL,
+  rule_config JSONB NOT NULL, -- CREDIT: {minimum_day_hours, duty_rig_ratio, trip_rig_ratio, pay_scheduled_block}
   union_code VARCHAR(50),
+  version INTEGER NOT NULL DEFAULT 1,
   is_active BOOLEAN DEFAULT true,
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
@@ -184,6 +204,8 @@ CREATE TABLE pay_calculation_rules (
 CREATE INDEX idx_rules_type_crew ON pay_calculation_rules(rule_type, crew_type);
 CREATE INDEX idx_rules_active ON pay_calculation_rules(is_active);
 CREATE INDEX idx_rules_effective ON pay_calculation_rules(effective_date);
+CREATE INDEX idx_rules_union ON pay_calculation_rules(union_code);
+CREATE INDEX idx_rules_resolution ON pay_calculation_rules(rule_type, position, union_code, effective_date);
 
 -- Table 9: crew_claims
 -- Pay claim tracking
@@ -225,6 +247,169 @@ CREATE TABLE faa_part117_compliance (
 
 CREATE INDEX idx_compliance_crew_date ON faa_part117_compliance(crew_id, check_date);
 
+-- Table 11: airports
+-- Airport reference data (codes, timezone, coordinates, country)
+CREATE TABLE airports (
+  iata_code VARCHAR(3) PRIMARY KEY,
+  icao_code VARCHAR(4) UNIQUE,
+  name VARCHAR(200) NOT NULL,
+  city VARCHAR(100),
+  country_code VARCHAR(2) NOT NULL,
+  timezone VARCHAR(64) NOT NULL,
+  latitude DECIMAL(9,6) NOT NULL,
+  longitude DECIMAL(9,6) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_airports_country ON airports(country_code);
+
+-- Table 12: flight_segments
+-- Individual legs flown or deadheaded within a duty period
+CREATE TABLE flight_segments (
+  segment_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  duty_id UUID REFERENCES duty_time_records(duty_id) ON DELETE CASCADE,
+  crew_id UUID REFERENCES crew_members(crew_id) ON DELETE CASCADE,
+  segment_number INTEGER NOT NULL,
+  flight_number VARCHAR(10) NOT NULL,
+  origin VARCHAR(3) NOT NULL,
+  destination VARCHAR(3) NOT NULL,
+  out_utc TIMESTAMP NOT NULL,
+  off_utc TIMESTAMP,
+  on_utc TIMESTAMP,
+  in_utc TIMESTAMP NOT NULL,
+  aircraft_tail VARCHAR(10),
+  aircraft_type VARCHAR(50),
+  is_deadhead BOOLEAN DEFAULT false,
+  pilot_flying BOOLEAN DEFAULT false,
+  captain_seat BOOLEAN DEFAULT false,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (duty_id, segment_number)
+);
+
+CREATE INDEX idx_segments_duty ON flight_segments(duty_id);
+CREATE INDEX idx_segments_crew_out ON flight_segments(crew_id, out_utc);
+CREATE INDEX idx_segments_crew_type_landing ON flight_segments(crew_id, aircraft_type, in_utc) WHERE pilot_flying;
+
+-- Table 13: pairings
+-- Multi-day trips grouping duty periods and layovers
+CREATE TABLE pairings (
+  pairing_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_number VARCHAR(20) NOT NULL,
+  base_airport VARCHAR(3) NOT NULL,
+  crew_type VARCHAR(20) CHECK (crew_type IN ('PILOT', 'FLIGHT_ATTENDANT')),
+  start_utc TIMESTAMP NOT NULL,
+  end_utc TIMESTAMP NOT NULL,
+  credit_minutes INTEGER DEFAULT 0,
+  status VARCHAR(20) DEFAULT 'PLANNED' CHECK (status IN ('PLANNED', 'PUBLISHED', 'COMPLETED', 'CANCELLED')),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (trip_number, start_utc)
+);
+
+CREATE INDEX idx_pairings_trip_number ON pairings(trip_number);
+CREATE INDEX idx_pairings_base_start ON pairings(base_airport, start_utc);
+
+-- Table 14: pairing_duty_periods
+-- Planned duty periods within a pairing, in sequence
+CREATE TABLE pairing_duty_periods (
+  pairing_duty_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pairing_id UUID REFERENCES pairings(pairing_id) ON DELETE CASCADE,
+  sequence_number INTEGER NOT NULL,
+  duty_start_utc TIMESTAMP NOT NULL,
+  duty_end_utc TIMESTAMP NOT NULL,
+  report_airport VARCHAR(3) NOT NULL,
+  release_airport VARCHAR(3) NOT NULL,
+  aircraft_type VARCHAR(50) NOT NULL,
+  flight_time_minutes INTEGER DEFAULT 0,
+  number_of_segments INTEGER DEFAULT 1,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (pairing_id, sequence_number)
+);
+
+CREATE INDEX idx_pairing_duty_pairing ON pairing_duty_periods(pairing_id);
+
+ALTER TABLE duty_time_records
+  ADD CONSTRAINT fk_duty_pairing FOREIGN KEY (pairing_id) REFERENCES pairings(pairing_id) ON DELETE SET NULL;
+CREATE INDEX idx_duty_pairing ON duty_time_records(pairing_id);
+
+-- Table 15: qualification_restrictions
+-- Operating restrictions (high minimums, IOE, consolidation) and the conditions that lift them
+CREATE TABLE qualification_restrictions (
+  restriction_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  crew_id UUID REFERENCES crew_members(crew_id) ON DELETE CASCADE,
+  restriction_type VARCHAR(30) NOT NULL CHECK (restriction_type IN ('HIGH_MINIMUMS', 'IOE', 'CONSOLIDATION')),
+  aircraft_type VARCHAR(50) NOT NULL,
+  description TEXT,
+  imposed_date DATE NOT NULL,
+  lift_condition VARCHAR(30) NOT NULL CHECK (lift_condition IN ('PIC_HOURS_IN_TYPE', 'FLIGHT_HOURS_IN_TYPE', 'MANUAL')),
+  required_hours DECIMAL(8,2),
+  expires_on DATE,
+  status VARCHAR(20) DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'LIFTED')),
+  lifted_at TIMESTAMP,
+  lift_reason TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_restrictions_crew_status ON qualification_restrictions(crew_id, status);
+
+-- Table 16: fdp_extensions
+-- FDP extensions for unforeseen operational circumstances and the reports they require
+CREATE TABLE fdp_extensions (
+  extension_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  crew_id UUID REFERENCES crew_members(crew_id) ON DELETE CASCADE,
+  duty_id UUID REFERENCES duty_time_records(duty_id) ON DELETE CASCADE,
+  duty_start_utc TIMESTAMP NOT NULL,
+  extension_minutes INTEGER NOT NULL CHECK (extension_minutes > 0),
+  extended_duty_end_utc TIMESTAMP NOT NULL,
+  rule_pack VARCHAR(20) NOT NULL,
+  regulation VARCHAR(50) NOT NULL,
+  authorized_by VARCHAR(100) NOT NULL,
+  reason TEXT NOT NULL,
+  authorized_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  report_required BOOLEAN DEFAULT false,
+  report_due_date DATE,
+  report_filed_at TIMESTAMP,
+  report_reference VARCHAR(100),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_fdp_extensions_crew_start ON fdp_extensions(crew_id, duty_start_utc);
+CREATE INDEX idx_fdp_extensions_report_due ON fdp_extensions(report_due_date) WHERE report_required AND report_filed_at IS NULL;
+
+-- Extensions whose report to the authority has not been filed
+CREATE VIEW fdp_extension_reports_due AS
+SELECT
+  e.*,
+  cm.employee_number,
+  cm.first_name || ' ' || cm.last_name AS name,
+  cm.base_airport
+FROM fdp_extensions e
+JOIN crew_members cm ON e.crew_id = cm.crew_id
+WHERE e.report_required AND e.report_filed_at IS NULL;
+
+-- Table 17: reserve_assignments
+-- Airport, short-call and long-call reserve periods and the duty each reservist is called out for
+CREATE TABLE reserve_assignments (
+  reserve_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  crew_id UUID REFERENCES crew_members(crew_id) ON DELETE CASCADE,
+  reserve_type VARCHAR(20) NOT NULL CHECK (reserve_type IN ('AIRPORT', 'SHORT_CALL', 'LONG_CALL')),
+  reserve_airport VARCHAR(4) NOT NULL,
+  reserve_start_utc TIMESTAMP NOT NULL,
+  reserve_end_utc TIMESTAMP NOT NULL,
+  status VARCHAR(20) DEFAULT 'SCHEDULED' CHECK (status IN ('SCHEDULED', 'CALLED_OUT', 'RELEASED')),
+  callout_utc TIMESTAMP,
+  duty_id UUID REFERENCES duty_time_records(duty_id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CHECK (reserve_end_utc > reserve_start_utc)
+);
+
+CREATE INDEX idx_reserve_crew_start ON reserve_assignments(crew_id, reserve_start_utc);
+CREATE INDEX idx_reserve_available ON reserve_assignments(reserve_airport, reserve_end_utc) WHERE status = 'SCHEDULED';
+
 -- Add trigger to update updated_at timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -240,3 +425,8 @@ CREATE TRIGGER update_duty_time_records_updated_at BEFORE UPDATE ON duty_time_re
 CREATE TRIGGER update_crew_pay_records_updated_at BEFORE UPDATE ON crew_pay_records FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_pay_calculation_rules_updated_at BEFORE UPDATE ON pay_calculation_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_crew_claims_updated_at BEFORE UPDATE ON crew_claims FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_airports_updated_at BEFORE UPDATE ON airports FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_pairings_updated_at BEFORE UPDATE ON pairings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_qualification_restrictions_updated_at BEFORE UPDATE ON qualification_restrictions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_fdp_extensions_updated_at BEFORE UPDATE ON fdp_extensions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_reserve_assignments_updated_at BEFORE UPDATE ON reserve_assignments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
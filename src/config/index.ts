@@ -3,9 +3,45 @@
  */
 
 import dotenv from 'dotenv';
+import type { RulePackId } from '../types/rule-pack.js';
 
 dotenv.config();
 
+const RULE_PACK_IDS: readonly RulePackId[] = ['FAA_PART117', 'EASA_FTL'];
+
+/**
+ * Check a configured rule pack id, failing at startup rather than on the first validation
+ */
+function parseRulePackId(value: string, variable: string): RulePackId {
+  if (!RULE_PACK_IDS.includes(value as RulePackId)) {
+    throw new Error(
+      `Invalid rule pack "${value}" in ${variable}; expected one of ${RULE_PACK_IDS.join(', ')}`
+    );
+  }
+  return value as RulePackId;
+}
+
+/**
+ * Parse operator certificate to rule pack mappings ("CERT1:EASA_FTL,CERT2:FAA_PART117")
+ */
+function parseOperatorRulePacks(value: string): Record<string, RulePackId> {
+  const mappings: Record<string, RulePackId> = {};
+  for (const entry of value.split(',')) {
+    if (!entry.trim()) {
+      continue;
+    }
+
+    const [certificate, pack] = entry.split(':').map((part) => part.trim());
+    if (!certificate || !pack) {
+      throw new Error(
+        `Invalid entry "${entry.trim()}" in OPERATOR_RULE_PACKS; expected CERTIFICATE:RULE_PACK`
+      );
+    }
+    mappings[certificate] = parseRulePackId(pack, 'OPERATOR_RULE_PACKS');
+  }
+  return mappings;
+}
+
 export interface Config {
   database: {
     url: string;
@@ -34,6 +70,8 @@ export interface Config {
   compliance: {
     faaPart117Enabled: boolean;
     alertDaysBeforeExpiry: number;
+    defaultRulePack: RulePackId;
+    operatorRulePacks: Record<string, RulePackId>;
   };
   timezone: string;
 }
@@ -66,6 +104,11 @@ const config: Config = {
   compliance: {
     faaPart117Enabled: process.env.FAA_PART117_ENABLED === 'true',
     alertDaysBeforeExpiry: parseInt(process.env.ALERT_DAYS_BEFORE_EXPIRY || '60', 10),
+    defaultRulePack: parseRulePackId(
+      process.env.DEFAULT_RULE_PACK || 'FAA_PART117',
+      'DEFAULT_RULE_PACK'
+    ),
+    operatorRulePacks: parseOperatorRulePacks(process.env.OPERATOR_RULE_PACKS || ''),
   },
   timezone: process.env.DEFAULT_TIMEZONE || 'America/Los_Angeles',
 };
@@ -86,6 +86,13 @@ async function verifyDatabaseSchema(): Promise<string[]> {
     'pay_calculation_rules',
     'crew_claims',
     'faa_part117_compliance',
+    'airports',
+    'flight_segments',
+    'pairings',
+    'pairing_duty_periods',
+    'qualification_restrictions',
+    'fdp_extensions',
+    'reserve_assignments',
   ];
 
   const dbPool = getPool();
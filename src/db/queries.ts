@@ -2,7 +2,7 @@
  * Database query functions for all crew operations
  */
 
-import { query } from './connection.js';
+import { query, transaction } from './connection.js';
 import type {
   CrewMember,
   PilotLicense,
@@ -10,13 +10,23 @@ import type {
   MedicalCertificate,
   RecurrentTraining,
   DutyTimeRecord,
+  FlightSegment,
+  Airport,
+  QualificationRestriction,
 } from '../types/crew.js';
 import type {
   CrewPayRecord,
   PayCalculationRule,
   CrewClaim,
 } from '../types/pay.js';
-import type { FAACompliance } from '../types/qualifications.js';
+import type {
+  FAACompliance,
+  FDPExtension,
+  FDPExtensionReportDue,
+  ReserveAssignment,
+  ReserveType,
+} from '../types/qualifications.js';
+import type { Pairing, PairingDutyPeriod } from '../types/pairing.js';
 
 // ============================================================================
 // CREW MEMBER QUERIES
@@ -144,25 +154,45 @@ export async function getTrainingRecords(
 }
 
 /**
- * Get crew members with specific aircraft qualification
+ * Get training events a crew member completed within a period
+ */
+export async function getTrainingEvents(
+  crewId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<RecurrentTraining[]> {
+  const result = await query<RecurrentTraining>(
+    `SELECT * FROM recurrent_training
+     WHERE crew_id = $1
+     AND completion_date BETWEEN $2 AND $3
+     ORDER BY completion_date`,
+    [crewId, startDate, endDate]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get crew members with an aircraft qualification that has not lapsed by the given date
  */
 export async function getCrewByAircraftType(
   aircraftType: string,
-  position?: string
+  position?: string,
+  asOf: Date = new Date()
 ): Promise<CrewMember[]> {
   let sql = `
     SELECT DISTINCT cm.*
     FROM crew_members cm
     JOIN aircraft_type_ratings atr ON cm.crew_id = atr.crew_id
     WHERE atr.aircraft_type = $1
-    AND atr.currency_status = 'CURRENT'
+    AND (atr.next_check_due IS NULL OR atr.next_check_due >= $2::date)
     AND cm.status = 'ACTIVE'
   `;
 
-  const params: any[] = [aircraftType];
+  const params: any[] = [aircraftType, asOf];
 
   if (position) {
-    sql += ' AND cm.position = $2';
+    sql += ' AND cm.position = $3';
     params.push(position);
   }
 
@@ -172,6 +202,72 @@ export async function getCrewByAircraftType(
   return result.rows;
 }
 
+/**
+ * Get qualification restrictions for a crew member
+ */
+export async function getQualificationRestrictions(
+  crewId: string,
+  status?: 'ACTIVE' | 'LIFTED'
+): Promise<QualificationRestriction[]> {
+  let sql = 'SELECT * FROM qualification_restrictions WHERE crew_id = $1';
+  const params: any[] = [crewId];
+
+  if (status) {
+    sql += ' AND status = $2';
+    params.push(status);
+  }
+
+  sql += ' ORDER BY imposed_date';
+
+  const result = await query<QualificationRestriction>(sql, params);
+  return result.rows.map((r) => ({
+    ...r,
+    required_hours: r.required_hours !== null ? Number(r.required_hours) : undefined,
+  }));
+}
+
+/**
+ * Mark a qualification restriction as lifted
+ */
+export async function liftQualificationRestriction(
+  restrictionId: string,
+  reason: string
+): Promise<QualificationRestriction> {
+  const result = await query<QualificationRestriction>(
+    `UPDATE qualification_restrictions
+     SET status = 'LIFTED', lifted_at = NOW(), lift_reason = $2
+     WHERE restriction_id = $1
+     RETURNING *`,
+    [restrictionId, reason]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Get operated (non-deadhead) block minutes in an aircraft type since a date,
+ * optionally only legs flown in the captain seat (PIC time)
+ */
+export async function getBlockMinutesInType(
+  crewId: string,
+  aircraftType: string,
+  since: Date,
+  captainSeatOnly = false
+): Promise<number> {
+  const result = await query<{ minutes: string | null }>(
+    `SELECT SUM(EXTRACT(EPOCH FROM (in_utc - out_utc)) / 60) AS minutes
+     FROM flight_segments
+     WHERE crew_id = $1
+     AND aircraft_type = $2
+     AND NOT is_deadhead
+     AND out_utc >= $3
+     AND (NOT $4::boolean OR captain_seat)`,
+    [crewId, aircraftType, since, captainSeatOnly]
+  );
+
+  return Number(result.rows[0]?.minutes || 0);
+}
+
 // ============================================================================
 // CERTIFICATION EXPIRY QUERIES
 // ============================================================================
@@ -296,14 +392,17 @@ export async function upsertDutyTimeRecord(
       crew_id, duty_date, duty_start_utc, duty_end_utc,
       flight_time_minutes, duty_time_minutes, block_time_minutes,
       rest_period_start_utc, rest_period_end_utc,
-      is_fdp, wocl_crossing, consecutive_nights, flight_segments
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      is_fdp, wocl_crossing, consecutive_nights, flight_segments, pairing_id,
+      rest_opportunities, deadhead_minutes
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
     ON CONFLICT (duty_id)
     DO UPDATE SET
       duty_end_utc = EXCLUDED.duty_end_utc,
       flight_time_minutes = EXCLUDED.flight_time_minutes,
       duty_time_minutes = EXCLUDED.duty_time_minutes,
       block_time_minutes = EXCLUDED.block_time_minutes,
+      deadhead_minutes = EXCLUDED.deadhead_minutes,
+      rest_opportunities = EXCLUDED.rest_opportunities,
       updated_at = NOW()
     RETURNING *`,
     [
@@ -320,6 +419,9 @@ export async function upsertDutyTimeRecord(
       record.wocl_crossing || false,
       record.consecutive_nights || 0,
       record.flight_segments || 0,
+      record.pairing_id || null,
+      JSON.stringify(record.rest_opportunities || []),
+      record.deadhead_minutes || 0,
     ]
   );
 
@@ -327,13 +429,167 @@ export async function upsertDutyTimeRecord(
 }
 
 /**
- * Calculate rolling hours for FAA Part 117
+ * Replace the flight segments recorded for a duty period
+ */
+export async function replaceFlightSegments(
+  dutyId: string,
+  crewId: string,
+  segments: Array<
+    Omit<FlightSegment, 'segment_id' | 'duty_id' | 'crew_id' | 'created_at'>
+  >
+): Promise<FlightSegment[]> {
+  return transaction(async (client) => {
+    await client.query('DELETE FROM flight_segments WHERE duty_id = $1', [dutyId]);
+
+    const saved: FlightSegment[] = [];
+    for (const segment of segments) {
+      const result = await client.query<FlightSegment>(
+        `INSERT INTO flight_segments (
+          duty_id, crew_id, segment_number, flight_number, origin, destination,
+          out_utc, off_utc, on_utc, in_utc, aircraft_tail, aircraft_type, is_deadhead,
+          pilot_flying, captain_seat
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        RETURNING *`,
+        [
+          dutyId,
+          crewId,
+          segment.segment_number,
+          segment.flight_number,
+          segment.origin,
+          segment.destination,
+          segment.out_utc,
+          segment.off_utc,
+          segment.on_utc,
+          segment.in_utc,
+          segment.aircraft_tail,
+          segment.aircraft_type,
+          segment.is_deadhead,
+          segment.pilot_flying,
+          segment.captain_seat,
+        ]
+      );
+      saved.push(result.rows[0]);
+    }
+
+    return saved;
+  });
+}
+
+/**
+ * Get flight segments for a duty period
+ */
+export async function getFlightSegmentsForDuty(
+  dutyId: string
+): Promise<FlightSegment[]> {
+  const result = await query<FlightSegment>(
+    `SELECT * FROM flight_segments
+     WHERE duty_id = $1
+     ORDER BY segment_number`,
+    [dutyId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get flight segments for a crew member within date range (by block-out time)
+ */
+export async function getFlightSegments(
+  crewId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<FlightSegment[]> {
+  const result = await query<FlightSegment>(
+    `SELECT * FROM flight_segments
+     WHERE crew_id = $1
+     AND out_utc >= $2
+     AND out_utc < $3::date + INTERVAL '1 day'
+     ORDER BY out_utc`,
+    [crewId, startDate, endDate]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get the most recent landings a crew member made as pilot flying in an aircraft type
+ * Landing time is the on time, falling back to block-in
+ */
+export async function getRecentLandings(
+  crewId: string,
+  aircraftType: string,
+  asOf: Date,
+  limit: number
+): Promise<Date[]> {
+  const result = await query<{ landing_utc: Date }>(
+    `SELECT COALESCE(on_utc, in_utc) AS landing_utc
+     FROM flight_segments
+     WHERE crew_id = $1
+     AND aircraft_type = $2
+     AND pilot_flying
+     AND NOT is_deadhead
+     AND COALESCE(on_utc, in_utc) <= $3
+     ORDER BY landing_utc DESC
+     LIMIT $4`,
+    [crewId, aircraftType, asOf, limit]
+  );
+
+  return result.rows.map((r) => r.landing_utc);
+}
+
+/**
+ * Refresh the 90-day landing counters on a crew member's type ratings from recorded legs
+ * The 90 days end at asOf (the recorded duty), not when the record is entered
+ */
+export async function refreshLandingCounts(crewId: string, asOf: Date): Promise<void> {
+  await query(
+    `UPDATE aircraft_type_ratings atr
+     SET landings_90_day = (
+       SELECT COUNT(*)
+       FROM flight_segments fs
+       WHERE fs.crew_id = atr.crew_id
+       AND fs.aircraft_type = atr.aircraft_type
+       AND fs.pilot_flying
+       AND NOT fs.is_deadhead
+       AND COALESCE(fs.on_utc, fs.in_utc) > $2::timestamptz - INTERVAL '90 days'
+       AND COALESCE(fs.on_utc, fs.in_utc) <= $2::timestamptz
+     ),
+     updated_at = NOW()
+     WHERE atr.crew_id = $1`,
+    [crewId, asOf]
+  );
+}
+
+/**
+ * Calculate rolling flight time by calendar day and cumulative FDP hours by
+ * consecutive hours (FDP windows end at fdpWindowEnd and clip duties that straddle them)
+ * excludeDutyId leaves out a recorded duty that is being re-checked
  */
 export async function calculateRollingHours(
   crewId: string,
-  asOfDate: Date
-): Promise<{ rolling_28_day: number; rolling_365_day: number }> {
-  const result = await query<{ rolling_28_day: string; rolling_365_day: string }>(
+  asOfDate: Date,
+  fdpWindowEnd: Date = asOfDate,
+  excludeDutyId?: string
+): Promise<{
+  rolling_28_day: number;
+  rolling_365_day: number;
+  calendar_year: number;
+  fdp_168_hour: number;
+  fdp_672_hour: number;
+  duty_168_hour: number;
+  duty_336_hour: number;
+  duty_672_hour: number;
+}> {
+  const result = await query<{
+    rolling_28_day: string;
+    rolling_365_day: string;
+    calendar_year: string;
+    fdp_168_hour: string;
+    fdp_672_hour: string;
+    duty_168_hour: string;
+    duty_336_hour: string;
+    duty_672_hour: string;
+  }>(
     `SELECT
       COALESCE(SUM(CASE
         WHEN duty_date >= $2::date - INTERVAL '28 days'
@@ -344,17 +600,49 @@ export async function calculateRollingHours(
         WHEN duty_date >= $2::date - INTERVAL '365 days'
         THEN flight_time_minutes
         ELSE 0
-      END) / 60.0, 0) as rolling_365_day
+      END) / 60.0, 0) as rolling_365_day,
+      COALESCE(SUM(CASE
+        WHEN duty_date >= date_trunc('year', $2::date)
+        THEN flight_time_minutes
+        ELSE 0
+      END) / 60.0, 0) as calendar_year,
+      COALESCE(SUM(GREATEST(0, EXTRACT(EPOCH FROM (
+        LEAST(COALESCE(duty_end_utc, duty_start_utc + duty_time_minutes * INTERVAL '1 minute'), $3::timestamp)
+        - GREATEST(duty_start_utc, $3::timestamp - INTERVAL '168 hours')
+      )))) FILTER (WHERE is_fdp) / 3600.0, 0) as fdp_168_hour,
+      COALESCE(SUM(GREATEST(0, EXTRACT(EPOCH FROM (
+        LEAST(COALESCE(duty_end_utc, duty_start_utc + duty_time_minutes * INTERVAL '1 minute'), $3::timestamp)
+        - GREATEST(duty_start_utc, $3::timestamp - INTERVAL '672 hours')
+      )))) FILTER (WHERE is_fdp) / 3600.0, 0) as fdp_672_hour,
+      COALESCE(SUM(GREATEST(0, EXTRACT(EPOCH FROM (
+        LEAST(COALESCE(duty_end_utc, duty_start_utc + duty_time_minutes * INTERVAL '1 minute'), $3::timestamp)
+        - GREATEST(duty_start_utc, $3::timestamp - INTERVAL '168 hours')
+      )))) / 3600.0, 0) as duty_168_hour,
+      COALESCE(SUM(GREATEST(0, EXTRACT(EPOCH FROM (
+        LEAST(COALESCE(duty_end_utc, duty_start_utc + duty_time_minutes * INTERVAL '1 minute'), $3::timestamp)
+        - GREATEST(duty_start_utc, $3::timestamp - INTERVAL '336 hours')
+      )))) / 3600.0, 0) as duty_336_hour,
+      COALESCE(SUM(GREATEST(0, EXTRACT(EPOCH FROM (
+        LEAST(COALESCE(duty_end_utc, duty_start_utc + duty_time_minutes * INTERVAL '1 minute'), $3::timestamp)
+        - GREATEST(duty_start_utc, $3::timestamp - INTERVAL '672 hours')
+      )))) / 3600.0, 0) as duty_672_hour
      FROM duty_time_records
      WHERE crew_id = $1
-     AND duty_date <= $2`,
-    [crewId, asOfDate]
+     AND duty_date <= $2
+     AND ($4::uuid IS NULL OR duty_id <> $4::uuid)`,
+    [crewId, asOfDate, fdpWindowEnd, excludeDutyId ?? null]
   );
 
   const row = result.rows[0];
   return {
     rolling_28_day: row ? parseFloat(row.rolling_28_day) : 0,
     rolling_365_day: row ? parseFloat(row.rolling_365_day) : 0,
+    calendar_year: row ? parseFloat(row.calendar_year) : 0,
+    fdp_168_hour: row ? parseFloat(row.fdp_168_hour) : 0,
+    fdp_672_hour: row ? parseFloat(row.fdp_672_hour) : 0,
+    duty_168_hour: row ? parseFloat(row.duty_168_hour) : 0,
+    duty_336_hour: row ? parseFloat(row.duty_336_hour) : 0,
+    duty_672_hour: row ? parseFloat(row.duty_672_hour) : 0,
   };
 }
 
@@ -404,10 +692,10 @@ export async function insertPayRecord(
   const result = await query<CrewPayRecord>(
     `INSERT INTO crew_pay_records (
       crew_id, pay_period_start, pay_period_end,
-      flight_hours, duty_hours, base_pay, per_diem,
-      premium_pay, overtime_pay, guarantee_pay, total_compensation,
-      calculation_method, verified, notes
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      flight_hours, duty_hours, credit_hours, base_pay, per_diem,
+      premium_pay, overtime_pay, guarantee_pay, deadhead_pay, training_pay,
+      total_compensation, calculation_method, verified, notes
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
     RETURNING *`,
     [
       record.crew_id,
@@ -415,11 +703,14 @@ export async function insertPayRecord(
       record.pay_period_end,
       record.flight_hours,
       record.duty_hours,
+      record.credit_hours,
       record.base_pay,
       record.per_diem,
       record.premium_pay,
       record.overtime_pay,
       record.guarantee_pay,
+      record.deadhead_pay,
+      record.training_pay,
       record.total_compensation,
       record.calculation_method,
       record.verified,
@@ -543,3 +834,313 @@ export async function getLatestComplianceRecord(
 
   return result.rows[0] || null;
 }
+
+/**
+ * Record an FDP extension for unforeseen circumstances
+ */
+export async function insertFDPExtension(
+  extension: Omit<
+    FDPExtension,
+    'extension_id' | 'report_filed_at' | 'report_reference' | 'created_at' | 'updated_at'
+  >
+): Promise<FDPExtension> {
+  const result = await query<FDPExtension>(
+    `INSERT INTO fdp_extensions (
+      crew_id, duty_id, duty_start_utc, extension_minutes, extended_duty_end_utc,
+      rule_pack, regulation, authorized_by, reason, authorized_at,
+      report_required, report_due_date
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    RETURNING *`,
+    [
+      extension.crew_id,
+      extension.duty_id || null,
+      extension.duty_start_utc,
+      extension.extension_minutes,
+      extension.extended_duty_end_utc,
+      extension.rule_pack,
+      extension.regulation,
+      extension.authorized_by,
+      extension.reason,
+      extension.authorized_at,
+      extension.report_required,
+      extension.report_due_date || null,
+    ]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Get FDP extensions for duties starting in a time range
+ */
+export async function getFDPExtensions(
+  crewId: string,
+  startTime: Date,
+  endTime: Date
+): Promise<FDPExtension[]> {
+  const result = await query<FDPExtension>(
+    `SELECT * FROM fdp_extensions
+     WHERE crew_id = $1
+     AND duty_start_utc >= $2
+     AND duty_start_utc <= $3
+     ORDER BY duty_start_utc`,
+    [crewId, startTime, endTime]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get FDP extensions awaiting their report to the authority
+ */
+export async function getFDPExtensionReportsDue(filters?: {
+  base_airport?: string;
+  due_by?: Date;
+}): Promise<FDPExtensionReportDue[]> {
+  let sql = 'SELECT * FROM fdp_extension_reports_due WHERE 1=1';
+  const params: any[] = [];
+  let paramIndex = 1;
+
+  if (filters?.base_airport) {
+    sql += ` AND base_airport = $${paramIndex++}`;
+    params.push(filters.base_airport);
+  }
+  if (filters?.due_by) {
+    sql += ` AND report_due_date <= $${paramIndex++}`;
+    params.push(filters.due_by);
+  }
+
+  sql += ' ORDER BY report_due_date, authorized_at';
+
+  const result = await query<FDPExtensionReportDue>(sql, params);
+  return result.rows;
+}
+
+// ============================================================================
+// RESERVE QUERIES
+// ============================================================================
+
+/**
+ * Get reserve assignments for a crew member overlapping a time range
+ */
+export async function getReserveAssignments(
+  crewId: string,
+  startTime: Date,
+  endTime: Date
+): Promise<ReserveAssignment[]> {
+  const result = await query<ReserveAssignment>(
+    `SELECT * FROM reserve_assignments
+     WHERE crew_id = $1
+     AND reserve_start_utc <= $3
+     AND reserve_end_utc >= $2
+     ORDER BY reserve_start_utc`,
+    [crewId, startTime, endTime]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get reserve assignments still available for callout at a point in time
+ */
+export async function getAvailableReserves(filters: {
+  at: Date;
+  base_airport?: string;
+  reserve_type?: ReserveType;
+}): Promise<ReserveAssignment[]> {
+  let sql = `
+    SELECT * FROM reserve_assignments
+    WHERE status = 'SCHEDULED'
+    AND reserve_end_utc > $1
+    AND (reserve_start_utc <= $1 OR reserve_type = 'LONG_CALL')
+  `;
+  const params: any[] = [filters.at];
+  let paramIndex = 2;
+
+  if (filters.base_airport) {
+    sql += ` AND reserve_airport = $${paramIndex++}`;
+    params.push(filters.base_airport);
+  }
+  if (filters.reserve_type) {
+    sql += ` AND reserve_type = $${paramIndex++}`;
+    params.push(filters.reserve_type);
+  }
+
+  sql += ' ORDER BY reserve_start_utc';
+
+  const result = await query<ReserveAssignment>(sql, params);
+  return result.rows;
+}
+
+/**
+ * Mark a reserve assignment as called out for a duty
+ */
+export async function recordReserveCallout(
+  reserveId: string,
+  calloutUtc: Date | null,
+  dutyId: string
+): Promise<ReserveAssignment> {
+  const result = await query<ReserveAssignment>(
+    `UPDATE reserve_assignments
+     SET status = 'CALLED_OUT', callout_utc = $2, duty_id = $3, updated_at = NOW()
+     WHERE reserve_id = $1
+     RETURNING *`,
+    [reserveId, calloutUtc, dutyId]
+  );
+
+  return result.rows[0];
+}
+
+// ============================================================================
+// PAIRING QUERIES
+// ============================================================================
+
+/**
+ * Insert a pairing together with its duty periods
+ */
+export async function insertPairing(
+  pairing: Omit<Pairing, 'pairing_id' | 'created_at' | 'updated_at'>,
+  dutyPeriods: Array<
+    Omit<PairingDutyPeriod, 'pairing_duty_id' | 'pairing_id' | 'created_at'>
+  >
+): Promise<{ pairing: Pairing; duty_periods: PairingDutyPeriod[] }> {
+  return transaction(async (client) => {
+    const pairingResult = await client.query<Pairing>(
+      `INSERT INTO pairings (
+        trip_number, base_airport, crew_type, start_utc, end_utc, credit_minutes, status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        pairing.trip_number,
+        pairing.base_airport,
+        pairing.crew_type || null,
+        pairing.start_utc,
+        pairing.end_utc,
+        pairing.credit_minutes,
+        pairing.status,
+      ]
+    );
+    const saved = pairingResult.rows[0];
+
+    const savedDuties: PairingDutyPeriod[] = [];
+    for (const duty of dutyPeriods) {
+      const dutyResult = await client.query<PairingDutyPeriod>(
+        `INSERT INTO pairing_duty_periods (
+          pairing_id, sequence_number, duty_start_utc, duty_end_utc,
+          report_airport, release_airport, aircraft_type,
+          flight_time_minutes, number_of_segments
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING *`,
+        [
+          saved.pairing_id,
+          duty.sequence_number,
+          duty.duty_start_utc,
+          duty.duty_end_utc,
+          duty.report_airport,
+          duty.release_airport,
+          duty.aircraft_type,
+          duty.flight_time_minutes,
+          duty.number_of_segments,
+        ]
+      );
+      savedDuties.push(dutyResult.rows[0]);
+    }
+
+    return { pairing: saved, duty_periods: savedDuties };
+  });
+}
+
+/**
+ * Get pairing by pairing_id or trip number (most recent start for a trip number)
+ */
+export async function getPairing(identifier: string): Promise<Pairing | null> {
+  const result = await query<Pairing>(
+    `SELECT * FROM pairings
+     WHERE pairing_id::text = $1 OR trip_number = $1
+     ORDER BY start_utc DESC
+     LIMIT 1`,
+    [identifier]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Get duty periods for a pairing in sequence
+ */
+export async function getPairingDutyPeriods(
+  pairingId: string
+): Promise<PairingDutyPeriod[]> {
+  const result = await query<PairingDutyPeriod>(
+    `SELECT * FROM pairing_duty_periods
+     WHERE pairing_id = $1
+     ORDER BY sequence_number`,
+    [pairingId]
+  );
+
+  return result.rows;
+}
+
+// ============================================================================
+// AIRPORT REFERENCE QUERIES
+// ============================================================================
+
+/**
+ * Get all airports in the reference table
+ */
+export async function getAirports(): Promise<Airport[]> {
+  const result = await query<Airport>(
+    `SELECT iata_code, icao_code, name, city, country_code, timezone,
+            latitude::float AS latitude, longitude::float AS longitude
+     FROM airports
+     ORDER BY iata_code`
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get airport by IATA or ICAO code
+ */
+export async function getAirportByCode(code: string): Promise<Airport | null> {
+  const result = await query<Airport>(
+    `SELECT iata_code, icao_code, name, city, country_code, timezone,
+            latitude::float AS latitude, longitude::float AS longitude
+     FROM airports
+     WHERE iata_code = UPPER($1) OR icao_code = UPPER($1)`,
+    [code]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Insert or update an airport reference record
+ */
+export async function upsertAirport(airport: Airport): Promise<void> {
+  await query(
+    `INSERT INTO airports (
+      iata_code, icao_code, name, city, country_code, timezone, latitude, longitude
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (iata_code)
+    DO UPDATE SET
+      icao_code = EXCLUDED.icao_code,
+      name = EXCLUDED.name,
+      city = EXCLUDED.city,
+      country_code = EXCLUDED.country_code,
+      timezone = EXCLUDED.timezone,
+      latitude = EXCLUDED.latitude,
+      longitude = EXCLUDED.longitude,
+      updated_at = NOW()`,
+    [
+      airport.iata_code,
+      airport.icao_code,
+      airport.name,
+      airport.city,
+      airport.country_code,
+      airport.timezone,
+      airport.latitude,
+      airport.longitude,
+    ]
+  );
+}
@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+
+/**
+ * Seed the airports reference table from the bundled data file
+ */
+
+import { initializeDatabase, closeDatabase } from './connection.js';
+import { upsertAirport } from './queries.js';
+import { getBundledAirports } from '../utils/airports.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Upsert every bundled airport into the airports table
+ */
+async function seedAirports(): Promise<void> {
+  await initializeDatabase();
+
+  const airports = getBundledAirports();
+  for (const airport of airports) {
+    await upsertAirport(airport);
+  }
+
+  logger.info(`Seeded ${airports.length} airports`);
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  seedAirports()
+    .then(() => closeDatabase())
+    .then(() => process.exit(0))
+    .catch((error) => {
+      logger.error('Airport seed failed:', error);
+      process.exit(1);
+    });
+}
+
+export { seedAirports };
@@ -1,10 +1,12 @@
 /**
- * Compliance Checker for FAA Part 117
+ * Compliance Checker for FAA Part 117 and Part 121 Subpart Q
  * Monitors ongoing compliance and generates alerts
  */
 
 import { getAllCrewMembers, calculateRollingHours, insertComplianceRecord } from '../db/queries.js';
-import type { FAACompliance } from '../types/qualifications.js';
+import type { CrewMember } from '../types/crew.js';
+import type { FAACompliance, FALegalityResult } from '../types/qualifications.js';
+import { FADutyValidator } from './fa-duty-validator.js';
 import { logger } from '../utils/logger.js';
 
 export interface ComplianceAlert {
@@ -20,8 +22,14 @@ export interface ComplianceAlert {
 }
 
 export class ComplianceChecker {
+  private faValidator: FADutyValidator;
+
+  constructor() {
+    this.faValidator = new FADutyValidator();
+  }
+
   /**
-   * Run compliance check for all active pilots
+   * Run compliance check for all active pilots and flight attendants
    */
   async checkAllCrew(checkDate?: Date): Promise<ComplianceAlert[]> {
     const date = checkDate || new Date();
@@ -29,23 +37,20 @@ export class ComplianceChecker {
 
     const alerts: ComplianceAlert[] = [];
 
-    // Get all active pilots
-    const pilots = await getAllCrewMembers({
-      crew_type: 'PILOT',
-      status: 'ACTIVE',
-    });
+    // Get all active crew
+    const crew = await getAllCrewMembers({ status: 'ACTIVE' });
 
-    logger.info(`Checking ${pilots.length} pilots for compliance`);
+    logger.info(`Checking ${crew.length} crew members for compliance`);
 
-    for (const pilot of pilots) {
+    for (const member of crew) {
       try {
-        const pilotAlerts = await this.checkCrewCompliance(pilot.crew_id, date);
-        alerts.push(...pilotAlerts);
+        const crewAlerts = await this.checkCrewCompliance(member.crew_id, date);
+        alerts.push(...crewAlerts);
 
         // Record compliance in database
-        await this.recordCompliance(pilot.crew_id, date);
+        await this.recordCompliance(member, date);
       } catch (error) {
-        logger.error(`Failed to check compliance for crew ${pilot.crew_id}:`, error);
+        logger.error(`Failed to check compliance for crew ${member.crew_id}:`, error);
       }
     }
 
@@ -67,6 +72,12 @@ export class ComplianceChecker {
       return alerts;
     }
 
+    // Flight attendants have no flight time limits; check 121.467 duty and rest
+    if (crewMember.crew_type === 'FLIGHT_ATTENDANT') {
+      const result = await this.faValidator.checkRecordedCompliance(crewId, checkDate);
+      return result ? this.flightAttendantAlerts(crewMember, result) : alerts;
+    }
+
     // Calculate rolling hours
     const rolling = await calculateRollingHours(crewId, checkDate);
 
@@ -153,12 +164,75 @@ export class ComplianceChecker {
     return alerts;
   }
 
+  /**
+   * Alerts for a flight attendant's latest duty and the rest before it
+   */
+  private flightAttendantAlerts(crewMember: CrewMember, result: FALegalityResult): ComplianceAlert[] {
+    const alerts: ComplianceAlert[] = [];
+    const name = `${crewMember.first_name} ${crewMember.last_name}`;
+    const duty = result.duty_compliance;
+    const rest = result.rest_compliance;
+
+    if (!duty.is_compliant) {
+      alerts.push({
+        crew_id: crewMember.crew_id,
+        employee_number: crewMember.employee_number,
+        name,
+        alert_type: 'LIMIT_EXCEEDED',
+        severity: 'HIGH',
+        message: 'Duty period exceeds the 121.467 scheduled limit',
+        current_value: duty.scheduled_duty_hours,
+        limit_value: duty.max_duty_hours,
+        recommended_action: 'Confirm the flight attendant staffing that allowed the extended duty',
+      });
+    }
+
+    const restShort =
+      rest.rest_before_hours !== null &&
+      rest.rest_before_hours < rest.minimum_rest_required &&
+      !rest.reduced_rest;
+    if (restShort) {
+      alerts.push({
+        crew_id: crewMember.crew_id,
+        employee_number: crewMember.employee_number,
+        name,
+        alert_type: 'REST_REQUIRED',
+        severity: 'CRITICAL',
+        message: 'Rest before the latest duty was below the 121.467 minimum',
+        current_value: rest.rest_before_hours ?? 0,
+        limit_value: rest.minimum_rest_required,
+        recommended_action: 'Schedule the required rest before any further assignment',
+      });
+    }
+
+    if (rest.longest_rest_7_days_hours < rest.weekly_rest_required_hours) {
+      alerts.push({
+        crew_id: crewMember.crew_id,
+        employee_number: crewMember.employee_number,
+        name,
+        alert_type: 'REST_REQUIRED',
+        severity: 'CRITICAL',
+        message: `No ${rest.weekly_rest_required_hours}-hour rest in the last 7 days`,
+        current_value: rest.longest_rest_7_days_hours,
+        limit_value: rest.weekly_rest_required_hours,
+        recommended_action: `Schedule ${rest.weekly_rest_required_hours} consecutive hours free of duty before the next assignment`,
+      });
+    }
+
+    return alerts;
+  }
+
   /**
    * Record compliance check in database
    */
-  private async recordCompliance(crewId: string, checkDate: Date): Promise<void> {
+  private async recordCompliance(crewMember: CrewMember, checkDate: Date): Promise<void> {
+    const crewId = crewMember.crew_id;
     try {
       const rolling = await calculateRollingHours(crewId, checkDate);
+      const faResult =
+        crewMember.crew_type === 'FLIGHT_ATTENDANT'
+          ? await this.faValidator.checkRecordedCompliance(crewId, checkDate)
+          : null;
 
       const complianceRecord: Omit<FAACompliance, 'compliance_id' | 'created_at'> = {
         crew_id: crewId,
@@ -166,9 +240,16 @@ export class ComplianceChecker {
         rolling_28_day_hours: rolling.rolling_28_day,
         rolling_365_day_hours: rolling.rolling_365_day,
         consecutive_duty_days: 0, // TODO: Calculate from duty records
-        rest_compliance: rolling.rolling_28_day < 100,
-        fdp_compliance: rolling.rolling_365_day < 1000,
-        violations: undefined,
+        rest_compliance:
+          crewMember.crew_type === 'FLIGHT_ATTENDANT'
+            ? faResult?.rest_compliance.is_compliant ?? true
+            : rolling.rolling_28_day < 100,
+        fdp_compliance:
+          crewMember.crew_type === 'FLIGHT_ATTENDANT'
+            ? faResult?.duty_compliance.is_compliant ?? true
+            : rolling.rolling_365_day < 1000,
+        violations:
+          faResult && !faResult.is_legal ? { violated_rules: faResult.violated_rules } : undefined,
       };
 
       await insertComplianceRecord(complianceRecord);
@@ -188,18 +269,15 @@ export class ComplianceChecker {
   }> {
     logger.info('Generating compliance report', { startDate, endDate });
 
-    // Get all active pilots
-    const pilots = await getAllCrewMembers({
-      crew_type: 'PILOT',
-      status: 'ACTIVE',
-    });
+    // Get all active crew
+    const crew = await getAllCrewMembers({ status: 'ACTIVE' });
 
     const alerts: ComplianceAlert[] = [];
 
-    // Check each pilot
-    for (const pilot of pilots) {
-      const pilotAlerts = await this.checkCrewCompliance(pilot.crew_id, endDate);
-      alerts.push(...pilotAlerts);
+    // Check each crew member
+    for (const member of crew) {
+      const crewAlerts = await this.checkCrewCompliance(member.crew_id, endDate);
+      alerts.push(...crewAlerts);
     }
 
     // Count alerts by severity
@@ -215,8 +293,8 @@ export class ComplianceChecker {
     });
 
     const report = {
-      total_crew_checked: pilots.length,
-      compliant_crew: pilots.length - new Set(alerts.map((a) => a.crew_id)).size,
+      total_crew_checked: crew.length,
+      compliant_crew: crew.length - new Set(alerts.map((a) => a.crew_id)).size,
       alerts_by_severity: alertsBySeverity,
       alerts,
     };
@@ -0,0 +1,99 @@
+/**
+ * Credit Calculator
+ * Works out pay credit per duty period (the greater of block, scheduled block,
+ * minimum day and duty rig) and per trip (the greater of its duty credit and
+ * trip rig on TAFB)
+ */
+
+import type {
+  CreditComponent,
+  CreditRules,
+  CreditSummary,
+  DutyCredit,
+  DutyPeriodHours,
+  Trip,
+  TripCredit,
+} from '../types/pay.js';
+
+export class CreditCalculator {
+  /**
+   * Credit for all trips in a pay period
+   */
+  calculate(dutyPeriods: DutyPeriodHours[], trips: Trip[], rules: CreditRules): CreditSummary {
+    const dutyCredits = new Map(
+      dutyPeriods.map((duty) => [duty.duty_id, this.creditDutyPeriod(duty, rules)])
+    );
+
+    const tripCredits = trips.map((trip) => {
+      const duties = trip.duty_ids
+        .map((id) => dutyCredits.get(id))
+        .filter((d): d is DutyCredit => d !== undefined);
+      return this.creditTrip(trip, duties, rules);
+    });
+
+    return {
+      rules,
+      block_hours: dutyPeriods.reduce((sum, duty) => sum + duty.block_hours, 0),
+      credit_hours: tripCredits.reduce((sum, trip) => sum + trip.credit_hours, 0),
+      trips: tripCredits,
+    };
+  }
+
+  /**
+   * Greatest of the duty period guarantees; ties go to block time
+   */
+  creditDutyPeriod(duty: DutyPeriodHours, rules: CreditRules): DutyCredit {
+    const dutyRigHours =
+      rules.duty_rig_ratio !== null ? duty.duty_hours / rules.duty_rig_ratio : 0;
+
+    const components: Array<[CreditComponent, number]> = [
+      ['BLOCK', duty.block_hours],
+      [
+        'SCHEDULED_BLOCK',
+        rules.pay_scheduled_block ? duty.scheduled_block_hours ?? 0 : 0,
+      ],
+      ['MINIMUM_DAY', rules.minimum_day_hours],
+      ['DUTY_RIG', dutyRigHours],
+    ];
+    const [winner, creditHours] = this.greatest(components);
+
+    return {
+      ...duty,
+      minimum_day_hours: rules.minimum_day_hours,
+      duty_rig_hours: dutyRigHours,
+      credit_hours: creditHours,
+      winning_component: winner,
+    };
+  }
+
+  /**
+   * Greater of the trip's duty period credit and the trip rig on TAFB; a trip
+   * with no credited duty (e.g. deadhead only) earns no trip rig
+   */
+  private creditTrip(trip: Trip, duties: DutyCredit[], rules: CreditRules): TripCredit {
+    const dutyCreditHours = duties.reduce((sum, duty) => sum + duty.credit_hours, 0);
+    const tripRigHours =
+      rules.trip_rig_ratio !== null && duties.length > 0
+        ? trip.tafb_hours / rules.trip_rig_ratio
+        : 0;
+    const [winner, creditHours] = this.greatest([
+      ['DUTY_PERIODS', dutyCreditHours],
+      ['TRIP_RIG', tripRigHours],
+    ]);
+
+    return {
+      report_utc: trip.report_utc,
+      release_utc: trip.release_utc,
+      tafb_hours: trip.tafb_hours,
+      duty_credit_hours: dutyCreditHours,
+      trip_rig_hours: tripRigHours,
+      credit_hours: creditHours,
+      winning_component: winner,
+      duties,
+    };
+  }
+
+  private greatest(components: Array<[CreditComponent, number]>): [CreditComponent, number] {
+    return components.reduce((best, component) => (component[1] > best[1] ? component : best));
+  }
+}
@@ -0,0 +1,476 @@
+/**
+ * Flight Attendant Duty Validator
+ * Validates flight attendant assignments against 14 CFR 121.467 duty period
+ * limits, staffing-based extensions and rest requirements
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { getCrewMember, getDutyTimeRecords, getTrainingRecords } from '../db/queries.js';
+import type {
+  DutyAssignment,
+  FADutyCompliance,
+  FALegalityResult,
+  FARestCompliance,
+  QualificationIssue,
+  RuleViolation,
+  SequenceValidation,
+} from '../types/qualifications.js';
+import { QualificationStatusService } from '../services/qualification-status.js';
+import { logger } from '../utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface FARules {
+  regulation: string;
+  duty_period_limits: {
+    scheduled_maximum_hours: number;
+    staffing_extensions: Array<{ additional_flight_attendants: number; maximum_hours: number }>;
+  };
+  rest_requirements: {
+    after_scheduled_duty: { minimum_hours: number };
+    reduced_rest: {
+      minimum_hours: number;
+      compensatory_rest_hours: number;
+      compensatory_rest_within_hours: number;
+    };
+    after_extended_duty: {
+      minimum_hours: number;
+      applies_above_duty_hours: number;
+      reduced_minimum_hours: number;
+      compensatory_rest_hours: number;
+      compensatory_rest_within_hours: number;
+    };
+    weekly_rest: { minimum_hours: number; period_days: number };
+  };
+}
+
+/**
+ * Rest owed after a duty and how far it may be reduced
+ */
+interface RestRule {
+  after_extended_duty: boolean;
+  minimum_hours: number;
+  reduced_minimum_hours: number;
+  compensatory_rest_hours: number;
+  compensatory_rest_within_hours: number;
+}
+
+interface DutyWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * A check's compliance summary with each violation tagged by its rule
+ */
+interface CheckResult<T> {
+  compliance: T;
+  violated: RuleViolation[];
+}
+
+/**
+ * Load flight attendant duty and rest rules
+ */
+function loadFARules(): FARules {
+  try {
+    const rulesPath = join(__dirname, '../rules/faa-part121-fa-rules.json');
+    return JSON.parse(readFileSync(rulesPath, 'utf-8'));
+  } catch (error) {
+    logger.error('Failed to load flight attendant duty rules:', error);
+    throw new Error('Could not load Part 121 flight attendant regulations');
+  }
+}
+
+export class FADutyValidator {
+  private rules: FARules;
+  private statusService: QualificationStatusService;
+
+  constructor() {
+    this.rules = loadFARules();
+    this.statusService = new QualificationStatusService();
+  }
+
+  /**
+   * Validate if a flight attendant can legally be assigned to a duty
+   * Projected duties are treated as already flown, as in the pilot validator
+   */
+  async validateAssignment(
+    crewId: string,
+    proposedDuty: DutyAssignment,
+    projectedDuties: DutyAssignment[] = []
+  ): Promise<FALegalityResult> {
+    logger.info('Validating flight attendant assignment legality', { crewId, proposedDuty });
+
+    const crewMember = await getCrewMember(crewId);
+    if (!crewMember) {
+      throw new Error(`Crew member not found: ${crewId}`);
+    }
+
+    const proposed = this.toWindow(proposedDuty);
+
+    // Duty history covering the weekly rest window
+    const weeklyDays = this.rules.rest_requirements.weekly_rest.period_days;
+    const lookbackDate = new Date(proposed.start.getTime() - (weeklyDays + 1) * 24 * HOUR_MS);
+    const recorded = await getDutyTimeRecords(crewMember.crew_id, lookbackDate, proposed.start);
+    const history: DutyWindow[] = [
+      ...recorded.map((d) => ({
+        start: new Date(d.duty_start_utc),
+        end: d.duty_end_utc
+          ? new Date(d.duty_end_utc)
+          : new Date(new Date(d.duty_start_utc).getTime() + d.duty_time_minutes * 60 * 1000),
+      })),
+      ...projectedDuties.map((d) => this.toWindow(d)),
+    ]
+      .filter((d) => d.start < proposed.start)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    const qualificationIssues = await this.checkTraining(crewMember.crew_id, proposed.start);
+    const dutyCheck = this.checkDutyPeriod(proposed, proposedDuty.additional_flight_attendants || 0);
+    const restCheck = this.checkRest(proposed, history);
+    const dutyCompliance = dutyCheck.compliance;
+    const restCompliance = restCheck.compliance;
+
+    const violated: RuleViolation[] = [
+      ...qualificationIssues.map((issue) => ({
+        rule: issue.type,
+        regulation: 'Qualification',
+        description: issue.description,
+      })),
+      ...dutyCheck.violated,
+      ...restCheck.violated,
+    ];
+
+    return {
+      is_legal: violated.length === 0,
+      crew_status: qualificationIssues.length === 0 ? 'QUALIFIED' : 'NOT_QUALIFIED',
+      qualification_issues: qualificationIssues,
+      duty_compliance: dutyCompliance,
+      rest_compliance: restCompliance,
+      violated_rules: violated,
+      recommendations: this.generateRecommendations(dutyCompliance, restCompliance),
+    };
+  }
+
+  /**
+   * Validate a sequence of duties (e.g. a multi-day trip) in order, each seeing
+   * the earlier duties as projected history
+   */
+  async validateSequence(
+    crewId: string,
+    duties: DutyAssignment[]
+  ): Promise<SequenceValidation<FALegalityResult>> {
+    const ordered = [...duties].sort(
+      (a, b) => new Date(a.duty_start_utc).getTime() - new Date(b.duty_start_utc).getTime()
+    );
+
+    const results: FALegalityResult[] = [];
+    let firstFailure: SequenceValidation['first_failure'] = null;
+
+    for (let i = 0; i < ordered.length; i++) {
+      const result = await this.validateAssignment(crewId, ordered[i], ordered.slice(0, i));
+      results.push(result);
+
+      if (!result.is_legal && !firstFailure) {
+        firstFailure = {
+          index: i,
+          duty_start_utc: new Date(ordered[i].duty_start_utc),
+          violated_rules: result.violated_rules,
+        };
+      }
+    }
+
+    return {
+      is_legal: firstFailure === null,
+      results,
+      first_failure: firstFailure,
+    };
+  }
+
+  /**
+   * Re-check the latest duty on record up to the check date, as the compliance
+   * monitor does for pilots; null when no duty falls in the weekly rest window.
+   * Staffing is not recorded, so the duty is held to the scheduled limit
+   */
+  async checkRecordedCompliance(crewId: string, checkDate: Date): Promise<FALegalityResult | null> {
+    const weeklyDays = this.rules.rest_requirements.weekly_rest.period_days;
+    const lookbackDate = new Date(checkDate.getTime() - weeklyDays * 24 * HOUR_MS);
+    const recorded = await getDutyTimeRecords(crewId, lookbackDate, checkDate);
+    const latest = recorded[recorded.length - 1];
+    if (!latest) {
+      return null;
+    }
+
+    const dutyStart = new Date(latest.duty_start_utc);
+    return this.validateAssignment(crewId, {
+      aircraft_type: '',
+      duty_start_utc: dutyStart,
+      duty_end_utc: latest.duty_end_utc
+        ? new Date(latest.duty_end_utc)
+        : new Date(dutyStart.getTime() + latest.duty_time_minutes * 60 * 1000),
+      flight_time_minutes: latest.flight_time_minutes,
+      number_of_segments: latest.flight_segments,
+    });
+  }
+
+  /**
+   * Check the scheduled duty period against the limit for the staffing level
+   */
+  private checkDutyPeriod(
+    proposed: DutyWindow,
+    additionalFlightAttendants: number
+  ): CheckResult<FADutyCompliance> {
+    const limits = this.rules.duty_period_limits;
+    const extension = [...limits.staffing_extensions]
+      .reverse()
+      .find((e) => additionalFlightAttendants >= e.additional_flight_attendants);
+    const maxDutyHours = extension ? extension.maximum_hours : limits.scheduled_maximum_hours;
+    const dutyHours = (proposed.end.getTime() - proposed.start.getTime()) / HOUR_MS;
+
+    const violated: RuleViolation[] = [];
+    if (dutyHours > maxDutyHours) {
+      violated.push(
+        this.violation(
+          'FA_DUTY_PERIOD',
+          `Scheduled duty (${dutyHours.toFixed(1)} hours) exceeds limit (${maxDutyHours} hours) with ${additionalFlightAttendants} additional flight attendant(s)`
+        )
+      );
+    }
+
+    return {
+      compliance: {
+        is_compliant: violated.length === 0,
+        scheduled_duty_hours: dutyHours,
+        max_duty_hours: maxDutyHours,
+        additional_flight_attendants: additionalFlightAttendants,
+        violations: violated.map((v) => v.description),
+      },
+      violated,
+    };
+  }
+
+  /**
+   * Check rest before the duty (10 hours, reducible to 9; 12 after an
+   * extended duty, reducible to 10) and 24 hours free of duty in the last 7 days
+   */
+  private checkRest(proposed: DutyWindow, history: DutyWindow[]): CheckResult<FARestCompliance> {
+    const rest = this.rules.rest_requirements;
+    const violated: RuleViolation[] = [];
+
+    const previous = history[history.length - 1];
+    const beforePrevious = history[history.length - 2];
+    const restBeforeHours = previous
+      ? (proposed.start.getTime() - previous.end.getTime()) / HOUR_MS
+      : null;
+
+    const required = this.restAfter(previous);
+    const minimumRest = required.minimum_hours;
+
+    let reducedRest = false;
+    let compensatoryRestDueBy: Date | null = null;
+
+    if (restBeforeHours !== null) {
+      // A reduced rest must be followed by a compensatory rest starting within 24 hours
+      const previousRestHours = beforePrevious
+        ? (previous.start.getTime() - beforePrevious.end.getTime()) / HOUR_MS
+        : null;
+      const previousRestRule = this.restAfter(beforePrevious);
+      const previousWasReduced =
+        previousRestHours !== null && previousRestHours < previousRestRule.minimum_hours;
+
+      if (restBeforeHours < required.reduced_minimum_hours) {
+        violated.push(
+          this.violation(
+            'FA_MINIMUM_REST',
+            `Rest before duty (${restBeforeHours.toFixed(1)} hours) is less than the required ${describeRequiredRest(required)}`
+          )
+        );
+      } else if (
+        previousWasReduced &&
+        restBeforeHours < Math.max(minimumRest, previousRestRule.compensatory_rest_hours)
+      ) {
+        violated.push(
+          this.violation(
+            'FA_MINIMUM_REST',
+            `Rest before duty (${restBeforeHours.toFixed(1)} hours) follows a reduced rest; ${previousRestRule.compensatory_rest_hours} hours compensatory rest required`
+          )
+        );
+      } else if (restBeforeHours < minimumRest) {
+        reducedRest = true;
+        compensatoryRestDueBy = new Date(
+          previous.end.getTime() + required.compensatory_rest_within_hours * HOUR_MS
+        );
+        if (proposed.end > compensatoryRestDueBy) {
+          violated.push(
+            this.violation(
+              'FA_MINIMUM_REST',
+              `Duty ends after ${compensatoryRestDueBy.toISOString()}, when the compensatory rest for the reduced rest must begin`
+            )
+          );
+        }
+      }
+    }
+
+    // Weekly rest window ends with the proposed duty
+    const windowStart = new Date(
+      proposed.end.getTime() - rest.weekly_rest.period_days * 24 * HOUR_MS
+    );
+    const longestRestHours = this.longestRest([...history, proposed], windowStart, proposed.end);
+    if (longestRestHours < rest.weekly_rest.minimum_hours) {
+      violated.push(
+        this.violation(
+          'FA_WEEKLY_REST',
+          `No ${rest.weekly_rest.minimum_hours}-hour rest in the ${rest.weekly_rest.period_days} days ending with this duty (longest ${longestRestHours.toFixed(1)} hours)`
+        )
+      );
+    }
+
+    return {
+      compliance: {
+        is_compliant: violated.length === 0,
+        rest_before_hours: restBeforeHours,
+        minimum_rest_required: minimumRest,
+        reduced_rest: reducedRest,
+        compensatory_rest_hours: reducedRest ? required.compensatory_rest_hours : null,
+        compensatory_rest_due_by: compensatoryRestDueBy,
+        longest_rest_7_days_hours: longestRestHours,
+        weekly_rest_required_hours: rest.weekly_rest.minimum_hours,
+        violations: violated.map((v) => v.description),
+      },
+      violated,
+    };
+  }
+
+  /**
+   * Flight attendant recurrent training must not be overdue on the duty date
+   */
+  private async checkTraining(crewId: string, dutyDate: Date): Promise<QualificationIssue[]> {
+    const training = this.statusService.applyToTraining(await getTrainingRecords(crewId), dutyDate);
+    const overdue = training.filter((t) => t.status === 'OVERDUE');
+
+    return overdue.length > 0
+      ? [
+          {
+            type: 'TRAINING',
+            description: `${overdue.length} overdue training item(s)`,
+            severity: 'HIGH',
+            resolution: 'Complete overdue training',
+          },
+        ]
+      : [];
+  }
+
+  /**
+   * A Part 121 flight attendant rule violation
+   */
+  private violation(rule: string, description: string): RuleViolation {
+    return { rule, regulation: this.rules.regulation, description };
+  }
+
+  /**
+   * Generate scheduling recommendations
+   */
+  private generateRecommendations(
+    dutyCompliance: FADutyCompliance,
+    restCompliance: FARestCompliance
+  ): string[] {
+    const recommendations: string[] = [];
+
+    if (!dutyCompliance.is_compliant) {
+      const next = this.rules.duty_period_limits.staffing_extensions.find(
+        (e) => e.maximum_hours >= dutyCompliance.scheduled_duty_hours
+      );
+      recommendations.push(
+        next
+          ? `Staff ${next.additional_flight_attendants} flight attendant(s) above the minimum to allow up to ${next.maximum_hours} hours`
+          : 'Split the duty period - it exceeds the longest staffing extension'
+      );
+    }
+    if (restCompliance.reduced_rest && restCompliance.compensatory_rest_due_by) {
+      recommendations.push(
+        `Reduced rest: schedule ${restCompliance.compensatory_rest_hours} hours rest beginning by ${restCompliance.compensatory_rest_due_by.toISOString()}`
+      );
+    }
+    if (restCompliance.longest_rest_7_days_hours < restCompliance.weekly_rest_required_hours) {
+      recommendations.push(
+        `Schedule ${restCompliance.weekly_rest_required_hours} consecutive hours free of duty`
+      );
+    }
+    if (recommendations.length === 0) {
+      recommendations.push('Flight attendant is legal for this assignment');
+    }
+
+    return recommendations;
+  }
+
+  /**
+   * Rest owed after a duty: the extended-duty rest when it ran past 14 hours
+   */
+  private restAfter(duty: DutyWindow | undefined): RestRule {
+    const rest = this.rules.rest_requirements;
+    const dutyHours = duty ? (duty.end.getTime() - duty.start.getTime()) / HOUR_MS : 0;
+
+    if (dutyHours > rest.after_extended_duty.applies_above_duty_hours) {
+      return {
+        after_extended_duty: true,
+        minimum_hours: rest.after_extended_duty.minimum_hours,
+        reduced_minimum_hours: rest.after_extended_duty.reduced_minimum_hours,
+        compensatory_rest_hours: rest.after_extended_duty.compensatory_rest_hours,
+        compensatory_rest_within_hours: rest.after_extended_duty.compensatory_rest_within_hours,
+      };
+    }
+    return {
+      after_extended_duty: false,
+      minimum_hours: rest.after_scheduled_duty.minimum_hours,
+      reduced_minimum_hours: rest.reduced_rest.minimum_hours,
+      compensatory_rest_hours: rest.reduced_rest.compensatory_rest_hours,
+      compensatory_rest_within_hours: rest.reduced_rest.compensatory_rest_within_hours,
+    };
+  }
+
+  /**
+   * Longest gap between duties inside a window
+   */
+  private longestRest(duties: DutyWindow[], windowStart: Date, windowEnd: Date): number {
+    let longest = 0;
+    let cursor = windowStart;
+    for (const duty of [...duties].sort((a, b) => a.start.getTime() - b.start.getTime())) {
+      if (duty.end <= windowStart || duty.start >= windowEnd) continue;
+      if (duty.start > cursor) {
+        longest = Math.max(longest, (duty.start.getTime() - cursor.getTime()) / HOUR_MS);
+      }
+      if (duty.end > cursor) {
+        cursor = duty.end;
+      }
+    }
+    if (cursor < windowEnd) {
+      longest = Math.max(longest, (windowEnd.getTime() - cursor.getTime()) / HOUR_MS);
+    }
+
+    return longest;
+  }
+
+  /**
+   * Start and end of a duty assignment, estimating the end from flight time
+   */
+  private toWindow(duty: DutyAssignment): DutyWindow {
+    const start = new Date(duty.duty_start_utc);
+    const end = duty.duty_end_utc
+      ? new Date(duty.duty_end_utc)
+      : new Date(start.getTime() + (duty.flight_time_minutes || 360) * 60 * 1000);
+    return { start, end };
+  }
+}
+
+/**
+ * Describe the rest a flight attendant needed
+ */
+function describeRequiredRest(rule: RestRule): string {
+  return rule.after_extended_duty
+    ? `${rule.minimum_hours} hours after an extended duty (${rule.reduced_minimum_hours} when reduced)`
+    : `${rule.minimum_hours} hours (${rule.reduced_minimum_hours} when reduced)`;
+}
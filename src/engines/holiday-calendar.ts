@@ -0,0 +1,140 @@
+/**
+ * Holiday Calendar
+ * Resolves recognized holidays per union contract, dating each holiday in any
+ * calendar year from its fixed-date or nth-weekday rule
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { DateTime } from 'luxon';
+import { logger } from '../utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export interface Holiday {
+  name: string;
+  date: string; // YYYY-MM-DD
+}
+
+/**
+ * A fixed month and day, or the nth weekday of the month (ISO weekday,
+ * occurrence -1 for the last), moved by offset_days
+ */
+interface HolidayRule {
+  month: number;
+  day?: number;
+  weekday?: number;
+  occurrence?: number;
+  offset_days?: number;
+}
+
+interface HolidayCalendarRules {
+  unions: Record<string, { description: string; holidays: string[] }>;
+  holiday_rules: { rules: Record<string, HolidayRule> };
+}
+
+/**
+ * Load holiday calendar from JSON file
+ * Every holiday a union recognizes must have a rule, so no year is left undated
+ */
+function loadHolidayCalendar(): HolidayCalendarRules {
+  let calendar: HolidayCalendarRules;
+  try {
+    const calendarPath = join(__dirname, '../rules/holiday-calendar.json');
+    calendar = JSON.parse(readFileSync(calendarPath, 'utf-8'));
+  } catch (error) {
+    logger.error('Failed to load holiday calendar:', error);
+    throw new Error('Could not load holiday calendar');
+  }
+
+  for (const [unionCode, union] of Object.entries(calendar.unions)) {
+    for (const name of union.holidays) {
+      const rule = calendar.holiday_rules.rules[name];
+      if (!rule || (rule.day === undefined && (!rule.weekday || !rule.occurrence))) {
+        throw new Error(`Holiday calendar has no date rule for ${name} (${unionCode})`);
+      }
+    }
+  }
+
+  return calendar;
+}
+
+export class HolidayCalendar {
+  private calendar: HolidayCalendarRules;
+
+  constructor() {
+    this.calendar = loadHolidayCalendar();
+  }
+
+  /**
+   * Get the holidays a union recognizes in a given year
+   */
+  getHolidays(unionCode: string | undefined, year: number): Holiday[] {
+    const union =
+      (unionCode && this.calendar.unions[unionCode]) || this.calendar.unions.DEFAULT;
+
+    if (!union) {
+      logger.warn(`No holiday calendar for ${unionCode || 'DEFAULT'}`);
+      return [];
+    }
+
+    return union.holidays.map((name) => ({
+      name,
+      date: this.dateInYear(this.calendar.holiday_rules.rules[name], year),
+    }));
+  }
+
+  /**
+   * Minutes of a period that fall on recognized holidays (in the given timezone)
+   */
+  getHolidayMinutes(
+    start: Date,
+    end: Date,
+    unionCode: string | undefined,
+    timezone: string
+  ): number {
+    const periodStart = DateTime.fromJSDate(start, { zone: timezone });
+    const periodEnd = DateTime.fromJSDate(end, { zone: timezone });
+    if (periodEnd <= periodStart) {
+      return 0;
+    }
+
+    let minutes = 0;
+    for (let year = periodStart.year; year <= periodEnd.year; year++) {
+      for (const holiday of this.getHolidays(unionCode, year)) {
+        const dayStart = DateTime.fromISO(holiday.date, { zone: timezone });
+        const dayEnd = dayStart.plus({ days: 1 });
+
+        const overlapStart = dayStart > periodStart ? dayStart : periodStart;
+        const overlapEnd = dayEnd < periodEnd ? dayEnd : periodEnd;
+        if (overlapEnd > overlapStart) {
+          minutes += overlapEnd.diff(overlapStart, 'minutes').minutes;
+        }
+      }
+    }
+
+    return minutes;
+  }
+
+  /**
+   * Date a holiday rule falls on in a year
+   */
+  private dateInYear(rule: HolidayRule, year: number): string {
+    let date: DateTime;
+    if (rule.day !== undefined) {
+      date = DateTime.utc(year, rule.month, rule.day);
+    } else if (rule.occurrence! > 0) {
+      const first = DateTime.utc(year, rule.month, 1);
+      date = first.plus({
+        days: ((rule.weekday! - first.weekday + 7) % 7) + (rule.occurrence! - 1) * 7,
+      });
+    } else {
+      const last = DateTime.utc(year, rule.month, 1).endOf('month').startOf('day');
+      date = last.minus({ days: (last.weekday - rule.weekday! + 7) % 7 });
+    }
+
+    return date.plus({ days: rule.offset_days || 0 }).toISODate()!;
+  }
+}
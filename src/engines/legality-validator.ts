@@ -1,11 +1,9 @@
 /**
- * FAA Part 117 Legality Validator
- * Validates crew assignments against FAA Part 117 regulations
+ * Pilot Legality Validator
+ * Validates crew assignments against the duty and rest rules of the crew
+ * member's regulatory rule pack (FAA Part 117, EASA FTL)
  */
 
-import { readFileSync } from 'fs';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
 import { DateTime } from 'luxon';
 import { differenceInHours } from 'date-fns';
 import {
@@ -15,6 +13,9 @@ import {
   getAircraftTypeRatings,
   getMedicalCertificate,
   getTrainingRecords,
+  getRecentLandings,
+  getFDPExtensions,
+  getReserveAssignments,
 } from '../db/queries.js';
 import type {
   LegalityResult,
@@ -22,47 +23,55 @@ import type {
   RestCompliance,
   DutyLimits,
   DutyAssignment,
+  FDPCompliance,
+  AcclimationState,
+  ReserveCallout,
+  ReserveCompliance,
+  RestOpportunity,
+  RuleViolation,
+  SequenceValidation,
 } from '../types/qualifications.js';
+import type { CrewMember } from '../types/crew.js';
+import type { RulePack } from '../types/rule-pack.js';
+import { countLocalNights, crossesWOCL, woclOverlapMinutes } from '../utils/date-utils.js';
+import {
+  getAirport,
+  resolveAirportTimezone,
+  longitudeDifference,
+} from '../utils/airports.js';
+import { MedicalValidityEngine } from './medical-validity.js';
+import { ReserveLimitsEngine } from './reserve-limits.js';
+import { resolveRulePack } from './rule-packs/index.js';
+import { QualificationStatusService } from '../services/qualification-status.js';
 import { logger } from '../utils/logger.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-interface FAARule {
-  flight_time_limits: any;
-  fdp_limits: any;
-  rest_requirements: any;
-  wocl: any;
-  consecutive_nighttime_operations: any;
-}
-
-/**
- * Load FAA Part 117 rules
- */
-function loadFAARules(): FAARule {
-  try {
-    const rulesPath = join(__dirname, '../rules/faa-part117-rules.json');
-    const rulesContent = readFileSync(rulesPath, 'utf-8');
-    return JSON.parse(rulesContent);
-  } catch (error) {
-    logger.error('Failed to load FAA Part 117 rules:', error);
-    throw new Error('Could not load FAA Part 117 regulations');
-  }
-}
+// Takeoff and landing recency in type (14 CFR 121.439 / 61.57)
+const LANDING_RECENCY = {
+  required_landings: 3,
+  window_days: 90,
+  regulation: '14 CFR 121.439',
+};
 
 export class LegalityValidator {
-  private faaRules: FAARule;
+  private statusService: QualificationStatusService;
+  private medicalEngine: MedicalValidityEngine;
+  private reserveEngine: ReserveLimitsEngine;
 
   constructor() {
-    this.faaRules = loadFAARules();
+    this.statusService = new QualificationStatusService();
+    this.medicalEngine = new MedicalValidityEngine();
+    this.reserveEngine = new ReserveLimitsEngine();
   }
 
   /**
    * Validate if a crew member can legally be assigned to a duty
+   * Projected duties (e.g. earlier duties of the same trip) are treated as
+   * history in addition to the recorded duty time records
    */
   async validateAssignment(
     crewId: string,
-    proposedDuty: DutyAssignment
+    proposedDuty: DutyAssignment,
+    projectedDuties: DutyAssignment[] = []
   ): Promise<LegalityResult> {
     logger.info('Validating crew assignment legality', { crewId, proposedDuty });
 
@@ -72,68 +81,187 @@ export class LegalityValidator {
       throw new Error(`Crew member not found: ${crewId}`);
     }
 
+    // Flight attendants follow Part 121 Subpart Q (FADutyValidator), not a pilot rule pack
+    if (crewMember.crew_type === 'FLIGHT_ATTENDANT') {
+      throw new Error(
+        `Crew member ${crewId} is a flight attendant; validate with the Part 121 flight attendant rules`
+      );
+    }
+
     // Use the UUID crew_id from the crew member object for all subsequent queries
     const uuid = crewMember.crew_id;
+    const rulePack = resolveRulePack(crewMember);
 
     // 2. Check qualifications for aircraft type
     const qualificationIssues = await this.checkQualifications(
-      uuid,
-      proposedDuty.aircraft_type
+      crewMember,
+      proposedDuty.aircraft_type,
+      new Date(proposedDuty.duty_start_utc)
     );
 
     // 3. Get duty history for compliance checks
-    const lookbackDate = new Date(proposedDuty.duty_start_utc);
+    // An in-progress duty being re-checked is already recorded, so only earlier
+    // duties count as history
+    const proposedStart = new Date(proposedDuty.duty_start_utc);
+    const lookbackDate = new Date(proposedStart);
     lookbackDate.setDate(lookbackDate.getDate() - 365);
-    const dutyHistory = await getDutyTimeRecords(
+    const recordedDuties = await getDutyTimeRecords(uuid, lookbackDate, proposedStart);
+    const recordedHistory = recordedDuties.filter(
+      (d) => new Date(d.duty_start_utc) < proposedStart
+    );
+    const recordedDuty = recordedDuties.find(
+      (d) => new Date(d.duty_start_utc).getTime() === proposedStart.getTime()
+    );
+
+    // A duty called out from reserve, given with the duty or recorded for the crew member
+    const reserve = proposedDuty.reserve ?? (await this.findReserve(uuid, proposedStart));
+    const reserveRule = reserve ? rulePack.getReserveRule(reserve.reserve_type) : null;
+    const reserveReductionHours =
+      reserve && reserveRule
+        ? this.reserveEngine.getFDPReductionHours(reserveRule, reserve, proposedStart)
+        : 0;
+
+    // Airport reserve counts as FDP, so the FDP begins when the reserve does
+    const fdpDuty: DutyAssignment =
+      reserve && reserveRule?.counts_as_fdp
+        ? { ...proposedDuty, duty_start_utc: new Date(reserve.reserve_start_utc) }
+        : proposedDuty;
+
+    // Unforeseen-circumstance extensions recorded in the last 168 hours
+    const extensions = await getFDPExtensions(
       uuid,
-      lookbackDate,
-      new Date(proposedDuty.duty_start_utc)
+      new Date(proposedStart.getTime() - 168 * 60 * 60 * 1000),
+      proposedStart
     );
+    const extensionMinutesFor = (dutyId: string | undefined, start: Date): number =>
+      extensions
+        .filter((e) =>
+          e.duty_id && dutyId
+            ? e.duty_id === dutyId
+            : new Date(e.duty_start_utc).getTime() === new Date(start).getTime()
+        )
+        .reduce((sum, e) => sum + e.extension_minutes, 0);
+
+    // Local nights and WOCL are evaluated at the crew base
+    const baseTimezone = resolveAirportTimezone(crewMember.base_airport);
+    const projectedHistory = projectedDuties
+      .filter((d) => new Date(d.duty_start_utc) < proposedStart)
+      .map((d) => this.toProjectedRecord(d, baseTimezone));
+    const dutyHistory = [
+      ...recordedHistory.map((d) => ({
+        ...d,
+        unforeseen_extension_minutes: extensionMinutesFor(d.duty_id, d.duty_start_utc),
+      })),
+      ...projectedHistory,
+    ];
+
+    // An extension already recorded for this duty applies when it is re-checked
+    const unforeseenExtensionMinutes =
+      proposedDuty.unforeseen_extension_minutes ?? extensionMinutesFor(undefined, proposedStart);
+    const reportableThreshold = rulePack.getUnforeseenExtension().report_required_above_minutes;
+    const priorReportableExtensions = dutyHistory.filter(
+      (d) =>
+        (d.unforeseen_extension_minutes || 0) > reportableThreshold &&
+        new Date(d.duty_start_utc).getTime() >= proposedStart.getTime() - 168 * 60 * 60 * 1000
+    ).length;
 
     // 4. Check rest compliance
     const restCompliance = this.checkRestCompliance(
+      rulePack,
       dutyHistory,
-      proposedDuty,
-      crewMember.base_airport
+      fdpDuty,
+      crewMember.base_airport,
+      baseTimezone
+    );
+
+    // 5. Check FDP limits in acclimated local time
+    const restOpportunities =
+      proposedDuty.rest_opportunities ?? recordedDuty?.rest_opportunities ?? [];
+    const acclimation = this.determineAcclimation(
+      rulePack,
+      crewMember.base_airport,
+      fdpDuty,
+      dutyHistory
+    );
+    const fdpCompliance = this.checkFDPLimits(
+      rulePack,
+      fdpDuty,
+      acclimation,
+      projectedDuties,
+      unforeseenExtensionMinutes,
+      priorReportableExtensions,
+      restOpportunities,
+      baseTimezone,
+      reserveReductionHours
     );
 
-    // 5. Check FDP limits
-    const fdpCompliance = this.checkFDPLimits(proposedDuty);
+    // Reserve period, combined reserve-plus-FDP and callout notice limits
+    const reserveCompliance =
+      reserve && reserveRule
+        ? this.reserveEngine.check(
+            reserveRule,
+            reserve,
+            proposedStart,
+            proposedDuty.duty_end_utc
+              ? new Date(proposedDuty.duty_end_utc)
+              : new Date(
+                  proposedStart.getTime() + (proposedDuty.flight_time_minutes || 360) * 60 * 1000
+                ),
+            fdpCompliance.max_fdp_hours + reserveReductionHours,
+            (proposedDuty.augmenting_pilots || 0) > 0
+          )
+        : null;
 
     // 6. Check rolling flight time limits
     const dutyLimits = await this.checkFlightTimeLimits(
+      rulePack,
       uuid,
-      proposedDuty,
-      dutyHistory
+      fdpDuty,
+      dutyHistory,
+      projectedHistory,
+      baseTimezone,
+      restOpportunities,
+      recordedDuty?.duty_id
     );
 
     // 7. Determine overall legality
-    const is_legal =
-      qualificationIssues.length === 0 &&
-      restCompliance.is_compliant &&
-      fdpCompliance.is_compliant &&
-      dutyLimits.rolling_28_day_hours <= dutyLimits.rolling_28_day_limit &&
-      dutyLimits.rolling_365_day_hours <= dutyLimits.rolling_365_day_limit;
+    const violatedRules = this.collectViolatedRules(
+      rulePack,
+      qualificationIssues,
+      restCompliance,
+      fdpCompliance,
+      reserveCompliance,
+      dutyLimits,
+      proposedDuty
+    );
+    const is_legal = violatedRules.length === 0;
 
     // 8. Generate recommendations
     const recommendations = this.generateRecommendations(
+      rulePack,
       qualificationIssues,
       restCompliance,
       fdpCompliance,
+      reserveCompliance,
       dutyLimits
     );
 
     const result: LegalityResult = {
       is_legal,
+      rule_pack: rulePack.id,
       crew_status: qualificationIssues.length === 0 ? 'QUALIFIED' : 'NOT_QUALIFIED',
       qualification_issues: qualificationIssues,
       rest_compliance: restCompliance,
+      fdp_compliance: fdpCompliance,
+      reserve_compliance: reserveCompliance,
       duty_limits: dutyLimits,
+      violated_rules: violatedRules,
       recommendations,
     };
 
     logger.info('Legality validation complete', {
       crewId,
+      rule_pack: rulePack.id,
       is_legal,
       issues: qualificationIssues.length,
     });
@@ -141,19 +269,222 @@ export class LegalityValidator {
     return result;
   }
 
+  /**
+   * Validate a sequence of duties (e.g. a multi-day trip) in order
+   * Each duty sees the earlier duties as projected history, so rolling hours,
+   * rest and consecutive nights carry forward through the sequence
+   */
+  async validateSequence(
+    crewId: string,
+    duties: DutyAssignment[]
+  ): Promise<SequenceValidation> {
+    const ordered = [...duties].sort(
+      (a, b) => new Date(a.duty_start_utc).getTime() - new Date(b.duty_start_utc).getTime()
+    );
+
+    const results: LegalityResult[] = [];
+    let firstFailure: SequenceValidation['first_failure'] = null;
+
+    for (let i = 0; i < ordered.length; i++) {
+      const result = await this.validateAssignment(crewId, ordered[i], ordered.slice(0, i));
+      results.push(result);
+
+      if (!result.is_legal && !firstFailure) {
+        firstFailure = {
+          index: i,
+          duty_start_utc: new Date(ordered[i].duty_start_utc),
+          violated_rules: result.violated_rules,
+        };
+      }
+    }
+
+    return {
+      is_legal: firstFailure === null,
+      results,
+      first_failure: firstFailure,
+    };
+  }
+
+  /**
+   * Reserve period the crew member was on when the duty reported, unless released
+   */
+  private async findReserve(crewId: string, reportUtc: Date): Promise<ReserveCallout | null> {
+    const reserves = await getReserveAssignments(crewId, reportUtc, reportUtc);
+    return reserves.find((r) => r.status !== 'RELEASED') ?? null;
+  }
+
+  /**
+   * Convert a proposed duty into a history record for simulation
+   */
+  private toProjectedRecord(duty: DutyAssignment, timezone: string): any {
+    const start = new Date(duty.duty_start_utc);
+    const end = duty.duty_end_utc
+      ? new Date(duty.duty_end_utc)
+      : new Date(start.getTime() + (duty.flight_time_minutes || 360) * 60 * 1000);
+
+    return {
+      duty_date: new Date(DateTime.fromJSDate(start, { zone: timezone }).toISODate()!),
+      duty_start_utc: start,
+      duty_end_utc: end,
+      flight_time_minutes: duty.flight_time_minutes || 0,
+      duty_time_minutes: Math.round((end.getTime() - start.getTime()) / (1000 * 60)),
+      wocl_crossing: crossesWOCL(start, end, timezone),
+      unforeseen_extension_minutes: duty.unforeseen_extension_minutes || 0,
+      rest_opportunities: duty.rest_opportunities || [],
+    };
+  }
+
+  /**
+   * List the rules a validation failed, with the rule pack's references
+   */
+  private collectViolatedRules(
+    rulePack: RulePack,
+    qualificationIssues: QualificationIssue[],
+    restCompliance: RestCompliance,
+    fdpCompliance: FDPCompliance,
+    reserveCompliance: ReserveCompliance | null,
+    dutyLimits: DutyLimits,
+    proposedDuty: DutyAssignment
+  ): RuleViolation[] {
+    const violated: RuleViolation[] = qualificationIssues.map((issue) => ({
+      rule: issue.type,
+      regulation: 'Qualification',
+      description: issue.description,
+    }));
+
+    if (restCompliance.hours_since_rest < restCompliance.minimum_rest_required) {
+      violated.push({
+        rule: 'MINIMUM_REST',
+        regulation: rulePack.cite('MINIMUM_REST'),
+        description: `${restCompliance.hours_since_rest.toFixed(1)} hours rest before duty (requires ${restCompliance.minimum_rest_required})`,
+      });
+    }
+    if (
+      restCompliance.longest_qualifying_rest_hours <
+      restCompliance.weekly_rest_required_hours
+    ) {
+      violated.push({
+        rule: 'WEEKLY_REST',
+        regulation: rulePack.cite('WEEKLY_REST'),
+        description: `No ${restCompliance.weekly_rest_required_hours}-hour rest including ${this.describeLocalNights(rulePack)} in the prior ${rulePack.getWeeklyRest().period_hours} hours`,
+      });
+    }
+
+    if (!fdpCompliance.is_compliant) {
+      violated.push({
+        rule: 'FDP_LIMIT',
+        regulation: rulePack.cite(
+          fdpCompliance.unforeseen_extension_hours > 0 ||
+            (proposedDuty.unforeseen_extension_minutes || 0) > 0
+            ? 'FDP_UNFORESEEN_EXTENSION'
+            : (proposedDuty.fdp_extension_hours || 0) > 0
+            ? 'FDP_EXTENSION'
+            : fdpCompliance.split_duty_credit_hours > 0
+            ? 'FDP_SPLIT_DUTY'
+            : (proposedDuty.augmenting_pilots || 0) > 0
+              ? 'FDP_LIMIT_AUGMENTED'
+              : 'FDP_LIMIT'
+        ),
+        description: fdpCompliance.violations.join('; '),
+      });
+    }
+
+    if (reserveCompliance && !reserveCompliance.is_compliant) {
+      violated.push({
+        rule: 'RESERVE',
+        regulation: rulePack.cite('RESERVE'),
+        description: reserveCompliance.violations.join('; '),
+      });
+    }
+
+    if (dutyLimits.rolling_28_day_hours > dutyLimits.rolling_28_day_limit) {
+      violated.push({
+        rule: 'FLIGHT_TIME_28_DAY',
+        regulation: rulePack.cite('FLIGHT_TIME_28_DAY'),
+        description: `${dutyLimits.rolling_28_day_hours.toFixed(1)} flight hours in 28 days (limit ${dutyLimits.rolling_28_day_limit})`,
+      });
+    }
+    if (dutyLimits.rolling_365_day_hours > dutyLimits.rolling_365_day_limit) {
+      violated.push({
+        rule: 'FLIGHT_TIME_365_DAY',
+        regulation: rulePack.cite('FLIGHT_TIME_365_DAY'),
+        description: `${dutyLimits.rolling_365_day_hours.toFixed(1)} flight hours in 365 days (limit ${dutyLimits.rolling_365_day_limit})`,
+      });
+    }
+    if (
+      dutyLimits.calendar_year_limit !== null &&
+      dutyLimits.calendar_year_hours > dutyLimits.calendar_year_limit
+    ) {
+      violated.push({
+        rule: 'FLIGHT_TIME_CALENDAR_YEAR',
+        regulation: rulePack.cite('FLIGHT_TIME_CALENDAR_YEAR'),
+        description: `${dutyLimits.calendar_year_hours.toFixed(1)} flight hours in the calendar year (limit ${dutyLimits.calendar_year_limit})`,
+      });
+    }
+
+    const cumulativeLabel = dutyLimits.cumulative_basis === 'DUTY' ? 'duty' : 'FDP';
+    if (dutyLimits.rolling_168_hour_fdp_hours > dutyLimits.rolling_168_hour_fdp_limit) {
+      violated.push({
+        rule: 'CUMULATIVE_FDP_168_HOUR',
+        regulation: rulePack.cite('CUMULATIVE_FDP_168_HOUR'),
+        description: `${dutyLimits.rolling_168_hour_fdp_hours.toFixed(1)} ${cumulativeLabel} hours in 168 consecutive hours (limit ${dutyLimits.rolling_168_hour_fdp_limit})`,
+      });
+    }
+    if (
+      dutyLimits.rolling_336_hour_fdp_limit !== null &&
+      dutyLimits.rolling_336_hour_fdp_hours > dutyLimits.rolling_336_hour_fdp_limit
+    ) {
+      violated.push({
+        rule: 'CUMULATIVE_DUTY_336_HOUR',
+        regulation: rulePack.cite('CUMULATIVE_DUTY_336_HOUR'),
+        description: `${dutyLimits.rolling_336_hour_fdp_hours.toFixed(1)} ${cumulativeLabel} hours in 336 consecutive hours (limit ${dutyLimits.rolling_336_hour_fdp_limit})`,
+      });
+    }
+    if (dutyLimits.rolling_672_hour_fdp_hours > dutyLimits.rolling_672_hour_fdp_limit) {
+      violated.push({
+        rule: 'CUMULATIVE_FDP_672_HOUR',
+        regulation: rulePack.cite('CUMULATIVE_FDP_672_HOUR'),
+        description: `${dutyLimits.rolling_672_hour_fdp_hours.toFixed(1)} ${cumulativeLabel} hours in 672 consecutive hours (limit ${dutyLimits.rolling_672_hour_fdp_limit})`,
+      });
+    }
+
+    const nightRule = rulePack.getConsecutiveNights();
+    const nightLimit = dutyLimits.consecutive_nights_limit;
+    if (nightRule && nightLimit !== null && dutyLimits.consecutive_nights > nightLimit) {
+      const restOpportunityNote =
+        nightLimit < (nightRule.extended_maximum_consecutive ?? nightLimit)
+          ? `; ${nightRule.extended_maximum_consecutive} if each includes a ${nightRule.extended_rest_opportunity_hours}-hour rest opportunity`
+          : '';
+      violated.push({
+        rule: 'CONSECUTIVE_NIGHTS',
+        regulation: rulePack.cite('CONSECUTIVE_NIGHTS'),
+        description: `${dutyLimits.consecutive_nights} consecutive nighttime duties (limit ${nightLimit} without ${nightRule.required_rest_after} hours rest${restOpportunityNote})`,
+      });
+    }
+
+    return violated;
+  }
+
   /**
    * Check crew qualifications for aircraft type
+   * Statuses are derived as of the duty date, so a qualification expiring
+   * before a future duty is caught
    */
   private async checkQualifications(
-    crewId: string,
-    aircraftType: string
+    crewMember: CrewMember,
+    aircraftType: string,
+    dutyDate: Date
   ): Promise<QualificationIssue[]> {
     const issues: QualificationIssue[] = [];
+    const crewId = crewMember.crew_id;
 
-    // Check aircraft type rating
-    const typeRatings = await getAircraftTypeRatings(crewId);
+    // Check aircraft type rating (still usable inside the alert window)
+    const typeRatings = this.statusService.applyToRatings(
+      await getAircraftTypeRatings(crewId),
+      dutyDate
+    );
     const hasRating = typeRatings.some(
-      (r) => r.aircraft_type === aircraftType && r.currency_status === 'CURRENT'
+      (r) => r.aircraft_type === aircraftType && r.currency_status !== 'EXPIRED'
     );
 
     if (!hasRating) {
@@ -165,21 +496,59 @@ export class LegalityValidator {
       });
     }
 
-    // Check medical certificate
+    // Check takeoff/landing recency in type
+    if (hasRating && crewMember.crew_type === 'PILOT') {
+      const recencyIssue = await this.checkLandingRecency(crewId, aircraftType, dutyDate);
+      if (recencyIssue) {
+        issues.push(recencyIssue);
+      }
+    }
+
+    // Check medical privileges held on the duty date for the crew position
     const medical = await getMedicalCertificate(crewId);
-    if (!medical || medical.status !== 'VALID') {
+    const requiredClass = this.medicalEngine.getRequiredClass(crewMember.position);
+    if (!medical) {
       issues.push({
         type: 'MEDICAL_CERTIFICATE',
-        description: medical
-          ? `Medical certificate ${medical.status.toLowerCase()}`
-          : 'No medical certificate on file',
+        description: 'No medical certificate on file',
         severity: 'CRITICAL',
         resolution: 'Obtain or renew medical certificate',
       });
+    } else {
+      const privileges = this.medicalEngine.getPrivileges(
+        medical,
+        crewMember.date_of_birth,
+        dutyDate
+      );
+      if (!privileges.privilege_class) {
+        issues.push({
+          type: 'MEDICAL_CERTIFICATE',
+          description: 'Medical certificate expired',
+          severity: 'CRITICAL',
+          resolution: 'Obtain or renew medical certificate',
+        });
+      } else if (
+        requiredClass &&
+        !this.medicalEngine.meetsClass(privileges.privilege_class, requiredClass)
+      ) {
+        const label = (c: string) => c.toLowerCase().replace('_', '-');
+        const lapsed = privileges.privileges_valid_until[requiredClass];
+        issues.push({
+          type: 'MEDICAL_PRIVILEGES',
+          description: lapsed
+            ? `${label(requiredClass)} medical privileges lapsed ${lapsed.toISOString().split('T')[0]}; now holds ${label(privileges.privilege_class)} privileges`
+            : `${crewMember.position} requires ${label(requiredClass)} medical privileges; certificate is ${label(medical.class)}`,
+          severity: 'CRITICAL',
+          resolution: `Obtain a ${label(requiredClass)} medical certificate`,
+        });
+      }
     }
 
     // Check recurrent training
-    const training = await getTrainingRecords(crewId);
+    const training = this.statusService.applyToTraining(
+      await getTrainingRecords(crewId),
+      dutyDate
+    );
     const overdueTraining = training.filter((t) => t.status === 'OVERDUE');
     if (overdueTraining.length > 0) {
       issues.push({
@@ -194,14 +563,57 @@ export class LegalityValidator {
   }
 
   /**
-   * Check rest compliance (30-hour lookback)
+   * Check three takeoffs and landings in type as pilot flying within the preceding 90 days
+   * Recency lapses 90 days after the third most recent landing
+   */
+  private async checkLandingRecency(
+    crewId: string,
+    aircraftType: string,
+    dutyDate: Date
+  ): Promise<QualificationIssue | null> {
+    const landings = await getRecentLandings(
+      crewId,
+      aircraftType,
+      dutyDate,
+      LANDING_RECENCY.required_landings
+    );
+
+    const qualifyingLanding = landings[LANDING_RECENCY.required_landings - 1];
+    const lapsedOn = qualifyingLanding
+      ? new Date(
+          new Date(qualifyingLanding).getTime() +
+            LANDING_RECENCY.window_days * 24 * 60 * 60 * 1000
+        )
+      : undefined;
+
+    if (lapsedOn && lapsedOn > dutyDate) {
+      return null;
+    }
+
+    return {
+      type: 'LANDING_RECENCY',
+      description: lapsedOn
+        ? `${aircraftType} landing recency lapsed ${lapsedOn.toISOString().split('T')[0]} (${LANDING_RECENCY.regulation})`
+        : `Fewer than ${LANDING_RECENCY.required_landings} recorded landings in ${aircraftType} as pilot flying (${LANDING_RECENCY.regulation})`,
+      severity: 'CRITICAL',
+      resolution: `Complete ${LANDING_RECENCY.required_landings} takeoffs and landings in ${aircraftType} in a qualified simulator or under check airman supervision`,
+      lapsed_on: lapsedOn,
+    };
+  }
+
+  /**
+   * Check rest compliance (minimum rest and the rule pack's weekly rest)
    */
   private checkRestCompliance(
+    rulePack: RulePack,
     dutyHistory: any[],
     proposedDuty: DutyAssignment,
-    _baseAirport: string
+    baseAirport: string,
+    timezone: string
   ): RestCompliance {
     const violations: string[] = [];
+    const weeklyRest = rulePack.getWeeklyRest();
+    const weeklyRestRequired = weeklyRest.minimum_hours;
 
     // Find most recent duty before proposed duty
     const sortedHistory = [...dutyHistory].sort(
@@ -214,6 +626,9 @@ export class LegalityValidator {
         is_compliant: true,
         hours_since_rest: Infinity,
         minimum_rest_required: 0,
+        longest_qualifying_rest_hours: 168,
+        weekly_rest_required_hours: weeklyRestRequired,
+        extension_rest_hours: 0,
         violations: [],
       };
     }
@@ -225,6 +640,9 @@ export class LegalityValidator {
         is_compliant: false,
         hours_since_rest: 0,
         minimum_rest_required: 10,
+        longest_qualifying_rest_hours: 0,
+        weekly_rest_required_hours: weeklyRestRequired,
+        extension_rest_hours: 0,
         violations,
       };
     }
@@ -235,53 +653,227 @@ export class LegalityValidator {
       lastDuty.duty_end_utc
     );
 
-    // Determine minimum rest required based on previous FDP length
-    const previousFDPHours = lastDuty.duty_time_minutes / 60;
-    let minimumRestRequired = 10; // Default
+    // Determine minimum rest required based on previous duty length and where it is
+    // taken, lengthened by any unforeseen-circumstance extension of that duty
+    const extensionRestHours = (lastDuty.unforeseen_extension_minutes || 0) / 60;
+    const minimumRestRequired =
+      rulePack.getMinimumRestHours(
+        lastDuty.duty_time_minutes / 60,
+        (proposedDuty.report_airport || baseAirport) === baseAirport
+      ) + extensionRestHours;
 
-    if (previousFDPHours <= 9) {
-      minimumRestRequired = 10;
-    } else if (previousFDPHours <= 13) {
-      minimumRestRequired = 11;
-    } else {
-      minimumRestRequired = 12;
-    }
+    const minimumRestMet = hoursSinceRest >= minimumRestRequired;
 
-    // Check compliance
-    const is_compliant = hoursSinceRest >= minimumRestRequired;
-
-    if (!is_compliant) {
+    if (!minimumRestMet) {
       violations.push(
         `Only ${hoursSinceRest.toFixed(1)} hours rest since last duty (requires ${minimumRestRequired} hours)`
       );
     }
 
-    // Check for 30-hour rest in last 168 hours
-    // TODO: Implement 30-hour rest check logic
-    // This requires tracking actual rest periods between duties
-    // const sevenDaysAgo = new Date(proposedDuty.duty_start_utc);
-    // sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    // Would need to verify 30 consecutive hours of rest in previous 7 days
+    // Check for the weekly rest, including its local nights, in the period before duty
+    const longestQualifyingRest = this.findLongestQualifyingRest(
+      rulePack,
+      dutyHistory,
+      new Date(proposedDuty.duty_start_utc),
+      timezone
+    );
+    const weeklyRestMet = longestQualifyingRest >= weeklyRestRequired;
+
+    if (!weeklyRestMet) {
+      violations.push(
+        `No ${weeklyRestRequired}-hour rest including ${this.describeLocalNights(rulePack)} in the ${weeklyRest.period_hours} hours before duty (longest qualifying rest ${longestQualifyingRest.toFixed(1)} hours)`
+      );
+    }
 
     return {
-      is_compliant,
+      is_compliant: minimumRestMet && weeklyRestMet,
       hours_since_rest: hoursSinceRest,
       minimum_rest_required: minimumRestRequired,
+      longest_qualifying_rest_hours: longestQualifyingRest,
+      weekly_rest_required_hours: weeklyRestRequired,
+      extension_rest_hours: extensionRestHours,
       violations,
     };
   }
 
   /**
-   * Check FDP limits based on report time and number of segments
+   * Rebuild rest periods from duty history and return the longest one inside the
+   * weekly rest period before the proposed duty that includes the required local
+   * nights at the crew base
    */
-  private checkFDPLimits(proposedDuty: DutyAssignment): {
-    is_compliant: boolean;
-    max_fdp_hours: number;
-    proposed_fdp_hours: number;
-    violations: string[];
-  } {
-    const violations: string[] = [];
+  private findLongestQualifyingRest(
+    rulePack: RulePack,
+    dutyHistory: any[],
+    proposedStart: Date,
+    timezone: string
+  ): number {
+    const weeklyRest = rulePack.getWeeklyRest();
+    const localNight = weeklyRest.local_night;
+    const windowStart = new Date(
+      proposedStart.getTime() - weeklyRest.period_hours * 60 * 60 * 1000
+    );
+    const restPeriods = this.buildRestPeriods(dutyHistory, windowStart, proposedStart);
+
+    let longest = 0;
+    for (const rest of restPeriods) {
+      const hours = (rest.end.getTime() - rest.start.getTime()) / (1000 * 60 * 60);
+      if (hours <= longest) continue;
+
+      const localNights = countLocalNights(
+        rest.start,
+        rest.end,
+        timezone,
+        localNight.start_time,
+        localNight.end_time,
+        localNight.minimum_hours
+      );
+
+      if (localNights >= weeklyRest.local_nights_required) {
+        longest = hours;
+      }
+    }
 
+    return longest;
+  }
+
+  /**
+   * Describe the local nights a weekly rest must include
+   */
+  private describeLocalNights(rulePack: RulePack): string {
+    const required = rulePack.getWeeklyRest().local_nights_required;
+    return required === 1 ? 'a local night' : `${required} local nights`;
+  }
+
+  /**
+   * Rebuild rest periods (gaps between duties) inside a time window
+   */
+  private buildRestPeriods(
+    dutyHistory: any[],
+    windowStart: Date,
+    windowEnd: Date
+  ): Array<{ start: Date; end: Date }> {
+    const duties = dutyHistory
+      .map((d) => {
+        const start: Date = d.duty_start_utc;
+        const end: Date =
+          d.duty_end_utc ||
+          new Date(start.getTime() + (d.duty_time_minutes || 0) * 60 * 1000);
+        return { start, end };
+      })
+      .filter((d) => d.end > windowStart && d.start < windowEnd)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    // Gaps between duties are rest periods, clipped to the window
+    const restPeriods: Array<{ start: Date; end: Date }> = [];
+    let cursor = windowStart;
+    for (const duty of duties) {
+      if (duty.start > cursor) {
+        restPeriods.push({ start: cursor, end: duty.start });
+      }
+      if (duty.end > cursor) {
+        cursor = duty.end;
+      }
+    }
+    if (cursor < windowEnd) {
+      restPeriods.push({ start: cursor, end: windowEnd });
+    }
+
+    return restPeriods;
+  }
+
+  /**
+   * Determine whether the crew member is acclimated at the report station
+   * A crew member outside the rule pack's theater (60 degrees of longitude under
+   * Part 117) stays acclimated to base until they have spent enough time or rest
+   * in the new theater
+   */
+  private determineAcclimation(
+    rulePack: RulePack,
+    baseAirport: string,
+    proposedDuty: DutyAssignment,
+    dutyHistory: any[]
+  ): AcclimationState {
+    const rules = rulePack.getAcclimation();
+    const reportAirport = proposedDuty.report_airport || baseAirport;
+    const baseStation = getAirport(baseAirport);
+    const reportStation = getAirport(reportAirport);
+
+    if (!baseStation || !reportStation) {
+      // Without coordinates the crew is treated as acclimated at base
+      return {
+        is_acclimated: true,
+        acclimated_airport: baseAirport,
+        longitude_difference_degrees: null,
+      };
+    }
+
+    const difference = longitudeDifference(baseStation, reportStation);
+    if (difference <= rules.theater_longitude_degrees) {
+      return {
+        is_acclimated: true,
+        acclimated_airport: reportAirport,
+        longitude_difference_degrees: difference,
+      };
+    }
+
+    // Outside the home theater: acclimated only after enough time or rest there
+    const dutyStart = new Date(proposedDuty.duty_start_utc);
+    const arrival = proposedDuty.theater_arrival_utc
+      ? new Date(proposedDuty.theater_arrival_utc)
+      : null;
+
+    if (arrival && arrival < dutyStart) {
+      const hoursInTheater = (dutyStart.getTime() - arrival.getTime()) / (1000 * 60 * 60);
+      const longestRest = Math.max(
+        0,
+        ...this.buildRestPeriods(dutyHistory, arrival, dutyStart).map(
+          (r) => (r.end.getTime() - r.start.getTime()) / (1000 * 60 * 60)
+        )
+      );
+
+      if (
+        hoursInTheater >= rules.hours_in_theater ||
+        longestRest >= rules.consecutive_rest_hours
+      ) {
+        return {
+          is_acclimated: true,
+          acclimated_airport: reportAirport,
+          longitude_difference_degrees: difference,
+          hours_in_theater: hoursInTheater,
+        };
+      }
+
+      return {
+        is_acclimated: false,
+        acclimated_airport: baseAirport,
+        longitude_difference_degrees: difference,
+        hours_in_theater: hoursInTheater,
+      };
+    }
+
+    return {
+      is_acclimated: false,
+      acclimated_airport: baseAirport,
+      longitude_difference_degrees: difference,
+    };
+  }
+
+  /**
+   * Check FDP limits based on report time, number of segments and augmentation,
+   * with any extension or split-duty credit the rule pack allows, less any
+   * reduction for time on standby before report
+   */
+  private checkFDPLimits(
+    rulePack: RulePack,
+    proposedDuty: DutyAssignment,
+    acclimation: AcclimationState,
+    projectedDuties: DutyAssignment[],
+    unforeseenExtensionMinutes: number,
+    priorReportableExtensions: number,
+    restOpportunities: RestOpportunity[],
+    baseTimezone: string,
+    reserveReductionHours: number
+  ): FDPCompliance {
     // Calculate proposed FDP length
     const dutyStart = DateTime.fromJSDate(new Date(proposedDuty.duty_start_utc));
     const dutyEnd = proposedDuty.duty_end_utc
@@ -290,86 +882,355 @@ export class LegalityValidator {
 
     const proposedFDPHours = dutyEnd.diff(dutyStart, 'hours').hours;
 
-    // Get report time in home base local time (simplified - using UTC hour)
-    const reportHour = dutyStart.hour;
+    // FDP tables are keyed on report time where the crew member is acclimated
+    const timezone = resolveAirportTimezone(acclimation.acclimated_airport);
+    const reportLocal = dutyStart.setZone(timezone);
+    const reportLocalTime = reportLocal.toFormat('HHmm');
 
-    // Determine segment bucket
     const segments = proposedDuty.number_of_segments || 1;
-    let segmentBucket: string;
-    if (segments <= 2) segmentBucket = '2_segments';
-    else if (segments === 3) segmentBucket = '3_segments';
-    else if (segments === 4) segmentBucket = '4_segments';
-    else if (segments === 5) segmentBucket = '5_segments';
-    else if (segments === 6) segmentBucket = '6_segments';
-    else segmentBucket = '7_plus_segments';
-
-    // Get time bucket
-    let timeBucket: string;
-    if (reportHour >= 0 && reportHour <= 4) timeBucket = '0000-0459';
-    else if (reportHour === 5) timeBucket = '0500-0559';
-    else if (reportHour === 6) timeBucket = '0600-0659';
-    else if (reportHour >= 7 && reportHour <= 12) timeBucket = '0700-1259';
-    else if (reportHour >= 13 && reportHour <= 16) timeBucket = '1300-1659';
-    else if (reportHour >= 17 && reportHour <= 21) timeBucket = '1700-2159';
-    else if (reportHour === 22) timeBucket = '2200-2259';
-    else timeBucket = '2300-2359';
-
-    // Get max FDP from rules
-    const maxFDPHours =
-      this.faaRules.fdp_limits.unaugmented.limits_by_segments_and_start_time[
-        segmentBucket
-      ]?.[timeBucket] || 9.0;
+    const augmentingPilots = proposedDuty.augmenting_pilots || 0;
+
+    // Extensions already planned in the 7 days before this duty
+    const weekStart = dutyStart.minus({ days: 7 }).toJSDate();
+    const extensionsInPrior7Days = projectedDuties.filter((d) => {
+      const start = new Date(d.duty_start_utc);
+      return (
+        (d.fdp_extension_hours || 0) > 0 && start >= weekStart && start < dutyStart.toJSDate()
+      );
+    }).length;
+
+    const limit = rulePack.getFDPLimit({
+      report_hour: reportLocal.hour,
+      report_minute: reportLocal.minute,
+      segments,
+      acclimation,
+      augmenting_pilots: augmentingPilots,
+      rest_facility_class: proposedDuty.rest_facility_class,
+      wocl_encroachment_minutes: woclOverlapMinutes(
+        dutyStart.toJSDate(),
+        dutyEnd.toJSDate(),
+        timezone
+      ),
+      extension_hours: proposedDuty.fdp_extension_hours,
+      extensions_in_prior_7_days: extensionsInPrior7Days,
+      split_duty_break_hours: proposedDuty.split_duty_break_hours,
+      rest_opportunities: this.clipToDuty(
+        restOpportunities,
+        dutyStart.toJSDate(),
+        dutyEnd.toJSDate()
+      ),
+      home_base_timezone: baseTimezone,
+    });
 
-    const is_compliant = proposedFDPHours <= maxFDPHours;
+    const violations = [...limit.violations];
 
-    if (!is_compliant) {
+    // Unforeseen-circumstance extension applied once the duty has begun
+    let unforeseenExtensionHours = 0;
+    if (unforeseenExtensionMinutes > 0 && limit.max_fdp_hours > 0) {
+      const extensionViolations = this.checkUnforeseenExtension(
+        rulePack,
+        unforeseenExtensionMinutes,
+        augmentingPilots,
+        priorReportableExtensions
+      );
+      if (extensionViolations.length === 0) {
+        unforeseenExtensionHours = unforeseenExtensionMinutes / 60;
+      }
+      violations.push(...extensionViolations);
+    }
+
+    // Time on standby before report shortens the FDP where the rule pack says so
+    const maxFDPHours =
+      limit.max_fdp_hours > 0
+        ? limit.max_fdp_hours - reserveReductionHours + unforeseenExtensionHours
+        : 0;
+    const withinLimit = maxFDPHours > 0 && proposedFDPHours <= maxFDPHours;
+
+    if (limit.max_fdp_hours > 0 && !withinLimit) {
       violations.push(
-        `Proposed FDP (${proposedFDPHours.toFixed(1)} hours) exceeds limit (${maxFDPHours} hours) for ${segments} segments starting at ${reportHour}:00`
+        augmentingPilots > 0
+          ? `Proposed FDP (${proposedFDPHours.toFixed(1)} hours) exceeds augmented limit (${maxFDPHours} hours) for ${2 + Math.min(augmentingPilots, 2)} pilots with ${proposedDuty.rest_facility_class} rest facility reporting at ${reportLocalTime} local (${timezone})`
+          : `Proposed FDP (${proposedFDPHours.toFixed(1)} hours) exceeds limit (${maxFDPHours} hours) for ${segments} segments reporting at ${reportLocalTime} local (${timezone})${acclimation.is_acclimated ? '' : ', not acclimated'}`
       );
     }
 
     return {
-      is_compliant,
+      is_compliant: withinLimit && violations.length === 0,
       max_fdp_hours: maxFDPHours,
       proposed_fdp_hours: proposedFDPHours,
+      fdp_table: limit.fdp_table,
+      report_time_bucket: limit.report_time_bucket,
+      report_local_time: reportLocalTime,
+      timezone,
+      acclimation,
+      extension_hours: limit.extension_hours,
+      split_duty_credit_hours: limit.split_duty_credit_hours,
+      split_duty_rest: limit.split_duty_rest,
+      unforeseen_extension_hours: unforeseenExtensionHours,
       violations,
     };
   }
 
   /**
-   * Check rolling flight time limits (100/1000 hours)
+   * Limit rest opportunities to the part taken within the duty
+   */
+  private clipToDuty(
+    restOpportunities: RestOpportunity[],
+    dutyStart: Date,
+    dutyEnd: Date
+  ): RestOpportunity[] {
+    return restOpportunities
+      .map((opportunity) => ({
+        ...opportunity,
+        start_utc: new Date(
+          Math.max(new Date(opportunity.start_utc).getTime(), dutyStart.getTime())
+        ),
+        end_utc: new Date(Math.min(new Date(opportunity.end_utc).getTime(), dutyEnd.getTime())),
+      }))
+      .filter((opportunity) => opportunity.end_utc > opportunity.start_utc);
+  }
+
+  /**
+   * Check an unforeseen-circumstance extension against the rule pack's maximum
+   * and how often a reportable extension may recur
+   */
+  private checkUnforeseenExtension(
+    rulePack: RulePack,
+    extensionMinutes: number,
+    augmentingPilots: number,
+    priorReportableExtensions: number
+  ): string[] {
+    const rule = rulePack.getUnforeseenExtension();
+    const violations: string[] = [];
+    const maximumHours = augmentingPilots > 0 ? rule.maximum_hours_augmented : rule.maximum_hours;
+
+    if (extensionMinutes > maximumHours * 60) {
+      violations.push(
+        `Unforeseen-circumstance extension of ${extensionMinutes} minutes exceeds the ${maximumHours}-hour maximum`
+      );
+    }
+
+    if (
+      rule.reportable_per_168_hours !== null &&
+      extensionMinutes > rule.report_required_above_minutes &&
+      priorReportableExtensions >= rule.reportable_per_168_hours
+    ) {
+      violations.push(
+        `FDP already extended more than ${rule.report_required_above_minutes} minutes ${priorReportableExtensions} time(s) in the prior 168 hours (maximum ${rule.reportable_per_168_hours})`
+      );
+    }
+
+    return violations;
+  }
+
+  /**
+   * Check rolling flight time limits (28-day and 365-day) and cumulative FDP
+   * limits (168 and 672 consecutive hours ending when the proposed duty ends)
+   * A recorded duty being re-checked is left out of the totals, since the
+   * proposed duty is added on top
    */
   private async checkFlightTimeLimits(
+    rulePack: RulePack,
     crewId: string,
     proposedDuty: DutyAssignment,
-    dutyHistory: any[]
+    dutyHistory: any[],
+    projectedHistory: any[],
+    timezone: string,
+    restOpportunities: RestOpportunity[],
+    recordedDutyId?: string
   ): Promise<DutyLimits> {
     const dutyDate = new Date(proposedDuty.duty_start_utc);
+    const proposedEnd = proposedDuty.duty_end_utc
+      ? new Date(proposedDuty.duty_end_utc)
+      : new Date(dutyDate.getTime() + (proposedDuty.flight_time_minutes || 360) * 60 * 1000);
 
     // Calculate rolling hours
-    const rolling = await calculateRollingHours(crewId, dutyDate);
-
-    // Add proposed flight time
+    const rolling = await calculateRollingHours(crewId, dutyDate, proposedEnd, recordedDutyId);
+
+    // Add projected duties inside each window and the proposed flight time
+    const projectedHours = (days: number): number => {
+      const windowStart = dutyDate.getTime() - days * 24 * 60 * 60 * 1000;
+      return projectedHistory
+        .filter((d) => d.duty_start_utc.getTime() >= windowStart)
+        .reduce((sum, d) => sum + d.flight_time_minutes, 0) / 60;
+    };
     const proposedFlightHours = (proposedDuty.flight_time_minutes || 0) / 60;
-    const projected28Day = rolling.rolling_28_day + proposedFlightHours;
-    const projected365Day = rolling.rolling_365_day + proposedFlightHours;
+    const projected28Day = rolling.rolling_28_day + projectedHours(28) + proposedFlightHours;
+    const projected365Day = rolling.rolling_365_day + projectedHours(365) + proposedFlightHours;
+
+    // Projected and proposed FDP hours inside each consecutive-hour window
+    const projectedFDPHours = (hours: number): number => {
+      const windowStart = proposedEnd.getTime() - hours * 60 * 60 * 1000;
+      return [
+        ...projectedHistory,
+        { duty_start_utc: dutyDate, duty_end_utc: proposedEnd },
+      ].reduce((sum, d) => {
+        const overlap =
+          Math.min(d.duty_end_utc.getTime(), proposedEnd.getTime()) -
+          Math.max(d.duty_start_utc.getTime(), windowStart);
+        return sum + Math.max(0, overlap) / (1000 * 60 * 60);
+      }, 0);
+    };
+    // EASA windows count all duty time; projected duties count in full either way
+    const cumulativeFDPLimits = rulePack.getCumulativeFDPLimits();
+    const countsDuty = cumulativeFDPLimits.basis === 'DUTY';
+    const projected168HourFDP =
+      (countsDuty ? rolling.duty_168_hour : rolling.fdp_168_hour) + projectedFDPHours(168);
+    const projected336HourFDP = rolling.duty_336_hour + projectedFDPHours(336);
+    const projected672HourFDP =
+      (countsDuty ? rolling.duty_672_hour : rolling.fdp_672_hour) + projectedFDPHours(672);
+
+    // Flight time since the start of the duty's calendar year at base
+    const yearStart = DateTime.fromJSDate(dutyDate, { zone: timezone }).startOf('year').toJSDate();
+    const projectedCalendarYear =
+      rolling.calendar_year +
+      projectedHistory
+        .filter((d) => d.duty_start_utc >= yearStart)
+        .reduce((sum, d) => sum + d.flight_time_minutes, 0) / 60 +
+      proposedFlightHours;
 
     // Get limits from rules
-    const limit28Day = this.faaRules.flight_time_limits.rolling_28_day.limit_hours;
-    const limit365Day = this.faaRules.flight_time_limits.rolling_365_day.limit_hours;
+    const flightTimeLimits = rulePack.getFlightTimeLimits();
+    const limit28Day = flightTimeLimits.rolling_28_day_hours;
+    const limit365Day = flightTimeLimits.rolling_365_day_hours;
 
     // Count consecutive duty days
     const consecutiveDays = this.countConsecutiveDutyDays(dutyHistory, dutyDate);
 
+    // Count consecutive nighttime duties, including the proposed one
+    const nightSeries = this.consecutiveNightSeries(
+      dutyHistory,
+      dutyDate,
+      proposedEnd,
+      timezone,
+      rulePack
+    );
+    const consecutiveNights = nightSeries ? nightSeries.length + 1 : 0;
+
     return {
       rolling_28_day_hours: projected28Day,
       rolling_28_day_limit: limit28Day,
       rolling_365_day_hours: projected365Day,
       rolling_365_day_limit: limit365Day,
+      calendar_year_hours: projectedCalendarYear,
+      calendar_year_limit: flightTimeLimits.calendar_year_hours,
+      cumulative_basis: cumulativeFDPLimits.basis,
+      rolling_168_hour_fdp_hours: projected168HourFDP,
+      rolling_168_hour_fdp_limit: cumulativeFDPLimits.rolling_168_hour_hours,
+      rolling_336_hour_fdp_hours: projected336HourFDP,
+      rolling_336_hour_fdp_limit: cumulativeFDPLimits.rolling_336_hour_hours,
+      rolling_672_hour_fdp_hours: projected672HourFDP,
+      rolling_672_hour_fdp_limit: cumulativeFDPLimits.rolling_672_hour_hours,
       consecutive_duty_days: consecutiveDays,
+      consecutive_nights: consecutiveNights,
+      consecutive_nights_limit: this.consecutiveNightsLimit(
+        rulePack,
+        nightSeries || [],
+        {
+          duty_start_utc: dutyDate,
+          duty_end_utc: proposedEnd,
+          rest_opportunities: restOpportunities,
+        }
+      ),
     };
   }
 
+  /**
+   * Consecutive-night limit for a series ending with the proposed duty; the
+   * extended limit applies only when every night duty in the series, proposed
+   * included, had a rest opportunity of the qualifying length
+   */
+  private consecutiveNightsLimit(
+    rulePack: RulePack,
+    nightSeries: any[],
+    proposed: { duty_start_utc: Date; duty_end_utc: Date; rest_opportunities: RestOpportunity[] }
+  ): number | null {
+    const rule = rulePack.getConsecutiveNights();
+    if (!rule) {
+      return null;
+    }
+    if (
+      rule.extended_maximum_consecutive === null ||
+      rule.extended_rest_opportunity_hours === null
+    ) {
+      return rule.maximum_consecutive;
+    }
+
+    const minimumMs = rule.extended_rest_opportunity_hours * 60 * 60 * 1000;
+    const hasQualifyingRest = (duty: any): boolean => {
+      const start = new Date(duty.duty_start_utc);
+      const end = duty.duty_end_utc
+        ? new Date(duty.duty_end_utc)
+        : new Date(start.getTime() + (duty.duty_time_minutes || 0) * 60 * 1000);
+      return this.clipToDuty(duty.rest_opportunities || [], start, end).some(
+        (opportunity) =>
+          opportunity.end_utc.getTime() - opportunity.start_utc.getTime() >= minimumMs
+      );
+    };
+
+    return [proposed, ...nightSeries].every(hasQualifyingRest)
+      ? rule.extended_maximum_consecutive
+      : rule.maximum_consecutive;
+  }
+
+  /**
+   * Count consecutive nighttime operations ending with the given duty
+   * A duty is a night operation when it overlaps the WOCL in local time; the
+   * series is broken by a non-night duty or by the required rest (the weekly
+   * rest when the rule pack has no night limit). Returns 0 when the duty itself
+   * does not touch the WOCL.
+   */
+  countConsecutiveNights(
+    dutyHistory: any[],
+    dutyStart: Date,
+    dutyEnd: Date,
+    timezone: string,
+    rulePack: RulePack
+  ): number {
+    const series = this.consecutiveNightSeries(dutyHistory, dutyStart, dutyEnd, timezone, rulePack);
+    return series ? series.length + 1 : 0;
+  }
+
+  /**
+   * Earlier night duties in the series ending with the given duty, latest
+   * first; null when the duty itself does not touch the WOCL
+   */
+  private consecutiveNightSeries(
+    dutyHistory: any[],
+    dutyStart: Date,
+    dutyEnd: Date,
+    timezone: string,
+    rulePack: RulePack
+  ): any[] | null {
+    if (woclOverlapMinutes(dutyStart, dutyEnd, timezone) === 0) {
+      return null;
+    }
+
+    const requiredRestHours =
+      rulePack.getConsecutiveNights()?.required_rest_after ??
+      rulePack.getWeeklyRest().minimum_hours;
+    const sortedHistory = [...dutyHistory]
+      .filter((d) => d.duty_start_utc < dutyStart)
+      .sort((a, b) => b.duty_start_utc.getTime() - a.duty_start_utc.getTime());
+
+    const series: any[] = [];
+    let nextStart = dutyStart;
+    for (const duty of sortedHistory) {
+      const dutyEnd: Date =
+        duty.duty_end_utc ||
+        new Date(duty.duty_start_utc.getTime() + (duty.duty_time_minutes || 0) * 60 * 1000);
+      const restHours = (nextStart.getTime() - dutyEnd.getTime()) / (1000 * 60 * 60);
+
+      if (!duty.wocl_crossing || restHours >= requiredRestHours) {
+        break;
+      }
+      series.push(duty);
+      nextStart = duty.duty_start_utc;
+    }
+
+    return series;
+  }
+
   /**
    * Count consecutive duty days
    */
@@ -404,9 +1265,11 @@ export class LegalityValidator {
    * Generate recommendations based on validation results
    */
   private generateRecommendations(
+    rulePack: RulePack,
     qualificationIssues: QualificationIssue[],
     restCompliance: RestCompliance,
-    fdpCompliance: any,
+    fdpCompliance: FDPCompliance,
+    reserveCompliance: ReserveCompliance | null,
     dutyLimits: DutyLimits
   ): string[] {
     const recommendations: string[] = [];
@@ -419,7 +1282,7 @@ export class LegalityValidator {
     }
 
     // Rest recommendations
-    if (!restCompliance.is_compliant) {
+    if (restCompliance.hours_since_rest < restCompliance.minimum_rest_required) {
       const additionalRestNeeded =
         restCompliance.minimum_rest_required - restCompliance.hours_since_rest;
       recommendations.push(
@@ -427,12 +1290,38 @@ export class LegalityValidator {
       );
     }
 
+    if (
+      restCompliance.longest_qualifying_rest_hours <
+      restCompliance.weekly_rest_required_hours
+    ) {
+      recommendations.push(
+        `Schedule ${restCompliance.weekly_rest_required_hours} consecutive hours of rest including ${this.describeLocalNights(rulePack)} before assignment`
+      );
+    }
+
     // FDP recommendations
-    if (!fdpCompliance.is_compliant) {
+    if (!fdpCompliance.is_compliant && fdpCompliance.max_fdp_hours === 0) {
+      recommendations.push('Specify the onboard rest facility class for the augmented crew');
+    } else if (!fdpCompliance.is_compliant) {
       const excessHours = fdpCompliance.proposed_fdp_hours - fdpCompliance.max_fdp_hours;
       recommendations.push(
         `Reduce FDP by ${excessHours.toFixed(1)} hours or adjust start time`
       );
+      for (const rest of fdpCompliance.split_duty_rest.filter((r) => r.reason)) {
+        recommendations.push(`Split-duty rest not credited: ${rest.reason}`);
+      }
+    }
+
+    if (reserveCompliance && !reserveCompliance.is_compliant) {
+      recommendations.push(
+        'Move the report time within the reserve limits or call out a different reservist'
+      );
+    }
+
+    if (fdpCompliance.unforeseen_extension_hours > 0) {
+      recommendations.push(
+        `Extend the rest after this duty by ${fdpCompliance.unforeseen_extension_hours.toFixed(1)} hours for the FDP extension`
+      );
     }
 
     // Flight time limit warnings
@@ -448,6 +1337,61 @@ export class LegalityValidator {
       );
     }
 
+    if (
+      dutyLimits.calendar_year_limit !== null &&
+      dutyLimits.calendar_year_hours > dutyLimits.calendar_year_limit * 0.9
+    ) {
+      recommendations.push(
+        `Approaching calendar-year limit (${dutyLimits.calendar_year_hours.toFixed(1)}/${dutyLimits.calendar_year_limit} hours)`
+      );
+    }
+
+    // Cumulative FDP (or duty) warnings
+    const cumulativeLabel = dutyLimits.cumulative_basis === 'DUTY' ? 'duty' : 'FDP';
+    if (dutyLimits.rolling_168_hour_fdp_hours > dutyLimits.rolling_168_hour_fdp_limit) {
+      recommendations.push(
+        `Reduce ${cumulativeLabel} by ${(dutyLimits.rolling_168_hour_fdp_hours - dutyLimits.rolling_168_hour_fdp_limit).toFixed(1)} hours to stay within ${dutyLimits.rolling_168_hour_fdp_limit} ${cumulativeLabel} hours in 168 consecutive hours`
+      );
+    } else if (
+      dutyLimits.rolling_168_hour_fdp_hours >
+      dutyLimits.rolling_168_hour_fdp_limit * 0.9
+    ) {
+      recommendations.push(
+        `Approaching 168-hour ${cumulativeLabel} limit (${dutyLimits.rolling_168_hour_fdp_hours.toFixed(1)}/${dutyLimits.rolling_168_hour_fdp_limit} hours)`
+      );
+    }
+
+    if (dutyLimits.rolling_672_hour_fdp_hours > dutyLimits.rolling_672_hour_fdp_limit) {
+      recommendations.push(
+        `Reduce ${cumulativeLabel} by ${(dutyLimits.rolling_672_hour_fdp_hours - dutyLimits.rolling_672_hour_fdp_limit).toFixed(1)} hours to stay within ${dutyLimits.rolling_672_hour_fdp_limit} ${cumulativeLabel} hours in 672 consecutive hours`
+      );
+    } else if (
+      dutyLimits.rolling_672_hour_fdp_hours >
+      dutyLimits.rolling_672_hour_fdp_limit * 0.9
+    ) {
+      recommendations.push(
+        `Approaching 672-hour ${cumulativeLabel} limit (${dutyLimits.rolling_672_hour_fdp_hours.toFixed(1)}/${dutyLimits.rolling_672_hour_fdp_limit} hours)`
+      );
+    }
+
+    if (
+      dutyLimits.rolling_336_hour_fdp_limit !== null &&
+      dutyLimits.rolling_336_hour_fdp_hours > dutyLimits.rolling_336_hour_fdp_limit
+    ) {
+      recommendations.push(
+        `Reduce ${cumulativeLabel} by ${(dutyLimits.rolling_336_hour_fdp_hours - dutyLimits.rolling_336_hour_fdp_limit).toFixed(1)} hours to stay within ${dutyLimits.rolling_336_hour_fdp_limit} ${cumulativeLabel} hours in 336 consecutive hours`
+      );
+    }
+
+    // Consecutive nighttime operations
+    const nightRule = rulePack.getConsecutiveNights();
+    const nightLimit = dutyLimits.consecutive_nights_limit;
+    if (nightRule && nightLimit !== null && dutyLimits.consecutive_nights > nightLimit) {
+      recommendations.push(
+        `Schedule ${nightRule.required_rest_after} hours of rest before another nighttime duty (${dutyLimits.consecutive_nights - 1} consecutive nights flown)`
+      );
+    }
+
     // Consecutive duty warnings
     if (dutyLimits.consecutive_duty_days >= 6) {
       recommendations.push(
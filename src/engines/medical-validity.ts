@@ -0,0 +1,111 @@
+/**
+ * Medical Validity Engine
+ * Determines which class of medical privileges a pilot holds on a given date
+ * (14 CFR 61.23), stepping first-class privileges down to second and third
+ * class as calendar months elapse
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { DateTime } from 'luxon';
+import type { CrewPosition, MedicalCertificate } from '../types/crew.js';
+import type { MedicalClass, MedicalPrivileges } from '../types/qualifications.js';
+import { logger } from '../utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const CLASS_RANK: Record<MedicalClass, number> = {
+  FIRST_CLASS: 1,
+  SECOND_CLASS: 2,
+  THIRD_CLASS: 3,
+};
+
+interface MedicalValidityRules {
+  age_threshold: number;
+  privilege_durations_months: Record<
+    string,
+    Partial<Record<MedicalClass, { under_40: number; age_40_and_over: number }>>
+  >;
+  required_class_by_position: Record<string, { class: MedicalClass; description: string }>;
+}
+
+/**
+ * Load medical validity rules from JSON file
+ */
+function loadMedicalValidityRules(): MedicalValidityRules {
+  try {
+    const rulesPath = join(__dirname, '../rules/medical-validity-rules.json');
+    return JSON.parse(readFileSync(rulesPath, 'utf-8'));
+  } catch (error) {
+    logger.error('Failed to load medical validity rules:', error);
+    throw new Error('Could not load medical validity rules');
+  }
+}
+
+export class MedicalValidityEngine {
+  private rules: MedicalValidityRules;
+
+  constructor() {
+    this.rules = loadMedicalValidityRules();
+  }
+
+  /**
+   * Resolve the medical privileges held as of a date
+   * Age is taken on the examination (issue) date; each privilege class runs
+   * to the end of the Nth calendar month after the examination month
+   */
+  getPrivileges(
+    medical: MedicalCertificate,
+    dateOfBirth: Date,
+    asOf: Date = new Date()
+  ): MedicalPrivileges {
+    const examDate = DateTime.fromJSDate(new Date(medical.issue_date));
+    const ageAtExam = Math.floor(
+      examDate.diff(DateTime.fromJSDate(new Date(dateOfBirth)), 'years').years
+    );
+    const ageBand = ageAtExam < this.rules.age_threshold ? 'under_40' : 'age_40_and_over';
+    const durations = this.rules.privilege_durations_months[medical.class] || {};
+
+    const validUntil: Partial<Record<MedicalClass, Date>> = {};
+    for (const [privilegeClass, months] of Object.entries(durations)) {
+      validUntil[privilegeClass as MedicalClass] = examDate
+        .plus({ months: months![ageBand] })
+        .endOf('month')
+        .toJSDate();
+    }
+
+    // Highest class still in force, then the next lapse after the as-of date
+    const held = (Object.keys(validUntil) as MedicalClass[])
+      .filter((c) => validUntil[c]! >= asOf)
+      .sort((a, b) => CLASS_RANK[a] - CLASS_RANK[b]);
+    const privilegeClass = held[0] || null;
+
+    return {
+      certificate_class: medical.class,
+      exam_date: examDate.toJSDate(),
+      age_at_exam: ageAtExam,
+      as_of_date: asOf,
+      privilege_class: privilegeClass,
+      privileges_valid_until: validUntil,
+      next_step_down: privilegeClass
+        ? { date: validUntil[privilegeClass]!, to_class: held[1] || null }
+        : null,
+    };
+  }
+
+  /**
+   * Medical class a crew position requires, if any
+   */
+  getRequiredClass(position: CrewPosition): MedicalClass | null {
+    return this.rules.required_class_by_position[position]?.class || null;
+  }
+
+  /**
+   * Whether the held privileges meet the required class
+   */
+  meetsClass(held: MedicalClass | null, required: MedicalClass): boolean {
+    return held !== null && CLASS_RANK[held] <= CLASS_RANK[required];
+  }
+}
@@ -4,16 +4,40 @@
  */
 
 import { differenceInYears } from 'date-fns';
-import { getCrewMember, getDutyTimeRecords } from '../db/queries.js';
-import { RulesEngine, type PayContext } from './rules-engine.js';
-import type { PayCalculation, PayBreakdownItem } from '../types/pay.js';
+import {
+  getCrewMember,
+  getDutyTimeRecords,
+  getFlightSegments,
+  getPairingDutyPeriods,
+  getTrainingEvents,
+} from '../db/queries.js';
+import { RulesEngine, type PayContext, type PayRuleResults } from './rules-engine.js';
+import { HolidayCalendar } from './holiday-calendar.js';
+import { TripBuilder } from './trip-builder.js';
+import type {
+  DutyPeriodHours,
+  PayCalculation,
+  PayBreakdownItem,
+  TrainingPayEvent,
+  Trip,
+} from '../types/pay.js';
+import type { PairingDutyPeriod } from '../types/pairing.js';
+import type { CrewMember, DutyTimeRecord, RecurrentTraining } from '../types/crew.js';
+import { resolveAirportTimezone } from '../utils/airports.js';
 import { logger } from '../utils/logger.js';
 
+// A recorded duty is matched to the scheduled duty reporting within this many hours
+const SCHEDULED_DUTY_MATCH_HOURS = 12;
+
 export class PayCalculator {
   private rulesEngine: RulesEngine;
+  private holidayCalendar: HolidayCalendar;
+  private tripBuilder: TripBuilder;
 
   constructor() {
     this.rulesEngine = new RulesEngine();
+    this.holidayCalendar = new HolidayCalendar();
+    this.tripBuilder = new TripBuilder();
   }
 
   /**
@@ -34,10 +58,18 @@ export class PayCalculator {
 
     // 2. Get all duty records in the period
     const dutyRecords = await getDutyTimeRecords(crewId, periodStart, periodEnd);
-    logger.debug(`Found ${dutyRecords.length} duty records`);
-
-    // 3. Calculate totals from duty records
-    const totals = this.calculateTotals(dutyRecords);
+    const segments = await getFlightSegments(crewId, periodStart, periodEnd);
+    const trainingRecords = await getTrainingEvents(crewId, periodStart, periodEnd);
+    logger.debug(
+      `Found ${dutyRecords.length} duty records, ${segments.length} flight segments, ` +
+        `${trainingRecords.length} training events`
+    );
+
+    // 3. Group duties into trips and calculate totals
+    const trips = this.tripBuilder.buildTrips(dutyRecords, segments, crewMember);
+    const totals = this.calculateTotals(dutyRecords, trips, crewMember);
+    const trainingEvents = this.buildTrainingEvents(trainingRecords, dutyRecords);
+    const dutyPeriods = await this.buildDutyPeriods(dutyRecords);
 
     // 4. Calculate years of service
     const yearsOfService = differenceInYears(new Date(), crewMember.hire_date);
@@ -54,34 +86,35 @@ export class PayCalculator {
       internationalTrips: totals.internationalTrips,
       holidayHours: totals.holidayHours,
       yearsOfService,
+      trips,
+      deadheadDutyHours: totals.deadheadDutyHours,
+      trainingEvents,
+      dutyPeriods,
     };
 
     // 6. Apply all pay rules
     const ruleResults = await this.rulesEngine.applyAllRules(context);
 
     // 7. Build breakdown
+    const creditHours = ruleResults.credit?.credit_hours ?? totals.totalFlightHours;
     const breakdown = {
-      base_pay: this.convertToBreakdownItem(ruleResults.basePay, totals.totalFlightHours),
-      per_diem: this.convertToBreakdownItem(ruleResults.perDiem, totals.totalDutyHours),
+      base_pay: this.convertToBreakdownItem(ruleResults.basePay, creditHours),
+      per_diem: this.convertToBreakdownItem(ruleResults.perDiem, totals.totalTafbHours),
       premium_pay: ruleResults.premiumPay.map(p => this.convertToBreakdownItem(p)),
       overtime_pay: this.convertToBreakdownItem(ruleResults.overtimePay),
       guarantee_pay: this.convertToBreakdownItem(ruleResults.guaranteePay),
+      deadhead_pay: this.convertToBreakdownItem(
+        ruleResults.deadheadPay,
+        totals.totalDeadheadHours
+      ),
+      training_pay: ruleResults.trainingPay.map((t, i) => ({
+        ...this.convertToBreakdownItem(t, trainingEvents[i].duration_hours ?? undefined),
+        date: trainingEvents[i].date,
+      })),
     };
 
     // 8. Build applied rules list
-    const appliedRules = [
-      ruleResults.basePay,
-      ruleResults.perDiem,
-      ...ruleResults.premiumPay,
-      ruleResults.overtimePay,
-      ruleResults.guaranteePay,
-    ]
-      .filter(r => r.amount > 0)
-      .map(r => ({
-        rule_name: r.ruleName,
-        rule_type: r.ruleType as import('../types/pay.js').PayRuleType,
-        amount: r.amount,
-      }));
+    const appliedRules = this.listAppliedRules(ruleResults);
 
     // 9. Build duty records summary
     const dutyRecordsSummary = dutyRecords.map(dr => ({
@@ -89,6 +122,15 @@ export class PayCalculator {
       flight_time: dr.flight_time_minutes / 60,
       duty_time: dr.duty_time_minutes / 60,
       block_time: dr.block_time_minutes / 60,
+      deadhead_time: (dr.deadhead_minutes || 0) / 60,
+    }));
+
+    const tripsSummary = trips.map(trip => ({
+      report: trip.report_utc,
+      release: trip.release_utc,
+      tafb_hours: trip.tafb_hours,
+      is_international: trip.is_international,
+      is_complete: trip.is_complete,
     }));
 
     // 10. Return complete calculation
@@ -105,10 +147,15 @@ export class PayCalculator {
       summary: {
         total_flight_hours: totals.totalFlightHours,
         total_duty_hours: totals.totalDutyHours,
+        total_credit_hours: creditHours,
+        total_deadhead_hours: totals.totalDeadheadHours,
+        total_tafb_hours: totals.totalTafbHours,
         total_compensation: ruleResults.totalAmount,
       },
       breakdown,
+      credit: ruleResults.credit,
       duty_records: dutyRecordsSummary,
+      trips: tripsSummary,
       applied_rules: appliedRules,
       calculation_timestamp: new Date(),
     };
@@ -125,10 +172,17 @@ export class PayCalculator {
   /**
    * Calculate totals from duty records
    */
-  private calculateTotals(dutyRecords: any[]): {
+  private calculateTotals(
+    dutyRecords: any[],
+    trips: Trip[],
+    crewMember: CrewMember
+  ): {
     totalFlightHours: number;
     totalDutyHours: number;
     totalBlockHours: number;
+    totalDeadheadHours: number;
+    deadheadDutyHours: number[];
+    totalTafbHours: number;
     dutyDays: number;
     nightHours: number;
     internationalTrips: number;
@@ -137,17 +191,27 @@ export class PayCalculator {
     let totalFlightMinutes = 0;
     let totalDutyMinutes = 0;
     let totalBlockMinutes = 0;
+    let totalDeadheadMinutes = 0;
+    const deadheadDutyHours: number[] = [];
     let nightMinutes = 0;
-    let internationalTrips = 0;
     let holidayMinutes = 0;
 
     const uniqueDutyDays = new Set<string>();
 
+    // Holidays are judged in the crew base local time
+    const baseTimezone = resolveAirportTimezone(crewMember.base_airport);
+
     for (const record of dutyRecords) {
       totalFlightMinutes += record.flight_time_minutes || 0;
       totalDutyMinutes += record.duty_time_minutes || 0;
       totalBlockMinutes += record.block_time_minutes || 0;
 
+      // Deadhead is duty time but not flight time; it is paid per duty under its own rule
+      if (record.deadhead_minutes > 0) {
+        totalDeadheadMinutes += record.deadhead_minutes;
+        deadheadDutyHours.push(record.deadhead_minutes / 60);
+      }
+
       // Track unique duty days
       uniqueDutyDays.add(record.duty_date.toISOString().split('T')[0]);
 
@@ -156,24 +220,146 @@ export class PayCalculator {
         nightMinutes += Math.min(record.duty_time_minutes, 240); // Max 4 hours night
       }
 
-      // TODO: Detect international trips from duty records metadata
-      // For now, assume no international trips unless flagged
-
-      // TODO: Detect holiday hours from duty dates
-      // Would need to check duty_date against holiday calendar
+      // Holiday hours: share of flight time worked on recognized holidays
+      const dutyStart: Date = record.duty_start_utc;
+      const dutyEnd: Date =
+        record.duty_end_utc ||
+        new Date(dutyStart.getTime() + (record.duty_time_minutes || 0) * 60 * 1000);
+      const dutyMinutes = (dutyEnd.getTime() - dutyStart.getTime()) / (1000 * 60);
+      const holidayDutyMinutes = this.holidayCalendar.getHolidayMinutes(
+        dutyStart,
+        dutyEnd,
+        crewMember.union_code,
+        baseTimezone
+      );
+      if (dutyMinutes > 0 && holidayDutyMinutes > 0) {
+        holidayMinutes +=
+          (record.flight_time_minutes || 0) * (holidayDutyMinutes / dutyMinutes);
+      }
     }
 
     return {
       totalFlightHours: totalFlightMinutes / 60,
       totalDutyHours: totalDutyMinutes / 60,
       totalBlockHours: totalBlockMinutes / 60,
+      totalDeadheadHours: totalDeadheadMinutes / 60,
+      deadheadDutyHours,
+      totalTafbHours: trips.reduce((sum, trip) => sum + trip.tafb_hours, 0),
       dutyDays: uniqueDutyDays.size,
       nightHours: nightMinutes / 60,
-      internationalTrips,
+      // A trip is international if any leg touches a country other than the base country
+      internationalTrips: trips.filter(trip => trip.is_international).length,
       holidayHours: holidayMinutes / 60,
     };
   }
 
+  /**
+   * Hours each duty period can be credited with, including the scheduled block
+   * from the pairing it was flown on. Deadhead is paid under its own rule, so
+   * deadhead-only duties earn no credit and deadhead time is left out of duty rig
+   */
+  private async buildDutyPeriods(dutyRecords: DutyTimeRecord[]): Promise<DutyPeriodHours[]> {
+    const creditedRecords = dutyRecords.filter(
+      record =>
+        !(record.deadhead_minutes > 0 && !record.flight_time_minutes && !record.block_time_minutes)
+    );
+    const pairingIds = [
+      ...new Set(creditedRecords.map(dr => dr.pairing_id).filter((id): id is string => !!id)),
+    ];
+    const scheduledDuties = new Map<string, PairingDutyPeriod[]>();
+    for (const pairingId of pairingIds) {
+      scheduledDuties.set(pairingId, await getPairingDutyPeriods(pairingId));
+    }
+
+    return creditedRecords.map(record => {
+      const scheduled = record.pairing_id
+        ? this.matchScheduledDuty(record, scheduledDuties.get(record.pairing_id) || [])
+        : null;
+      return {
+        duty_id: record.duty_id,
+        duty_date: record.duty_date,
+        block_hours: (record.block_time_minutes || record.flight_time_minutes || 0) / 60,
+        scheduled_block_hours: scheduled ? scheduled.flight_time_minutes / 60 : null,
+        duty_hours:
+          Math.max(0, (record.duty_time_minutes || 0) - (record.deadhead_minutes || 0)) / 60,
+      };
+    });
+  }
+
+  /**
+   * The pairing duty period scheduled to report closest to the recorded report,
+   * within half a day
+   */
+  private matchScheduledDuty(
+    record: DutyTimeRecord,
+    scheduled: PairingDutyPeriod[]
+  ): PairingDutyPeriod | null {
+    const reportTime = new Date(record.duty_start_utc).getTime();
+    let best: PairingDutyPeriod | null = null;
+    let bestGap = SCHEDULED_DUTY_MATCH_HOURS * 60 * 60 * 1000;
+
+    for (const duty of scheduled) {
+      const gap = Math.abs(new Date(duty.duty_start_utc).getTime() - reportTime);
+      if (gap <= bestGap) {
+        best = duty;
+        bestGap = gap;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Pair each training event with the flight hours already paid from duty on the same day
+   */
+  private buildTrainingEvents(
+    trainingRecords: RecurrentTraining[],
+    dutyRecords: DutyTimeRecord[]
+  ): TrainingPayEvent[] {
+    const flightHoursByDay = new Map<string, number>();
+    for (const record of dutyRecords) {
+      const day = record.duty_date.toISOString().split('T')[0];
+      flightHoursByDay.set(
+        day,
+        (flightHoursByDay.get(day) || 0) + (record.flight_time_minutes || 0) / 60
+      );
+    }
+
+    return trainingRecords.map(training => ({
+      training_id: training.training_id,
+      training_type: training.training_type,
+      event_format: training.event_format || 'CLASSROOM',
+      date: training.completion_date,
+      duration_hours: training.duration_minutes ? training.duration_minutes / 60 : null,
+      same_day_flight_hours:
+        flightHoursByDay.get(training.completion_date.toISOString().split('T')[0]) || 0,
+    }));
+  }
+
+  /**
+   * Rules that paid a non-zero amount, with the rule id and version behind each
+   */
+  private listAppliedRules(ruleResults: PayRuleResults): PayCalculation['applied_rules'] {
+    return [
+      ruleResults.basePay,
+      ruleResults.perDiem,
+      ...ruleResults.premiumPay,
+      ruleResults.overtimePay,
+      ruleResults.guaranteePay,
+      ruleResults.deadheadPay,
+      ...ruleResults.trainingPay,
+    ]
+      .filter(r => r.amount > 0)
+      .map(r => ({
+        rule_name: r.ruleName,
+        rule_type: r.ruleType,
+        rule_id: r.rule?.rule_id ?? null,
+        version: r.rule?.version ?? null,
+        source: r.rule?.source ?? null,
+        amount: r.amount,
+      }));
+  }
+
   /**
    * Convert rule application to breakdown item
    */
@@ -268,6 +454,9 @@ export class PayCalculator {
       summary: {
         total_flight_hours: estimatedFlightHours,
         total_duty_hours: estimatedDutyHours,
+        total_credit_hours: estimatedFlightHours,
+        total_deadhead_hours: 0,
+        total_tafb_hours: 0,
         total_compensation: ruleResults.totalAmount,
       },
       breakdown: {
@@ -276,21 +465,13 @@ export class PayCalculator {
         premium_pay: ruleResults.premiumPay.map(p => this.convertToBreakdownItem(p)),
         overtime_pay: this.convertToBreakdownItem(ruleResults.overtimePay),
         guarantee_pay: this.convertToBreakdownItem(ruleResults.guaranteePay),
+        deadhead_pay: this.convertToBreakdownItem(ruleResults.deadheadPay),
+        training_pay: [],
       },
+      credit: null,
       duty_records: [],
-      applied_rules: [
-        ruleResults.basePay,
-        ruleResults.perDiem,
-        ...ruleResults.premiumPay,
-        ruleResults.overtimePay,
-        ruleResults.guaranteePay,
-      ]
-        .filter(r => r.amount > 0)
-        .map(r => ({
-          rule_name: r.ruleName,
-          rule_type: r.ruleType as import('../types/pay.js').PayRuleType,
-          amount: r.amount,
-        })),
+      trips: [],
+      applied_rules: this.listAppliedRules(ruleResults),
       calculation_timestamp: new Date(),
     };
 
@@ -0,0 +1,119 @@
+/**
+ * Reserve Limits Engine
+ * Applies a rule pack's reserve limits to a duty assigned from airport,
+ * short-call or long-call reserve: the length of the reserve period, the FDP
+ * reduction for time already spent on reserve, the combined reserve-plus-FDP
+ * cap and the notice given at callout
+ */
+
+import type { ReserveCallout, ReserveCompliance } from '../types/qualifications.js';
+import type { ReserveRule } from '../types/rule-pack.js';
+
+const HOUR_MS = 1000 * 60 * 60;
+
+export class ReserveLimitsEngine {
+  /**
+   * Hours by which the maximum FDP is reduced for reserve time before report
+   */
+  getFDPReductionHours(rule: ReserveRule, reserve: ReserveCallout, reportUtc: Date): number {
+    if (rule.fdp_reduction_after_hours === null) {
+      return 0;
+    }
+    return Math.max(
+      0,
+      this.hoursBeforeReport(reserve, reportUtc) - rule.fdp_reduction_after_hours
+    );
+  }
+
+  /**
+   * Check a duty assigned from reserve
+   * maxFDPHours is the limit for the duty before any reserve reduction
+   */
+  check(
+    rule: ReserveRule,
+    reserve: ReserveCallout,
+    reportUtc: Date,
+    dutyEndUtc: Date,
+    maxFDPHours: number,
+    augmented: boolean
+  ): ReserveCompliance {
+    const violations: string[] = [];
+    const reserveStart = new Date(reserve.reserve_start_utc);
+    const reserveEnd = new Date(reserve.reserve_end_utc);
+
+    const reserveHours = (reserveEnd.getTime() - reserveStart.getTime()) / HOUR_MS;
+    if (rule.max_hours !== null && reserveHours > rule.max_hours) {
+      violations.push(
+        `${reserve.reserve_type} reserve period of ${reserveHours.toFixed(1)} hours exceeds the ${rule.max_hours}-hour maximum`
+      );
+    }
+
+    if (reportUtc < reserveStart || reportUtc > reserveEnd) {
+      violations.push(
+        `Report at ${reportUtc.toISOString()} falls outside the reserve period (${reserveStart.toISOString()} to ${reserveEnd.toISOString()})`
+      );
+    }
+
+    // Reserve plus FDP, measured from the start of the reserve period
+    const reservePlusFDPHours = (dutyEndUtc.getTime() - reserveStart.getTime()) / HOUR_MS;
+    const reservePlusFDPLimit = this.getReservePlusFDPLimit(rule, maxFDPHours, augmented);
+    if (reservePlusFDPLimit !== null && reservePlusFDPHours > reservePlusFDPLimit) {
+      violations.push(
+        `Reserve plus FDP of ${reservePlusFDPHours.toFixed(1)} hours exceeds the ${reservePlusFDPLimit}-hour limit`
+      );
+    }
+
+    let noticeHours: number | null = null;
+    if (reserve.callout_utc) {
+      noticeHours =
+        (reportUtc.getTime() - new Date(reserve.callout_utc).getTime()) / HOUR_MS;
+      if (noticeHours < rule.minimum_notice_hours) {
+        violations.push(
+          `${noticeHours.toFixed(1)} hours notice of report from ${reserve.reserve_type} reserve (requires ${rule.minimum_notice_hours})`
+        );
+      }
+    }
+
+    return {
+      is_compliant: violations.length === 0,
+      reserve_type: reserve.reserve_type,
+      reserve_hours: reserveHours,
+      reserve_hours_before_report: this.hoursBeforeReport(reserve, reportUtc),
+      counts_as_fdp: rule.counts_as_fdp,
+      fdp_reduction_hours: this.getFDPReductionHours(rule, reserve, reportUtc),
+      reserve_plus_fdp_hours: reservePlusFDPHours,
+      reserve_plus_fdp_limit: reservePlusFDPLimit,
+      notice_hours: noticeHours,
+      violations,
+    };
+  }
+
+  /**
+   * The lesser of the maximum FDP plus the allowed margin and the fixed cap;
+   * null when neither applies (e.g. airport reserve, which is FDP throughout)
+   */
+  private getReservePlusFDPLimit(
+    rule: ReserveRule,
+    maxFDPHours: number,
+    augmented: boolean
+  ): number | null {
+    const limits: number[] = [];
+    if (rule.reserve_plus_fdp_over_limit_hours !== null) {
+      limits.push(maxFDPHours + rule.reserve_plus_fdp_over_limit_hours);
+    }
+    const cap = augmented
+      ? rule.reserve_plus_fdp_max_hours_augmented
+      : rule.reserve_plus_fdp_max_hours;
+    if (cap !== null) {
+      limits.push(cap);
+    }
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  private hoursBeforeReport(reserve: ReserveCallout, reportUtc: Date): number {
+    return Math.max(
+      0,
+      (reportUtc.getTime() - new Date(reserve.reserve_start_utc).getTime()) / HOUR_MS
+    );
+  }
+}
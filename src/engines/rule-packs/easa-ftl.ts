@@ -0,0 +1,422 @@
+/**
+ * EASA FTL Rule Pack
+ * Flight and duty time limitations and rest requirements (ORO.FTL, Regulation (EU) No 83/2014)
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import type { ReserveType, SplitDutyRest } from '../../types/qualifications.js';
+import type {
+  AcclimationRule,
+  CumulativeLimits,
+  FDPLimit,
+  FDPLimitInput,
+  FlightTimeLimits,
+  RegulatedRule,
+  ReserveRule,
+  RulePack,
+  UnforeseenExtensionRule,
+  WeeklyRestRule,
+} from '../../types/rule-pack.js';
+import { logger } from '../../utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const CITATIONS: Record<RegulatedRule, string> = {
+  MINIMUM_REST: 'ORO.FTL.235(a)-(b)',
+  WEEKLY_REST: 'ORO.FTL.235(d)',
+  FDP_LIMIT: 'ORO.FTL.205(b)',
+  FDP_LIMIT_AUGMENTED: 'CS FTL.1.205(c)',
+  FDP_EXTENSION: 'ORO.FTL.205(d)',
+  FDP_UNFORESEEN_EXTENSION: 'ORO.FTL.205(f)',
+  FDP_SPLIT_DUTY: 'CS FTL.1.220',
+  FLIGHT_TIME_28_DAY: 'ORO.FTL.210(b)(1)',
+  FLIGHT_TIME_365_DAY: 'ORO.FTL.210(b)(3)',
+  CUMULATIVE_FDP_168_HOUR: 'ORO.FTL.210(a)(1)',
+  CUMULATIVE_FDP_672_HOUR: 'ORO.FTL.210(a)(3)',
+  CUMULATIVE_DUTY_336_HOUR: 'ORO.FTL.210(a)(2)',
+  FLIGHT_TIME_CALENDAR_YEAR: 'ORO.FTL.210(b)(2)',
+  CONSECUTIVE_NIGHTS: 'ORO.FTL',
+  RESERVE: 'ORO.FTL.225',
+};
+
+interface FDPBand {
+  start: string;
+  end: string;
+  limits: number[];
+}
+
+interface StandbyRule {
+  max_hours: number | null;
+  fdp_reduction_after_hours: number;
+  max_combined_with_fdp_hours: number;
+}
+
+interface EASARule {
+  flight_time_limits: any;
+  duty_limits: {
+    rolling_7_day_hours: number;
+    rolling_14_day_hours: number;
+    rolling_28_day_hours: number;
+  };
+  fdp_limits: {
+    acclimatised: { bands: FDPBand[] };
+    unknown_state: { limits: number[] };
+    augmented: any;
+  };
+  extension: {
+    maximum_hours: number;
+    maximum_per_7_days: number;
+    maximum_sectors: {
+      no_wocl_encroachment: number;
+      wocl_encroachment_up_to_2_hours: number;
+      wocl_encroachment_over_2_hours: number;
+    };
+  };
+  commanders_discretion: {
+    max_extension_hours: number;
+    max_extension_hours_augmented: number;
+    report_required_above_minutes: number;
+    report_due_days: number;
+  };
+  standby: {
+    airport_standby: StandbyRule;
+    other_standby: StandbyRule;
+    reserve: { minimum_notice_hours: number };
+  };
+  split_duty: {
+    minimum_break_hours: number;
+    post_and_pre_flight_duty_hours: number;
+    credit_fraction: number;
+  };
+  rest_requirements: any;
+  acclimation: AcclimationRule;
+}
+
+/**
+ * Load EASA FTL rules
+ */
+function loadEASARules(): EASARule {
+  try {
+    const rulesPath = join(__dirname, '../../rules/easa-ftl-rules.json');
+    return JSON.parse(readFileSync(rulesPath, 'utf-8'));
+  } catch (error) {
+    logger.error('Failed to load EASA FTL rules:', error);
+    throw new Error('Could not load EASA FTL regulations');
+  }
+}
+
+export class EASAFTLRulePack implements RulePack {
+  readonly id = 'EASA_FTL' as const;
+  readonly name = 'EASA ORO.FTL';
+  private rules: EASARule;
+
+  constructor() {
+    this.rules = loadEASARules();
+  }
+
+  /**
+   * Basic maximum daily FDP (Table 2 when acclimatised, Table 3 otherwise) or the
+   * in-flight rest limit, plus a planned extension or split-duty credit
+   */
+  getFDPLimit(input: FDPLimitInput): FDPLimit {
+    const violations: string[] = [];
+    const extensionRequested = input.extension_hours || 0;
+    const breakHours = input.split_duty_break_hours || 0;
+
+    if (input.augmenting_pilots > 0) {
+      const limit = this.getAugmentedFDPLimit(input);
+      if (extensionRequested > 0) {
+        violations.push('FDP extension cannot be combined with in-flight rest');
+      }
+      if (limit === null) {
+        violations.push(
+          'Augmented operation requires an onboard rest facility class (CLASS_1, CLASS_2 or CLASS_3)'
+        );
+      }
+      return {
+        max_fdp_hours: limit ?? 0,
+        fdp_table: input.rest_facility_class
+          ? `AUGMENTED_${input.rest_facility_class}_${Math.min(input.augmenting_pilots, 2)}_ADDITIONAL`
+          : 'AUGMENTED',
+        report_time_bucket: 'ANY',
+        extension_hours: 0,
+        split_duty_credit_hours: 0,
+        split_duty_rest: this.getSplitDutyRest(input),
+        violations,
+      };
+    }
+
+    let maxFDPHours: number;
+    let fdpTable: string;
+    let timeBucket: string;
+
+    if (input.acclimation.is_acclimated) {
+      const band = this.findBand(input.report_hour, input.report_minute);
+      maxFDPHours = this.limitForSectors(band.limits, input.segments);
+      fdpTable = 'ACCLIMATISED';
+      timeBucket = `${band.start}-${band.end}`;
+    } else {
+      maxFDPHours = this.limitForSectors(
+        this.rules.fdp_limits.unknown_state.limits,
+        input.segments
+      );
+      fdpTable = 'UNKNOWN_STATE';
+      timeBucket = 'ANY';
+    }
+
+    // A break given only as a length is used when no rest opportunities are recorded
+    const splitDutyRest = this.getSplitDutyRest(input);
+    const splitDutyCredit =
+      splitDutyRest.length > 0
+        ? splitDutyRest.reduce((sum, rest) => sum + rest.credited_hours, 0)
+        : this.getSplitDutyCredit(breakHours);
+
+    let extensionHours = 0;
+    if (extensionRequested > 0) {
+      const extensionViolations = this.checkExtension(input, extensionRequested);
+      if (splitDutyCredit > 0) {
+        extensionViolations.push('FDP extension cannot be combined with a split duty');
+      }
+      if (extensionViolations.length === 0) {
+        extensionHours = extensionRequested;
+      }
+      violations.push(...extensionViolations);
+    }
+
+    return {
+      max_fdp_hours: maxFDPHours + extensionHours + splitDutyCredit,
+      fdp_table: fdpTable,
+      report_time_bucket: timeBucket,
+      extension_hours: extensionHours,
+      split_duty_credit_hours: splitDutyCredit,
+      split_duty_rest: splitDutyRest,
+      violations,
+    };
+  }
+
+  /**
+   * At least as long as the preceding duty, and at least 12 hours at home base or 10 away
+   */
+  getMinimumRestHours(previousDutyHours: number, atHomeBase: boolean): number {
+    const minimumRest = this.rules.rest_requirements.minimum_rest;
+    const floor = atHomeBase ? minimumRest.home_base_hours : minimumRest.away_from_base_hours;
+    return minimumRest.at_least_preceding_duty ? Math.max(floor, previousDutyHours) : floor;
+  }
+
+  getWeeklyRest(): WeeklyRestRule {
+    return this.rules.rest_requirements.weekly_rest;
+  }
+
+  getAcclimation(): AcclimationRule {
+    return this.rules.acclimation;
+  }
+
+  getFlightTimeLimits(): FlightTimeLimits {
+    return {
+      rolling_28_day_hours: this.rules.flight_time_limits.rolling_28_day.limit_hours,
+      rolling_365_day_hours: this.rules.flight_time_limits.rolling_365_day.limit_hours,
+      calendar_year_hours: this.rules.flight_time_limits.calendar_year.limit_hours,
+    };
+  }
+
+  /**
+   * The 7-, 14- and 28-day duty limits, counting all duty time rather than FDP
+   */
+  getCumulativeFDPLimits(): CumulativeLimits {
+    return {
+      basis: 'DUTY',
+      rolling_168_hour_hours: this.rules.duty_limits.rolling_7_day_hours,
+      rolling_336_hour_hours: this.rules.duty_limits.rolling_14_day_hours,
+      rolling_672_hour_hours: this.rules.duty_limits.rolling_28_day_hours,
+    };
+  }
+
+  /**
+   * Commander's discretion
+   */
+  getUnforeseenExtension(): UnforeseenExtensionRule {
+    const rule = this.rules.commanders_discretion;
+    return {
+      maximum_hours: rule.max_extension_hours,
+      maximum_hours_augmented: rule.max_extension_hours_augmented,
+      report_required_above_minutes: rule.report_required_above_minutes,
+      report_due_days: rule.report_due_days,
+      reportable_per_168_hours: null,
+    };
+  }
+
+  /**
+   * Airport standby (AIRPORT), other standby (SHORT_CALL) and reserve (LONG_CALL);
+   * standby shortens the FDP assigned from it rather than counting as FDP
+   */
+  getReserveRule(reserveType: ReserveType): ReserveRule {
+    if (reserveType === 'LONG_CALL') {
+      return {
+        max_hours: null,
+        counts_as_fdp: false,
+        fdp_reduction_after_hours: null,
+        reserve_plus_fdp_over_limit_hours: null,
+        reserve_plus_fdp_max_hours: null,
+        reserve_plus_fdp_max_hours_augmented: null,
+        minimum_notice_hours: this.rules.standby.reserve.minimum_notice_hours,
+      };
+    }
+
+    const standby =
+      reserveType === 'AIRPORT'
+        ? this.rules.standby.airport_standby
+        : this.rules.standby.other_standby;
+    return {
+      max_hours: standby.max_hours,
+      counts_as_fdp: false,
+      fdp_reduction_after_hours: standby.fdp_reduction_after_hours,
+      reserve_plus_fdp_over_limit_hours: null,
+      reserve_plus_fdp_max_hours: standby.max_combined_with_fdp_hours,
+      reserve_plus_fdp_max_hours_augmented: standby.max_combined_with_fdp_hours,
+      minimum_notice_hours: 0,
+    };
+  }
+
+  /**
+   * ORO.FTL has no fixed limit on consecutive night duties
+   */
+  getConsecutiveNights(): null {
+    return null;
+  }
+
+  cite(rule: RegulatedRule): string {
+    return CITATIONS[rule];
+  }
+
+  /**
+   * Find the Table 2 reference-time band containing the local report time
+   * Bands that end before they start wrap past midnight
+   */
+  private findBand(hour: number, minute: number): FDPBand {
+    const time = hour * 100 + minute;
+    const bands = this.rules.fdp_limits.acclimatised.bands;
+    const band = bands.find((b) => {
+      const start = parseInt(b.start, 10);
+      const end = parseInt(b.end, 10);
+      return start <= end ? time >= start && time <= end : time >= start || time <= end;
+    });
+    return band ?? bands[0];
+  }
+
+  /**
+   * Pick the column for the number of sectors; the first column covers 1-2 sectors
+   * and sectors beyond the last column use it
+   */
+  private limitForSectors(limits: number[], segments: number): number {
+    const column = Math.min(Math.max(segments, 2) - 2, limits.length - 1);
+    return limits[column];
+  }
+
+  /**
+   * In-flight rest limit by rest facility class and additional pilots
+   */
+  private getAugmentedFDPLimit(input: FDPLimitInput): number | null {
+    if (!input.rest_facility_class) {
+      return null;
+    }
+
+    const facility =
+      this.rules.fdp_limits.augmented[`${input.rest_facility_class.toLowerCase()}_rest_facility`];
+    if (!facility) {
+      return null;
+    }
+
+    return input.augmenting_pilots >= 2
+      ? facility['2_additional_pilots']
+      : facility['1_additional_pilot'];
+  }
+
+  /**
+   * Check a planned extension against the hour cap, the twice-per-7-days cap and
+   * the sector limit for the WOCL encroachment
+   */
+  private checkExtension(input: FDPLimitInput, extensionHours: number): string[] {
+    const rules = this.rules.extension;
+    const violations: string[] = [];
+
+    if (extensionHours > rules.maximum_hours) {
+      violations.push(
+        `FDP extension of ${extensionHours} hours exceeds the ${rules.maximum_hours}-hour maximum`
+      );
+    }
+
+    if (input.extensions_in_prior_7_days >= rules.maximum_per_7_days) {
+      violations.push(
+        `FDP already extended ${input.extensions_in_prior_7_days} times in the prior 7 days (maximum ${rules.maximum_per_7_days})`
+      );
+    }
+
+    const maximumSectors =
+      input.wocl_encroachment_minutes === 0
+        ? rules.maximum_sectors.no_wocl_encroachment
+        : input.wocl_encroachment_minutes <= 120
+          ? rules.maximum_sectors.wocl_encroachment_up_to_2_hours
+          : rules.maximum_sectors.wocl_encroachment_over_2_hours;
+    if (input.segments > maximumSectors) {
+      violations.push(
+        `Extended FDP limited to ${maximumSectors} sectors with ${input.wocl_encroachment_minutes} minutes of WOCL encroachment (${input.segments} planned)`
+      );
+    }
+
+    return violations;
+  }
+
+  /**
+   * Evaluate each rest opportunity as the break on the ground; only the longest
+   * is credited, and never alongside in-flight rest
+   */
+  private getSplitDutyRest(input: FDPLimitInput): SplitDutyRest[] {
+    const rules = this.rules.split_duty;
+    const opportunities = input.rest_opportunities.map((opportunity) => ({
+      ...opportunity,
+      rest_hours:
+        (new Date(opportunity.end_utc).getTime() - new Date(opportunity.start_utc).getTime()) /
+        (1000 * 60 * 60),
+    }));
+    const longest = opportunities.reduce(
+      (best, opportunity, index) =>
+        opportunity.rest_hours > opportunities[best].rest_hours ? index : best,
+      0
+    );
+
+    return opportunities.map((opportunity, index) => {
+      const credit = this.getSplitDutyCredit(opportunity.rest_hours);
+
+      let reason: string | undefined;
+      if (input.augmenting_pilots > 0) {
+        reason = 'Split duty cannot be combined with in-flight rest';
+      } else if (index !== longest) {
+        reason = 'Only one break on the ground is credited per FDP';
+      } else if (credit === 0) {
+        reason = `${opportunity.rest_hours.toFixed(1)}-hour break is shorter than the ${rules.minimum_break_hours + rules.post_and_pre_flight_duty_hours} hours required`;
+      }
+
+      return {
+        ...opportunity,
+        credited_hours: reason ? 0 : credit,
+        reason,
+      };
+    });
+  }
+
+  /**
+   * FDP increase for a break on the ground: half of the break, excluding post- and
+   * pre-flight duties, once that is at least the minimum break
+   */
+  private getSplitDutyCredit(breakHours: number): number {
+    const rules = this.rules.split_duty;
+    const effectiveBreak = breakHours - rules.post_and_pre_flight_duty_hours;
+    if (effectiveBreak < rules.minimum_break_hours) {
+      return 0;
+    }
+    return effectiveBreak * rules.credit_fraction;
+  }
+}
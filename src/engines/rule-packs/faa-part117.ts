@@ -0,0 +1,358 @@
+/**
+ * FAA Part 117 Rule Pack
+ * Flightcrew member duty and rest requirements (14 CFR Part 117)
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import type {
+  ReserveType,
+  RestFacilityClass,
+  SplitDutyRest,
+} from '../../types/qualifications.js';
+import type {
+  AcclimationRule,
+  ConsecutiveNightRule,
+  CumulativeLimits,
+  FDPLimit,
+  FDPLimitInput,
+  FlightTimeLimits,
+  RegulatedRule,
+  ReserveRule,
+  RulePack,
+  UnforeseenExtensionRule,
+  WeeklyRestRule,
+} from '../../types/rule-pack.js';
+import { localWindowOverlapHours } from '../../utils/date-utils.js';
+import { logger } from '../../utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const CITATIONS: Record<RegulatedRule, string> = {
+  MINIMUM_REST: '14 CFR 117.25(e)',
+  WEEKLY_REST: '14 CFR 117.25(b)',
+  FDP_LIMIT: '14 CFR 117.13',
+  FDP_LIMIT_AUGMENTED: '14 CFR 117.17',
+  FDP_EXTENSION: '14 CFR 117.19',
+  FDP_UNFORESEEN_EXTENSION: '14 CFR 117.19(a)',
+  FDP_SPLIT_DUTY: '14 CFR 117.15',
+  FLIGHT_TIME_28_DAY: '14 CFR 117.23(b)(1)',
+  FLIGHT_TIME_365_DAY: '14 CFR 117.23(b)(2)',
+  CUMULATIVE_FDP_168_HOUR: '14 CFR 117.23(c)(1)',
+  CUMULATIVE_FDP_672_HOUR: '14 CFR 117.23(c)(2)',
+  CUMULATIVE_DUTY_336_HOUR: '14 CFR 117.23(c)',
+  FLIGHT_TIME_CALENDAR_YEAR: '14 CFR 117.23(b)',
+  CONSECUTIVE_NIGHTS: '14 CFR 117.27',
+  RESERVE: '14 CFR 117.21',
+};
+
+interface FAARule {
+  flight_time_limits: any;
+  fdp_limits: any;
+  cumulative_limitations: any;
+  rest_requirements: any;
+  acclimation: any;
+  wocl: any;
+  reserve: any;
+  consecutive_nighttime_operations: any;
+  exceptions: any;
+}
+
+/**
+ * Load FAA Part 117 rules
+ */
+function loadFAARules(): FAARule {
+  try {
+    const rulesPath = join(__dirname, '../../rules/faa-part117-rules.json');
+    const rulesContent = readFileSync(rulesPath, 'utf-8');
+    return JSON.parse(rulesContent);
+  } catch (error) {
+    logger.error('Failed to load FAA Part 117 rules:', error);
+    throw new Error('Could not load FAA Part 117 regulations');
+  }
+}
+
+export class FAAPart117RulePack implements RulePack {
+  readonly id = 'FAA_PART117' as const;
+  readonly name = 'FAA Part 117';
+  private rules: FAARule;
+
+  constructor() {
+    this.rules = loadFAARules();
+  }
+
+  /**
+   * Table B (unaugmented) or Table C (augmented) limit by acclimated report time
+   * Unacclimated crew get Table B reduced by 30 minutes
+   */
+  getFDPLimit(input: FDPLimitInput): FDPLimit {
+    if (input.augmenting_pilots > 0) {
+      const timeBucket = this.getAugmentedTimeBucket(input.report_hour);
+      const limit = this.getAugmentedFDPLimit(
+        input.augmenting_pilots,
+        input.rest_facility_class,
+        timeBucket
+      );
+      if (!limit) {
+        return {
+          max_fdp_hours: 0,
+          fdp_table: 'AUGMENTED',
+          report_time_bucket: timeBucket,
+          extension_hours: 0,
+          split_duty_credit_hours: 0,
+          split_duty_rest: this.getSplitDutyRest(input),
+          violations: [
+            'Augmented operation requires an onboard rest facility class (CLASS_1, CLASS_2 or CLASS_3)',
+          ],
+        };
+      }
+      return {
+        max_fdp_hours: limit.maxFDPHours,
+        fdp_table: limit.fdpTable,
+        report_time_bucket: timeBucket,
+        extension_hours: 0,
+        split_duty_credit_hours: 0,
+        split_duty_rest: this.getSplitDutyRest(input),
+        violations: [],
+      };
+    }
+
+    const timeBucket = this.getUnaugmentedTimeBucket(input.report_hour);
+    let maxFDPHours = this.getUnaugmentedFDPLimit(input.segments, timeBucket);
+    if (!input.acclimation.is_acclimated) {
+      maxFDPHours -= this.rules.acclimation.unacclimated_fdp_reduction_hours;
+    }
+
+    const splitDutyRest = this.getSplitDutyRest(input);
+    const splitDutyCredit = splitDutyRest.reduce((sum, rest) => sum + rest.credited_hours, 0);
+
+    return {
+      max_fdp_hours: maxFDPHours + splitDutyCredit,
+      fdp_table: 'UNAUGMENTED',
+      report_time_bucket: timeBucket,
+      extension_hours: 0,
+      split_duty_credit_hours: splitDutyCredit,
+      split_duty_rest: splitDutyRest,
+      violations: [],
+    };
+  }
+
+  /**
+   * Minimum rest required after a flight duty period of the given length
+   */
+  getMinimumRestHours(previousDutyHours: number, _atHomeBase: boolean): number {
+    if (previousDutyHours <= 9) {
+      return 10;
+    } else if (previousDutyHours <= 13) {
+      return 11;
+    }
+    return 12;
+  }
+
+  getWeeklyRest(): WeeklyRestRule {
+    const weeklyRest = this.rules.rest_requirements['30_hour_rest'];
+    return {
+      minimum_hours: weeklyRest.minimum_hours,
+      period_hours: 168,
+      local_nights_required: weeklyRest.must_include_local_night ? 1 : 0,
+      local_night: weeklyRest.local_night,
+    };
+  }
+
+  getAcclimation(): AcclimationRule {
+    return this.rules.acclimation;
+  }
+
+  getFlightTimeLimits(): FlightTimeLimits {
+    return {
+      rolling_28_day_hours: this.rules.flight_time_limits.rolling_28_day.limit_hours,
+      rolling_365_day_hours: this.rules.flight_time_limits.rolling_365_day.limit_hours,
+      calendar_year_hours: null,
+    };
+  }
+
+  getCumulativeFDPLimits(): CumulativeLimits {
+    const fdp = this.rules.cumulative_limitations.flight_duty_period;
+    return {
+      basis: 'FDP',
+      rolling_168_hour_hours: fdp['168_consecutive_hours'].limit_hours,
+      rolling_336_hour_hours: null,
+      rolling_672_hour_hours: fdp['672_consecutive_hours'].limit_hours,
+    };
+  }
+
+  getUnforeseenExtension(): UnforeseenExtensionRule {
+    const rule = this.rules.exceptions.unforeseen_circumstances;
+    return {
+      maximum_hours: rule.max_extension_hours,
+      maximum_hours_augmented: rule.max_extension_hours_augmented,
+      report_required_above_minutes: rule.report_required_above_minutes,
+      report_due_days: rule.report_due_days,
+      reportable_per_168_hours: rule.reportable_extensions_per_168_hours,
+    };
+  }
+
+  /**
+   * Airport reserve is FDP; a short-call reserve availability period is capped
+   * together with the FDP assigned from it
+   */
+  getReserveRule(reserveType: ReserveType): ReserveRule {
+    const reserve = this.rules.reserve;
+    const noLimits: ReserveRule = {
+      max_hours: null,
+      counts_as_fdp: false,
+      fdp_reduction_after_hours: null,
+      reserve_plus_fdp_over_limit_hours: null,
+      reserve_plus_fdp_max_hours: null,
+      reserve_plus_fdp_max_hours_augmented: null,
+      minimum_notice_hours: 0,
+    };
+
+    switch (reserveType) {
+      case 'AIRPORT':
+        return {
+          ...noLimits,
+          max_hours: reserve.airport_reserve.max_period,
+          counts_as_fdp: reserve.airport_reserve.counts_as_fdp,
+        };
+      case 'SHORT_CALL':
+        return {
+          ...noLimits,
+          max_hours: reserve.short_call_reserve.max_daily_hours,
+          reserve_plus_fdp_over_limit_hours: reserve.short_call_reserve.rap_plus_fdp.over_fdp_limit_hours,
+          reserve_plus_fdp_max_hours: reserve.short_call_reserve.rap_plus_fdp.max_hours_unaugmented,
+          reserve_plus_fdp_max_hours_augmented:
+            reserve.short_call_reserve.rap_plus_fdp.max_hours_augmented,
+        };
+      case 'LONG_CALL':
+        return {
+          ...noLimits,
+          minimum_notice_hours: reserve.long_call_reserve.minimum_notice_hours,
+        };
+    }
+  }
+
+  getConsecutiveNights(): ConsecutiveNightRule {
+    return this.rules.consecutive_nighttime_operations;
+  }
+
+  cite(rule: RegulatedRule): string {
+    return CITATIONS[rule];
+  }
+
+  /**
+   * Credit each rest opportunity of at least the minimum length inside the
+   * 2200-0500 home base window; the credit is the rest taken inside the window,
+   * so the FDP never grows by more than the time actually resting
+   */
+  private getSplitDutyRest(input: FDPLimitInput): SplitDutyRest[] {
+    const rule = this.rules.exceptions.split_duty;
+
+    return input.rest_opportunities.map((opportunity) => {
+      const start = new Date(opportunity.start_utc);
+      const end = new Date(opportunity.end_utc);
+      const restHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+      const windowHours = localWindowOverlapHours(
+        start,
+        end,
+        input.home_base_timezone,
+        rule.rest_window.start_time,
+        rule.rest_window.end_time
+      );
+
+      let reason: string | undefined;
+      if (input.augmenting_pilots > 0 && !rule.applies_to_augmented) {
+        reason = 'Split duty does not apply to augmented operations';
+      } else if (windowHours < rule.minimum_rest_hours) {
+        reason = `${windowHours.toFixed(1)} hours of rest between ${rule.rest_window.start_time} and ${rule.rest_window.end_time} home base time (requires ${rule.minimum_rest_hours})`;
+      }
+
+      return {
+        ...opportunity,
+        rest_hours: restHours,
+        credited_hours: reason ? 0 : windowHours,
+        reason,
+      };
+    });
+  }
+
+  /**
+   * Map a local report hour to a Table B start-time bucket
+   */
+  private getUnaugmentedTimeBucket(reportHour: number): string {
+    if (reportHour >= 0 && reportHour <= 4) return '0000-0459';
+    if (reportHour === 5) return '0500-0559';
+    if (reportHour === 6) return '0600-0659';
+    if (reportHour >= 7 && reportHour <= 12) return '0700-1259';
+    if (reportHour >= 13 && reportHour <= 16) return '1300-1659';
+    if (reportHour >= 17 && reportHour <= 21) return '1700-2159';
+    if (reportHour === 22) return '2200-2259';
+    return '2300-2359';
+  }
+
+  /**
+   * Map a local report hour to a Table C start-time bucket
+   */
+  private getAugmentedTimeBucket(reportHour: number): string {
+    if (reportHour >= 0 && reportHour <= 5) return '0000-0559';
+    if (reportHour === 6) return '0600-0659';
+    if (reportHour >= 7 && reportHour <= 12) return '0700-1259';
+    if (reportHour >= 13 && reportHour <= 16) return '1300-1659';
+    return '1700-2359';
+  }
+
+  /**
+   * Look up the unaugmented FDP limit (Table B) by segments and start-time bucket
+   */
+  private getUnaugmentedFDPLimit(segments: number, timeBucket: string): number {
+    // Determine segment bucket
+    let segmentBucket: string;
+    if (segments <= 2) segmentBucket = '2_segments';
+    else if (segments === 3) segmentBucket = '3_segments';
+    else if (segments === 4) segmentBucket = '4_segments';
+    else if (segments === 5) segmentBucket = '5_segments';
+    else if (segments === 6) segmentBucket = '6_segments';
+    else segmentBucket = '7_plus_segments';
+
+    return (
+      this.rules.fdp_limits.unaugmented.limits_by_segments_and_start_time[segmentBucket]?.[
+        timeBucket
+      ] || 9.0
+    );
+  }
+
+  /**
+   * Look up the augmented FDP limit (Table C) by crew size, rest facility and start-time bucket
+   */
+  private getAugmentedFDPLimit(
+    augmentingPilots: number,
+    restFacilityClass: RestFacilityClass | undefined,
+    timeBucket: string
+  ): { maxFDPHours: number; fdpTable: string } | null {
+    if (!restFacilityClass) {
+      return null;
+    }
+
+    const augmentedRules = this.rules.fdp_limits.augmented;
+    const facilityKey = `${restFacilityClass.toLowerCase()}_rest_facility`;
+    const facility = augmentedRules[facilityKey];
+    if (!facility) {
+      return null;
+    }
+
+    // More than two augmenting pilots is still evaluated against the 4-pilot column
+    const pilotsBucket: string =
+      augmentedRules.pilots_by_augmentation[String(Math.min(augmentingPilots, 2))];
+
+    const maxFDPHours =
+      facility.limits_by_pilots_and_start_time[pilotsBucket]?.[timeBucket] ||
+      facility.max_fdp_hours;
+
+    return {
+      maxFDPHours,
+      fdpTable: `AUGMENTED_${restFacilityClass}_${pilotsBucket.toUpperCase()}`,
+    };
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Regulatory rule pack registry
+ * Resolves the rule pack that governs a crew member: their own override,
+ * then their operator certificate, then the configured default
+ */
+
+import config from '../../config/index.js';
+import type { CrewMember } from '../../types/crew.js';
+import type { RulePack, RulePackId } from '../../types/rule-pack.js';
+import { FAAPart117RulePack } from './faa-part117.js';
+import { EASAFTLRulePack } from './easa-ftl.js';
+
+const factories: Record<RulePackId, () => RulePack> = {
+  FAA_PART117: () => new FAAPart117RulePack(),
+  EASA_FTL: () => new EASAFTLRulePack(),
+};
+
+const loaded = new Map<RulePackId, RulePack>();
+
+/**
+ * Get a rule pack by id, loading its rules on first use
+ */
+export function getRulePack(id: RulePackId): RulePack {
+  const factory = factories[id];
+  if (!factory) {
+    throw new Error(`Unknown rule pack: ${id}`);
+  }
+
+  let pack = loaded.get(id);
+  if (!pack) {
+    pack = factory();
+    loaded.set(id, pack);
+  }
+  return pack;
+}
+
+/**
+ * Get the rule pack that governs a crew member
+ */
+export function resolveRulePack(crewMember: CrewMember): RulePack {
+  const operatorPack = crewMember.operator_certificate
+    ? config.compliance.operatorRulePacks[crewMember.operator_certificate]
+    : undefined;
+
+  return getRulePack(crewMember.rule_pack ?? operatorPack ?? config.compliance.defaultRulePack);
+}
+
+export { FAAPart117RulePack, EASAFTLRulePack };
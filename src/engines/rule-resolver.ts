@@ -0,0 +1,169 @@
+/**
+ * Pay Rule Resolver
+ * Resolves the pay rule that applies to a crew member: an active, effective
+ * database rule overrides the static JSON default for its rule type, with
+ * position- and union-specific rules taking precedence over general ones
+ */
+
+import type { CrewMember } from '../types/crew.js';
+import type { PayCalculationRule, PayRuleType, ResolvedPayRule } from '../types/pay.js';
+
+export class RuleResolver {
+  private staticRules: Record<string, any>;
+  private dbRules: PayCalculationRule[] = [];
+
+  constructor(staticRules: Record<string, any>) {
+    this.staticRules = staticRules;
+  }
+
+  /**
+   * Replace the database rules considered (already filtered to active and effective)
+   */
+  setDatabaseRules(rules: PayCalculationRule[]): void {
+    this.dbRules = rules;
+  }
+
+  /**
+   * Resolve a rule for a crew member
+   * key picks the premium (night_flying, holiday, international, longevity) or
+   * training rate (simulator_training, classroom_training, line_check); a
+   * database rule's config is layered over the static default
+   */
+  resolve(ruleType: PayRuleType, crewMember: CrewMember, key?: string): ResolvedPayRule | null {
+    const staticRule = this.getStaticRule(ruleType, crewMember, key);
+    const dbRule = this.findDatabaseRule(ruleType, crewMember, key);
+
+    if (!dbRule) {
+      return staticRule;
+    }
+
+    return {
+      rule_type: ruleType,
+      rule_id: dbRule.rule_id,
+      rule_name: dbRule.rule_name,
+      version: String(dbRule.version),
+      source: 'DATABASE',
+      config: { ...(staticRule?.config || {}), ...dbRule.rule_config },
+    };
+  }
+
+  /**
+   * Most specific matching database rule: position before union, then the
+   * latest effective date and highest version
+   */
+  private findDatabaseRule(
+    ruleType: PayRuleType,
+    crewMember: CrewMember,
+    key?: string
+  ): PayCalculationRule | null {
+    const candidates = this.dbRules.filter(
+      (rule) =>
+        rule.rule_type === ruleType &&
+        (!rule.position || rule.position === crewMember.position) &&
+        (!rule.union_code || rule.union_code === crewMember.union_code) &&
+        (key === undefined || this.matchesKey(rule, key))
+    );
+
+    const specificity = (rule: PayCalculationRule) =>
+      (rule.position ? 2 : 0) + (rule.union_code ? 1 : 0);
+
+    candidates.sort(
+      (a, b) =>
+        specificity(b) - specificity(a) ||
+        new Date(b.effective_date).getTime() - new Date(a.effective_date).getTime() ||
+        b.version - a.version
+    );
+
+    return candidates[0] || null;
+  }
+
+  /**
+   * A keyed rule names its key in rule_config.rule_key, or by its rule name
+   * (e.g. "Night Flying Premium" for night_flying)
+   */
+  private matchesKey(rule: PayCalculationRule, key: string): boolean {
+    if (rule.rule_config?.rule_key) {
+      return rule.rule_config.rule_key === key;
+    }
+    const name = rule.rule_name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_');
+    return name.startsWith(key);
+  }
+
+  /**
+   * Static default from pay-calculation-rules.json, flattened to the shape a
+   * database rule_config uses
+   */
+  private getStaticRule(
+    ruleType: PayRuleType,
+    crewMember: CrewMember,
+    key?: string
+  ): ResolvedPayRule | null {
+    const rules = this.staticRules;
+    let path: string;
+    let config: Record<string, any> | undefined;
+
+    switch (ruleType) {
+      case 'BASE_PAY': {
+        const section =
+          crewMember.crew_type === 'PILOT' ? 'pilot_base_pay' : 'flight_attendant_base_pay';
+        path = `${section}.${crewMember.position}`;
+        config = rules[section]?.positions?.[crewMember.position];
+        break;
+      }
+      case 'PER_DIEM': {
+        const rates = rules.per_diem?.rates;
+        path = 'per_diem';
+        config = rates && {
+          rate_per_hour: rates.domestic?.rate_per_hour,
+          minimum_hours: rates.domestic?.minimum_hours,
+          international_rate_per_hour: rates.international?.rate_per_hour,
+        };
+        break;
+      }
+      case 'PREMIUM':
+        if (key === 'longevity') {
+          path = 'longevity_pay';
+          config = rules.longevity_pay;
+        } else {
+          path = `premium_pay.${key}`;
+          config = key ? rules.premium_pay?.premiums?.[key] : undefined;
+        }
+        break;
+      case 'OVERTIME':
+        path = 'overtime.monthly';
+        config = rules.overtime?.thresholds?.monthly;
+        break;
+      case 'GUARANTEE':
+        path = `guarantee.${crewMember.position}`;
+        config = rules.guarantee?.rules?.monthly_guarantee?.positions?.[crewMember.position];
+        break;
+      case 'DEADHEAD':
+        path = 'deadhead_pay';
+        config = rules.deadhead_pay?.rate;
+        break;
+      case 'TRAINING':
+        path = `training_pay.${key}`;
+        config = key ? rules.training_pay?.rates?.[key] : undefined;
+        break;
+      case 'CREDIT':
+        path = 'credit_rules';
+        config = rules.credit_rules;
+        break;
+      default:
+        return null;
+    }
+
+    if (!config) {
+      return null;
+    }
+
+    return {
+      rule_type: ruleType,
+      rule_id: `static:${path}`,
+      rule_name: path,
+      version: String(rules.version ?? 'static'),
+      source: 'STATIC',
+      config,
+    };
+  }
+}
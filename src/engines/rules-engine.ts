@@ -7,13 +7,37 @@ import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { getPayCalculationRules } from '../db/queries.js';
-import type { PayCalculationRule } from '../types/pay.js';
-import type { CrewMember } from '../types/crew.js';
+import { CreditCalculator } from './credit-calculator.js';
+import { RuleResolver } from './rule-resolver.js';
+import type {
+  CreditRules,
+  CreditSummary,
+  DutyPeriodHours,
+  PayCalculationRule,
+  PayRuleType,
+  ResolvedPayRule,
+  TrainingPayEvent,
+  Trip,
+} from '../types/pay.js';
+import type { CrewMember, TrainingEventFormat } from '../types/crew.js';
 import { logger } from '../utils/logger.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Training event formats and their rates in pay-calculation-rules.json
+const TRAINING_RATE_KEYS: Record<TrainingEventFormat, string> = {
+  SIMULATOR: 'simulator_training',
+  CLASSROOM: 'classroom_training',
+  LINE_CHECK: 'line_check',
+};
+
+const TRAINING_RULE_NAMES: Record<TrainingEventFormat, string> = {
+  SIMULATOR: 'Simulator Training',
+  CLASSROOM: 'Classroom Training',
+  LINE_CHECK: 'Line Check',
+};
+
 export interface PayContext {
   crewMember: CrewMember;
   periodStart: Date;
@@ -25,14 +49,35 @@ export interface PayContext {
   internationalTrips?: number;
   holidayHours?: number;
   yearsOfService?: number;
+  trips?: Trip[];
+  // Deadhead hours on each duty that included positioning
+  deadheadDutyHours?: number[];
+  trainingEvents?: TrainingPayEvent[];
+  // Duty periods to credit; base pay falls back to flight hours without them
+  dutyPeriods?: DutyPeriodHours[];
+  creditHours?: number;
 }
 
 export interface RuleApplication {
   ruleName: string;
-  ruleType: string;
+  ruleType: PayRuleType;
   amount: number;
   description: string;
   calculation: string;
+  // Rule that produced the amount (rule_id and version for the applied rules list)
+  rule?: ResolvedPayRule | null;
+}
+
+export interface PayRuleResults {
+  basePay: RuleApplication;
+  perDiem: RuleApplication;
+  premiumPay: RuleApplication[];
+  overtimePay: RuleApplication;
+  guaranteePay: RuleApplication;
+  deadheadPay: RuleApplication;
+  trainingPay: RuleApplication[];
+  credit: CreditSummary | null;
+  totalAmount: number;
 }
 
 /**
@@ -50,11 +95,13 @@ function loadStaticRules(): Record<string, any> {
 }
 
 export class RulesEngine {
-  private staticRules: Record<string, any>;
   private dbRules: PayCalculationRule[] = [];
+  private resolver: RuleResolver;
+  private creditCalculator: CreditCalculator;
 
   constructor() {
-    this.staticRules = loadStaticRules();
+    this.resolver = new RuleResolver(loadStaticRules());
+    this.creditCalculator = new CreditCalculator();
   }
 
   /**
@@ -67,6 +114,7 @@ export class RulesEngine {
   ): Promise<void> {
     try {
       this.dbRules = await getPayCalculationRules(crewType, position, effectiveDate);
+      this.resolver.setDatabaseRules(this.dbRules);
       logger.debug(`Loaded ${this.dbRules.length} rules from database`, {
         crewType,
         position,
@@ -74,22 +122,55 @@ export class RulesEngine {
     } catch (error) {
       logger.error('Failed to load database rules:', error);
       this.dbRules = [];
+      this.resolver.setDatabaseRules([]);
     }
   }
 
   /**
-   * Calculate base pay
+   * Credit rules for a crew member's union
+   * A CREDIT rule for the union overrides the static defaults, then one for all unions
    */
-  calculateBasePay(context: PayContext): RuleApplication {
-    const { crewMember, flightHours } = context;
+  getCreditRules(crewMember: CrewMember): CreditRules {
+    const rule = this.resolver.resolve('CREDIT', crewMember);
+    const config = rule?.config || {};
+    const dbRule =
+      rule?.source === 'DATABASE' ? this.dbRules.find(r => r.rule_id === rule.rule_id) : undefined;
 
-    // Get base pay rate from static rules
-    const basePayRules = this.staticRules[
-      crewMember.crew_type === 'PILOT' ? 'pilot_base_pay' : 'flight_attendant_base_pay'
-    ];
+    return {
+      rule_id: rule?.rule_id || null,
+      version: rule?.version || null,
+      union_code: dbRule?.union_code || null,
+      minimum_day_hours: config.minimum_day_hours ?? 0,
+      duty_rig_ratio: config.duty_rig_ratio ?? null,
+      trip_rig_ratio: config.trip_rig_ratio ?? null,
+      pay_scheduled_block: config.pay_scheduled_block ?? false,
+    };
+  }
 
-    const positionRates = basePayRules?.positions?.[crewMember.position];
-    if (!positionRates) {
+  /**
+   * Calculate credit for the duty periods and trips in the pay period
+   */
+  calculateCredit(context: PayContext): CreditSummary | null {
+    if (!context.dutyPeriods) {
+      return null;
+    }
+    return this.creditCalculator.calculate(
+      context.dutyPeriods,
+      context.trips || [],
+      this.getCreditRules(context.crewMember)
+    );
+  }
+
+  /**
+   * Calculate base pay on credit hours, or flight hours when no credit was computed
+   */
+  calculateBasePay(context: PayContext): RuleApplication {
+    const { crewMember } = context;
+    const paidHours = context.creditHours ?? context.flightHours;
+    const hoursLabel = context.creditHours !== undefined ? 'credit hours' : 'hours';
+
+    const rule = this.resolver.resolve('BASE_PAY', crewMember);
+    if (!rule?.config.hourly_rate) {
       logger.warn(`No base pay rate found for ${crewMember.position}`);
       return {
         ruleName: 'Base Pay',
@@ -100,15 +181,16 @@ export class RulesEngine {
       };
     }
 
-    const hourlyRate = positionRates.hourly_rate;
-    const amount = flightHours * hourlyRate;
+    const hourlyRate = rule.config.hourly_rate;
+    const amount = paidHours * hourlyRate;
 
     return {
       ruleName: 'Base Pay',
       ruleType: 'BASE_PAY',
       amount,
       description: `Base pay at $${hourlyRate}/hour`,
-      calculation: `${flightHours.toFixed(2)} hours × $${hourlyRate} = $${amount.toFixed(2)}`,
+      calculation: `${paidHours.toFixed(2)} ${hoursLabel} × $${hourlyRate} = $${amount.toFixed(2)}`,
+      rule,
     };
   }
 
@@ -118,9 +200,13 @@ export class RulesEngine {
   calculatePerDiem(context: PayContext): RuleApplication {
     const { dutyHours } = context;
 
-    const perDiemRules = this.staticRules.per_diem;
-    const domesticRate = perDiemRules?.rates?.domestic?.rate_per_hour || 2.5;
-    const minimumHours = perDiemRules?.rates?.domestic?.minimum_hours || 4;
+    const rule = this.resolver.resolve('PER_DIEM', context.crewMember);
+    if (context.trips && context.trips.length > 0) {
+      return this.calculateTripPerDiem(context.trips, rule);
+    }
+
+    const domesticRate = rule?.config.rate_per_hour || 2.5;
+    const minimumHours = rule?.config.minimum_hours || 4;
 
     if (dutyHours < minimumHours) {
       return {
@@ -140,6 +226,61 @@ export class RulesEngine {
       amount,
       description: `Per diem at $${domesticRate}/hour`,
       calculation: `${dutyHours.toFixed(2)} hours × $${domesticRate} = $${amount.toFixed(2)}`,
+      rule,
+    };
+  }
+
+  /**
+   * Calculate per diem on time away from base (TAFB) across trips
+   * Each trip segment is paid at the domestic or international rate
+   */
+  private calculateTripPerDiem(trips: Trip[], rule: ResolvedPayRule | null): RuleApplication {
+    const domesticRate = rule?.config.rate_per_hour || 2.5;
+    const internationalRate = rule?.config.international_rate_per_hour || 3.0;
+    const minimumHours = rule?.config.minimum_hours || 4;
+
+    let domesticHours = 0;
+    let internationalHours = 0;
+    let tripsPaid = 0;
+
+    for (const trip of trips) {
+      // Trips shorter than the minimum earn no per diem
+      if (trip.tafb_hours < minimumHours) {
+        continue;
+      }
+      tripsPaid++;
+
+      for (const segment of trip.segments) {
+        if (segment.is_international) {
+          internationalHours += segment.tafb_hours;
+        } else {
+          domesticHours += segment.tafb_hours;
+        }
+      }
+    }
+
+    const tafbHours = domesticHours + internationalHours;
+    if (tripsPaid === 0) {
+      return {
+        ruleName: 'Per Diem',
+        ruleType: 'PER_DIEM',
+        amount: 0,
+        description: 'Per diem (below minimum)',
+        calculation: `No trips with TAFB of at least ${minimumHours} hours`,
+      };
+    }
+
+    const amount = domesticHours * domesticRate + internationalHours * internationalRate;
+
+    return {
+      ruleName: 'Per Diem',
+      ruleType: 'PER_DIEM',
+      amount,
+      description: `Per diem on ${tafbHours.toFixed(2)} TAFB hours across ${tripsPaid} trip(s)`,
+      calculation:
+        `${domesticHours.toFixed(2)} domestic hours × $${domesticRate} + ` +
+        `${internationalHours.toFixed(2)} international hours × $${internationalRate} = $${amount.toFixed(2)}`,
+      rule,
     };
   }
 
@@ -148,18 +289,14 @@ export class RulesEngine {
    */
   calculatePremiumPay(context: PayContext): RuleApplication[] {
     const premiums: RuleApplication[] = [];
-    const premiumRules = this.staticRules.premium_pay?.premiums;
-
-    if (!premiumRules) {
-      return premiums;
-    }
+    const { crewMember } = context;
 
     // Night flying premium
     if (context.nightHours && context.nightHours > 0) {
-      const nightPremium = premiumRules.night_flying;
-      if (nightPremium && this.appliesToCrewType(nightPremium, context.crewMember)) {
-        const basePayRate = this.getBasePayRate(context.crewMember);
-        const multiplier = nightPremium.rate_multiplier || 1.5;
+      const nightPremium = this.resolver.resolve('PREMIUM', crewMember, 'night_flying');
+      if (nightPremium && this.appliesToCrewType(nightPremium.config, crewMember)) {
+        const basePayRate = this.getBasePayRate(crewMember);
+        const multiplier = nightPremium.config.rate_multiplier || 1.5;
         const amount = context.nightHours * basePayRate * (multiplier - 1);
 
         premiums.push({
@@ -168,16 +305,17 @@ export class RulesEngine {
           amount,
           description: `Night hours premium at ${multiplier}x`,
           calculation: `${context.nightHours.toFixed(2)} hours × $${basePayRate} × ${multiplier - 1} = $${amount.toFixed(2)}`,
+          rule: nightPremium,
         });
       }
     }
 
     // Holiday premium
     if (context.holidayHours && context.holidayHours > 0) {
-      const holidayPremium = premiumRules.holiday;
+      const holidayPremium = this.resolver.resolve('PREMIUM', crewMember, 'holiday');
       if (holidayPremium) {
-        const basePayRate = this.getBasePayRate(context.crewMember);
-        const multiplier = holidayPremium.rate_multiplier || 2.0;
+        const basePayRate = this.getBasePayRate(crewMember);
+        const multiplier = holidayPremium.config.rate_multiplier || 2.0;
         const amount = context.holidayHours * basePayRate * (multiplier - 1);
 
         premiums.push({
@@ -186,31 +324,34 @@ export class RulesEngine {
           amount,
           description: `Holiday hours premium at ${multiplier}x`,
           calculation: `${context.holidayHours.toFixed(2)} hours × $${basePayRate} × ${multiplier - 1} = $${amount.toFixed(2)}`,
+          rule: holidayPremium,
         });
       }
     }
 
     // International trips
     if (context.internationalTrips && context.internationalTrips > 0) {
-      const intlPremium = premiumRules.international;
+      const intlPremium = this.resolver.resolve('PREMIUM', crewMember, 'international');
       if (intlPremium) {
-        const amount = context.internationalTrips * intlPremium.flat_amount;
+        const flatAmount = intlPremium.config.flat_amount || 0;
+        const amount = context.internationalTrips * flatAmount;
 
         premiums.push({
           ruleName: 'International Premium',
           ruleType: 'PREMIUM',
           amount,
           description: 'International flight premium',
-          calculation: `${context.internationalTrips} trips × $${intlPremium.flat_amount} = $${amount.toFixed(2)}`,
+          calculation: `${context.internationalTrips} trips × $${flatAmount} = $${amount.toFixed(2)}`,
+          rule: intlPremium,
         });
       }
     }
 
     // Longevity pay
     if (context.yearsOfService !== undefined) {
-      const longevityRules = this.staticRules.longevity_pay;
-      if (longevityRules) {
-        const tier = this.getLongevityTier(context.yearsOfService, longevityRules.tiers);
+      const longevityRules = this.resolver.resolve('PREMIUM', crewMember, 'longevity');
+      if (longevityRules?.config.tiers) {
+        const tier = this.getLongevityTier(context.yearsOfService, longevityRules.config.tiers);
         if (tier && tier.percentage_increase > 0) {
           const basePay = this.calculateBasePay(context).amount;
           const amount = basePay * (tier.percentage_increase / 100);
@@ -221,6 +362,7 @@ export class RulesEngine {
             amount,
             description: `${tier.percentage_increase}% longevity increase`,
             calculation: `$${basePay.toFixed(2)} × ${tier.percentage_increase}% = $${amount.toFixed(2)}`,
+            rule: longevityRules,
           });
         }
       }
@@ -234,7 +376,7 @@ export class RulesEngine {
    */
   calculateOvertimePay(context: PayContext): RuleApplication {
     const { flightHours } = context;
-    const overtimeRules = this.staticRules.overtime;
+    const overtimeRules = this.resolver.resolve('OVERTIME', context.crewMember);
 
     if (!overtimeRules) {
       return {
@@ -246,8 +388,8 @@ export class RulesEngine {
       };
     }
 
-    const threshold = overtimeRules.thresholds?.monthly?.threshold_hours || 85;
-    const multiplier = overtimeRules.thresholds?.monthly?.rate_multiplier || 1.5;
+    const threshold = overtimeRules.config.threshold_hours || 85;
+    const multiplier = overtimeRules.config.rate_multiplier || 1.5;
 
     if (flightHours <= threshold) {
       return {
@@ -269,6 +411,7 @@ export class RulesEngine {
       amount,
       description: `Overtime at ${multiplier}x over ${threshold} hours`,
       calculation: `${overtimeHours.toFixed(2)} hours × $${basePayRate} × ${multiplier - 1} = $${amount.toFixed(2)}`,
+      rule: overtimeRules,
     };
   }
 
@@ -277,20 +420,8 @@ export class RulesEngine {
    */
   calculateGuaranteePay(context: PayContext, calculatedBasePay: number): RuleApplication {
     const { crewMember } = context;
-    const guaranteeRules = this.staticRules.guarantee;
-
-    if (!guaranteeRules) {
-      return {
-        ruleName: 'Guarantee',
-        ruleType: 'GUARANTEE',
-        amount: 0,
-        description: 'No guarantee',
-        calculation: 'No guarantee rules configured',
-      };
-    }
-
-    const positionGuarantee = guaranteeRules.rules?.monthly_guarantee?.positions?.[crewMember.position];
-    if (!positionGuarantee) {
+    const positionGuarantee = this.resolver.resolve('GUARANTEE', crewMember);
+    if (!positionGuarantee?.config.guaranteed_amount) {
       return {
         ruleName: 'Guarantee',
         ruleType: 'GUARANTEE',
@@ -300,8 +431,8 @@ export class RulesEngine {
       };
     }
 
-    const guaranteedAmount = positionGuarantee.guaranteed_amount;
-    const guaranteedHours = positionGuarantee.guaranteed_hours;
+    const guaranteedAmount = positionGuarantee.config.guaranteed_amount;
+    const guaranteedHours = positionGuarantee.config.guaranteed_hours;
 
     // If actual pay is less than guarantee, pay the difference
     if (calculatedBasePay < guaranteedAmount) {
@@ -312,6 +443,7 @@ export class RulesEngine {
         amount,
         description: `Guarantee minimum (${guaranteedHours} hours)`,
         calculation: `$${guaranteedAmount} guarantee - $${calculatedBasePay.toFixed(2)} actual = $${amount.toFixed(2)}`,
+        rule: positionGuarantee,
       };
     }
 
@@ -324,16 +456,141 @@ export class RulesEngine {
     };
   }
 
+  /**
+   * Calculate deadhead pay
+   * Positioning is paid at a share of the base rate, with a minimum per duty
+   */
+  calculateDeadheadPay(context: PayContext): RuleApplication {
+    const deadheadRule = this.resolver.resolve('DEADHEAD', context.crewMember);
+    const dutyHours = (context.deadheadDutyHours || []).filter(hours => hours > 0);
+
+    if (!deadheadRule) {
+      return {
+        ruleName: 'Deadhead Pay',
+        ruleType: 'DEADHEAD',
+        amount: 0,
+        description: 'No deadhead pay',
+        calculation: 'No deadhead rules configured',
+      };
+    }
+
+    if (dutyHours.length === 0) {
+      return {
+        ruleName: 'Deadhead Pay',
+        ruleType: 'DEADHEAD',
+        amount: 0,
+        description: 'No deadhead in period',
+        calculation: 'No deadhead segments recorded',
+      };
+    }
+
+    const percentage = deadheadRule.config.percentage_of_base ?? 50;
+    const minimumHours = deadheadRule.config.minimum_hours ?? 0;
+    const basePayRate = this.getBasePayRate(context.crewMember);
+
+    const deadheadHours = dutyHours.reduce((sum, hours) => sum + hours, 0);
+    const paidHours = dutyHours.reduce((sum, hours) => sum + Math.max(hours, minimumHours), 0);
+    const amount = paidHours * basePayRate * (percentage / 100);
+
+    return {
+      ruleName: 'Deadhead Pay',
+      ruleType: 'DEADHEAD',
+      amount,
+      description: `Deadhead at ${percentage}% of base, minimum ${minimumHours} hours per duty`,
+      calculation:
+        `${deadheadHours.toFixed(2)} hours on ${dutyHours.length} duty(ies), paid as ` +
+        `${paidHours.toFixed(2)} hours × $${basePayRate} × ${percentage}% = $${amount.toFixed(2)}`,
+      rule: deadheadRule,
+    };
+  }
+
+  /**
+   * Calculate training pay, one application per training event
+   * A training day that was also a duty day pays only what the training rate
+   * adds over the credit (or, without credit, flight) pay already earned that day
+   */
+  calculateTrainingPay(
+    context: PayContext,
+    credit: CreditSummary | null = null
+  ): RuleApplication[] {
+    const basePayRate = this.getBasePayRate(context.crewMember);
+
+    // Base pay is on credit when it was computed, so that is what each duty day already earned
+    const creditByDay = new Map<string, number>();
+    for (const duty of credit?.trips.flatMap(trip => trip.duties) || []) {
+      const day = new Date(duty.duty_date).toISOString().split('T')[0];
+      creditByDay.set(day, (creditByDay.get(day) || 0) + duty.credit_hours);
+    }
+
+    return (context.trainingEvents || []).map(event => {
+      const ruleName = TRAINING_RULE_NAMES[event.event_format];
+      const date = event.date.toISOString().split('T')[0];
+      const rule = this.resolver.resolve(
+        'TRAINING',
+        context.crewMember,
+        TRAINING_RATE_KEYS[event.event_format]
+      );
+      const rate = rule?.config;
+
+      if (!rate || !this.appliesToCrewType(rate, context.crewMember)) {
+        return {
+          ruleName,
+          ruleType: 'TRAINING',
+          amount: 0,
+          description: `${event.training_type} training on ${date} (no rate for crew type)`,
+          calculation: `No ${ruleName.toLowerCase()} rate for ${context.crewMember.crew_type}`,
+        };
+      }
+
+      let trainingAmount: number;
+      let calculation: string;
+      if (rate.daily_rate !== undefined) {
+        trainingAmount = rate.daily_rate;
+        calculation = `1 day × $${rate.daily_rate}`;
+      } else if (event.duration_hours !== null) {
+        trainingAmount = event.duration_hours * rate.hourly_rate;
+        calculation = `${event.duration_hours.toFixed(2)} hours × $${rate.hourly_rate}`;
+      } else {
+        return {
+          ruleName,
+          ruleType: 'TRAINING',
+          amount: 0,
+          description: `${event.training_type} training on ${date} (duration not recorded)`,
+          calculation: 'Hourly rate requires the event duration',
+        };
+      }
+
+      // Prevent double pay: the day's duty pay is already in base pay
+      const paidHours = credit ? creditByDay.get(date) || 0 : event.same_day_flight_hours;
+      const dutyPay = paidHours * basePayRate;
+      const amount = Math.max(0, trainingAmount - dutyPay);
+      if (dutyPay > 0) {
+        calculation +=
+          ` = $${trainingAmount.toFixed(2)} - $${dutyPay.toFixed(2)} same-day ${credit ? 'credit' : 'flight'} pay` +
+          ` = $${amount.toFixed(2)}`;
+      } else {
+        calculation += ` = $${amount.toFixed(2)}`;
+      }
+
+      return {
+        ruleName,
+        ruleType: 'TRAINING',
+        amount,
+        description:
+          dutyPay > 0
+            ? `${event.training_type} training on ${date} (duty day, paid above flight pay)`
+            : `${event.training_type} training on ${date}`,
+        calculation,
+        rule,
+      };
+    });
+  }
+
   /**
    * Get base pay rate for a crew member
    */
   private getBasePayRate(crewMember: CrewMember): number {
-    const basePayRules = this.staticRules[
-      crewMember.crew_type === 'PILOT' ? 'pilot_base_pay' : 'flight_attendant_base_pay'
-    ];
-
-    const positionRates = basePayRules?.positions?.[crewMember.position];
-    return positionRates?.hourly_rate || 0;
+    return this.resolver.resolve('BASE_PAY', crewMember)?.config.hourly_rate || 0;
   }
 
   /**
@@ -368,14 +625,7 @@ export class RulesEngine {
   /**
    * Apply all rules and return complete breakdown
    */
-  async applyAllRules(context: PayContext): Promise<{
-    basePay: RuleApplication;
-    perDiem: RuleApplication;
-    premiumPay: RuleApplication[];
-    overtimePay: RuleApplication;
-    guaranteePay: RuleApplication;
-    totalAmount: number;
-  }> {
+  async applyAllRules(context: PayContext): Promise<PayRuleResults> {
     // Load database rules
     await this.loadDatabaseRules(
       context.crewMember.crew_type,
@@ -383,12 +633,20 @@ export class RulesEngine {
       context.periodStart
     );
 
+    // Credit hours replace flight hours for base pay when duty periods are known
+    const credit = this.calculateCredit(context);
+    if (credit) {
+      context = { ...context, creditHours: credit.credit_hours };
+    }
+
     // Calculate all components
     const basePay = this.calculateBasePay(context);
     const perDiem = this.calculatePerDiem(context);
     const premiumPay = this.calculatePremiumPay(context);
     const overtimePay = this.calculateOvertimePay(context);
     const guaranteePay = this.calculateGuaranteePay(context, basePay.amount);
+    const deadheadPay = this.calculateDeadheadPay(context);
+    const trainingPay = this.calculateTrainingPay(context, credit);
 
     // Calculate total
     const totalAmount =
@@ -396,7 +654,9 @@ export class RulesEngine {
       perDiem.amount +
       premiumPay.reduce((sum, p) => sum + p.amount, 0) +
       overtimePay.amount +
-      guaranteePay.amount;
+      guaranteePay.amount +
+      deadheadPay.amount +
+      trainingPay.reduce((sum, t) => sum + t.amount, 0);
 
     return {
       basePay,
@@ -404,6 +664,9 @@ export class RulesEngine {
       premiumPay,
       overtimePay,
       guaranteePay,
+      deadheadPay,
+      trainingPay,
+      credit,
       totalAmount,
     };
   }
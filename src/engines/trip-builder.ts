@@ -0,0 +1,142 @@
+/**
+ * Trip Builder
+ * Groups duty periods into trips (report at base to release at base) and
+ * splits time away from base (TAFB) across the legs flown
+ */
+
+import type { CrewMember, DutyTimeRecord, FlightSegment } from '../types/crew.js';
+import type { Trip, TripSegment } from '../types/pay.js';
+import { domesticRegion, getAirport } from '../utils/airports.js';
+import { logger } from '../utils/logger.js';
+
+export class TripBuilder {
+  /**
+   * Build trips from duty records and their flight segments
+   * A trip closes when a duty ends with a leg into the crew base; duties
+   * recorded without legs are treated as trips of their own
+   */
+  buildTrips(
+    dutyRecords: DutyTimeRecord[],
+    segments: FlightSegment[],
+    crewMember: CrewMember
+  ): Trip[] {
+    const baseAirport = crewMember.base_airport.toUpperCase();
+    const baseAirportRecord = getAirport(baseAirport);
+    if (!baseAirportRecord) {
+      logger.warn(`Unknown base airport ${baseAirport}, treating the base country as US`);
+    }
+    const baseCountry = baseAirportRecord?.country_code || 'US';
+
+    const duties = [...dutyRecords].sort(
+      (a, b) => new Date(a.duty_start_utc).getTime() - new Date(b.duty_start_utc).getTime()
+    );
+
+    const trips: Trip[] = [];
+    let current: { report: Date; duties: DutyTimeRecord[]; legs: FlightSegment[] } | null =
+      null;
+
+    for (const duty of duties) {
+      const legs = segments
+        .filter((s) => s.duty_id === duty.duty_id)
+        .sort((a, b) => a.segment_number - b.segment_number);
+
+      if (!current) {
+        current = { report: new Date(duty.duty_start_utc), duties: [], legs: [] };
+      }
+      current.duties.push(duty);
+      current.legs.push(...legs);
+
+      const lastLeg = legs[legs.length - 1];
+      if (!lastLeg || lastLeg.destination.toUpperCase() === baseAirport) {
+        trips.push(this.closeTrip(current, this.dutyEnd(duty), true, baseCountry));
+        current = null;
+      }
+    }
+
+    // Trip still away from base at the end of the records
+    if (current) {
+      const lastDuty = current.duties[current.duties.length - 1];
+      trips.push(this.closeTrip(current, this.dutyEnd(lastDuty), false, baseCountry));
+    }
+
+    return trips;
+  }
+
+  /**
+   * Check if a leg departs or arrives outside the base country; territories
+   * count as their parent country, and unknown stations as domestic
+   */
+  isInternationalSegment(segment: FlightSegment, baseCountry: string): boolean {
+    const baseRegion = domesticRegion(baseCountry);
+    return [segment.origin, segment.destination].some((code) => {
+      const airport = getAirport(code);
+      if (!airport) {
+        logger.warn(
+          `Unknown station ${code} on flight ${segment.flight_number}, treating it as domestic`
+        );
+        return false;
+      }
+      return domesticRegion(airport.country_code) !== baseRegion;
+    });
+  }
+
+  /**
+   * Finalize a trip and split its TAFB across legs
+   * Each leg owns the time from its block-out to the next leg's block-out,
+   * so a layover is paid at the rate of the leg that arrived there
+   */
+  private closeTrip(
+    trip: { report: Date; duties: DutyTimeRecord[]; legs: FlightSegment[] },
+    release: Date,
+    isComplete: boolean,
+    baseCountry: string
+  ): Trip {
+    const tripSegments: TripSegment[] = [];
+
+    if (trip.legs.length === 0) {
+      tripSegments.push({
+        is_international: false,
+        start: trip.report,
+        end: release,
+        tafb_hours: this.hoursBetween(trip.report, release),
+      });
+    } else {
+      trip.legs.forEach((leg, index) => {
+        const start = index === 0 ? trip.report : new Date(leg.out_utc);
+        const next = trip.legs[index + 1];
+        const end = next ? new Date(next.out_utc) : release;
+
+        tripSegments.push({
+          flight_number: leg.flight_number,
+          origin: leg.origin,
+          destination: leg.destination,
+          is_international: this.isInternationalSegment(leg, baseCountry),
+          start,
+          end,
+          tafb_hours: this.hoursBetween(start, end),
+        });
+      });
+    }
+
+    return {
+      report_utc: trip.report,
+      release_utc: release,
+      duty_ids: trip.duties.map((d) => d.duty_id),
+      tafb_hours: this.hoursBetween(trip.report, release),
+      is_international: tripSegments.some((s) => s.is_international),
+      is_complete: isComplete,
+      segments: tripSegments,
+    };
+  }
+
+  private dutyEnd(duty: DutyTimeRecord): Date {
+    const start = new Date(duty.duty_start_utc);
+    return duty.duty_end_utc
+      ? new Date(duty.duty_end_utc)
+      : new Date(start.getTime() + (duty.duty_time_minutes || 0) * 60 * 1000);
+  }
+
+  private hoursBetween(start: Date, end: Date): number {
+    return Math.max(0, (end.getTime() - start.getTime()) / (1000 * 60 * 60));
+  }
+}
@@ -15,6 +15,7 @@ import {
 import config from './config/index.js';
 import { logger } from './utils/logger.js';
 import { initializeDatabase, closeDatabase } from './db/connection.js';
+import { loadAirportReference } from './utils/airports.js';
 
 // Import all tool handlers
 import { getCrewQualificationsTool, handleGetCrewQualifications } from './tools/get-crew-qualifications.js';
@@ -25,6 +26,27 @@ import { getTrainingRequirementsTool, handleGetTrainingRequirements } from './to
 import { checkCertificationExpiryTool, handleCheckCertificationExpiry } from './tools/check-certification-expiry.js';
 import { getQualifiedCrewPoolTool, handleGetQualifiedCrewPool } from './tools/get-qualified-crew-pool.js';
 import { updateDutyTimeTool, handleUpdateDutyTime } from './tools/update-duty-time.js';
+import { lookupAirportTool, handleLookupAirport } from './tools/lookup-airport.js';
+import { createPairingTool, handleCreatePairing } from './tools/create-pairing.js';
+import { getPairingTool, handleGetPairing } from './tools/get-pairing.js';
+import { validatePairingTool, handleValidatePairing } from './tools/validate-pairing.js';
+import {
+  validatePairingLegalityTool,
+  handleValidatePairingLegality,
+} from './tools/validate-pairing-legality.js';
+import {
+  validateCrewComplementTool,
+  handleValidateCrewComplement,
+} from './tools/validate-crew-complement.js';
+import { applyFDPExtensionTool, handleApplyFDPExtension } from './tools/apply-fdp-extension.js';
+import {
+  getFDPExtensionReportsTool,
+  handleGetFDPExtensionReports,
+} from './tools/get-fdp-extension-reports.js';
+import {
+  checkReserveCalloutLegalityTool,
+  handleCheckReserveCalloutLegality,
+} from './tools/check-reserve-callout-legality.js';
 
 /**
  * Define all available MCP tools
@@ -38,6 +60,15 @@ const TOOLS = [
   checkCertificationExpiryTool,
   getQualifiedCrewPoolTool,
   updateDutyTimeTool,
+  lookupAirportTool,
+  createPairingTool,
+  getPairingTool,
+  validatePairingTool,
+  validatePairingLegalityTool,
+  validateCrewComplementTool,
+  applyFDPExtensionTool,
+  getFDPExtensionReportsTool,
+  checkReserveCalloutLegalityTool,
 ];
 
 /**
@@ -52,6 +83,15 @@ const TOOL_HANDLERS: Record<string, (args: unknown) => Promise<any>> = {
   'check-certification-expiry': handleCheckCertificationExpiry,
   'get-qualified-crew-pool': handleGetQualifiedCrewPool,
   'update-duty-time': handleUpdateDutyTime,
+  'lookup-airport': handleLookupAirport,
+  'create-pairing': handleCreatePairing,
+  'get-pairing': handleGetPairing,
+  'validate-pairing': handleValidatePairing,
+  'validate-pairing-legality': handleValidatePairingLegality,
+  'validate-crew-complement': handleValidateCrewComplement,
+  'apply-fdp-extension': handleApplyFDPExtension,
+  'get-fdp-extension-reports': handleGetFDPExtensionReports,
+  'check-reserve-callout-legality': handleCheckReserveCalloutLegality,
 };
 
 /**
@@ -65,6 +105,9 @@ async function main() {
     await initializeDatabase();
     logger.info('Database connected and verified');
 
+    // Load airport reference data (timezones, coordinates)
+    await loadAirportReference();
+
     // Create MCP server
     const server = new Server(
       {
@@ -113,6 +156,7 @@ async function main() {
     logger.info(`${config.mcp.name} v${config.mcp.version} running on stdio`);
     logger.info(`Environment: ${config.environment}`);
     logger.info(`FAA Part 117 Compliance: ${config.compliance.faaPart117Enabled ? 'ENABLED' : 'DISABLED'}`);
+    logger.info(`Default Rule Pack: ${config.compliance.defaultRulePack}`);
   } catch (error) {
     logger.error('Failed to start MCP server:', error);
     process.exit(1);
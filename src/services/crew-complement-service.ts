@@ -0,0 +1,258 @@
+/**
+ * Crew Complement Service
+ * Validates a full proposed cockpit and cabin crew for one flight: each
+ * member's individual legality plus the rules that depend on the crew as a whole
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  getAircraftTypeRatings,
+  getBlockMinutesInType,
+  getCrewMember,
+} from '../db/queries.js';
+import { LegalityValidator } from '../engines/legality-validator.js';
+import { FADutyValidator } from '../engines/fa-duty-validator.js';
+import type { CrewMember } from '../types/crew.js';
+import type {
+  ComplementRole,
+  CrewComplementInput,
+  CrewComplementMember,
+  CrewComplementValidation,
+  RuleViolation,
+} from '../types/qualifications.js';
+import { logger } from '../utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+interface CrewComplementRules {
+  inexperienced_pairing: { regulation: string; minimum_hours_in_type: number };
+  flight_attendants: {
+    regulation: string;
+    by_seats: Array<{ min_seats: number; max_seats: number; required: number }>;
+    over_100: { base_required: number; additional_per_seats: number };
+  };
+  lead_flight_attendant: { required_when_flight_attendants_at_least: number };
+  seat_capacity_by_aircraft: Record<string, number>;
+}
+
+/**
+ * Load crew complement rules from JSON file
+ */
+function loadCrewComplementRules(): CrewComplementRules {
+  try {
+    const rulesPath = join(__dirname, '../rules/crew-complement-rules.json');
+    return JSON.parse(readFileSync(rulesPath, 'utf-8'));
+  } catch (error) {
+    logger.error('Failed to load crew complement rules:', error);
+    throw new Error('Could not load crew complement rules');
+  }
+}
+
+export class CrewComplementService {
+  private rules: CrewComplementRules;
+  private validator: LegalityValidator;
+  private faValidator: FADutyValidator;
+
+  constructor() {
+    this.rules = loadCrewComplementRules();
+    this.validator = new LegalityValidator();
+    this.faValidator = new FADutyValidator();
+  }
+
+  /**
+   * Validate a proposed crew complement for a flight
+   */
+  async validateComplement(input: CrewComplementInput): Promise<CrewComplementValidation> {
+    const aircraftType = input.duty.aircraft_type;
+    const violated: RuleViolation[] = [];
+
+    const assignments: Array<{ role: ComplementRole; identifier: string }> = [
+      { role: 'CAPTAIN', identifier: input.captain },
+      { role: 'FIRST_OFFICER', identifier: input.first_officer },
+      ...input.flight_attendants.map((identifier) => ({
+        role: 'FLIGHT_ATTENDANT' as ComplementRole,
+        identifier,
+      })),
+    ];
+
+    // Cabin staffing above the minimum extends flight attendant duty limits
+    const seatCapacity =
+      input.seat_capacity ?? this.rules.seat_capacity_by_aircraft[aircraftType] ?? null;
+    const requiredFAs = seatCapacity !== null ? this.getRequiredFlightAttendants(seatCapacity) : null;
+    const faDuty = {
+      ...input.duty,
+      additional_flight_attendants:
+        requiredFAs !== null ? Math.max(0, input.flight_attendants.length - requiredFAs) : 0,
+    };
+
+    // Resolve each member and run their individual legality check
+    const members: CrewComplementMember[] = [];
+    const flightAttendants: CrewMember[] = [];
+
+    for (const { role, identifier } of assignments) {
+      const crewMember = await getCrewMember(identifier);
+      if (!crewMember) {
+        violated.push({
+          rule: 'CREW_NOT_FOUND',
+          regulation: 'Crew complement',
+          description: `${role} ${identifier} not found`,
+        });
+        members.push({ role, crew_identifier: identifier, legality: null });
+        continue;
+      }
+
+      const roleIssue = this.checkRole(role, crewMember);
+      if (roleIssue) {
+        violated.push(roleIssue);
+      }
+
+      if (role === 'FLIGHT_ATTENDANT') {
+        flightAttendants.push(crewMember);
+      }
+
+      const isPilot = crewMember.crew_type === 'PILOT';
+      const legality = isPilot
+        ? await this.validator.validateAssignment(crewMember.crew_id, input.duty)
+        : await this.faValidator.validateAssignment(crewMember.crew_id, faDuty);
+      if (!legality.is_legal) {
+        violated.push(
+          ...legality.violated_rules.map((rule) => ({
+            ...rule,
+            description: `${role} ${crewMember.employee_number}: ${rule.description}`,
+          }))
+        );
+      }
+
+      members.push({
+        role,
+        crew_identifier: identifier,
+        employee_number: crewMember.employee_number,
+        name: `${crewMember.first_name} ${crewMember.last_name}`,
+        position: crewMember.position,
+        hours_in_type: isPilot
+          ? await this.getHoursInType(crewMember, aircraftType)
+          : undefined,
+        legality,
+      });
+    }
+
+    // 121.438: captain and first officer may not both be inexperienced in type
+    const captainHours = members.find((m) => m.role === 'CAPTAIN')?.hours_in_type ?? null;
+    const firstOfficerHours =
+      members.find((m) => m.role === 'FIRST_OFFICER')?.hours_in_type ?? null;
+    const minimumHours = this.rules.inexperienced_pairing.minimum_hours_in_type;
+    const pairingCompliant = !(
+      captainHours !== null &&
+      firstOfficerHours !== null &&
+      captainHours < minimumHours &&
+      firstOfficerHours < minimumHours
+    );
+    if (!pairingCompliant) {
+      violated.push({
+        rule: 'INEXPERIENCED_PAIRING',
+        regulation: this.rules.inexperienced_pairing.regulation,
+        description: `Captain (${captainHours!.toFixed(1)}h) and first officer (${firstOfficerHours!.toFixed(1)}h) both have fewer than ${minimumHours} hours in ${aircraftType}`,
+      });
+    }
+
+    // 121.391: flight attendants by seat capacity
+    if (requiredFAs !== null && flightAttendants.length < requiredFAs) {
+      violated.push({
+        rule: 'FLIGHT_ATTENDANT_COUNT',
+        regulation: this.rules.flight_attendants.regulation,
+        description: `${seatCapacity} seats require ${requiredFAs} flight attendants; ${flightAttendants.length} assigned`,
+      });
+    } else if (requiredFAs === null) {
+      logger.warn(`No seat capacity on file for ${aircraftType}; flight attendant count not checked`);
+    }
+
+    // Lead FA
+    const leadPresent = flightAttendants.some((fa) => fa.position === 'LEAD_FA');
+    if (
+      !leadPresent &&
+      flightAttendants.length >=
+        this.rules.lead_flight_attendant.required_when_flight_attendants_at_least
+    ) {
+      violated.push({
+        rule: 'LEAD_FLIGHT_ATTENDANT',
+        regulation: 'Crew complement',
+        description: 'No Lead FA assigned to the cabin crew',
+      });
+    }
+
+    return {
+      is_legal: violated.length === 0,
+      violated_rules: violated,
+      inexperienced_pairing: {
+        captain_hours_in_type: captainHours,
+        first_officer_hours_in_type: firstOfficerHours,
+        minimum_hours_in_type: minimumHours,
+        is_compliant: pairingCompliant,
+      },
+      cabin_crew: {
+        seat_capacity: seatCapacity,
+        required_flight_attendants: requiredFAs,
+        assigned_flight_attendants: flightAttendants.length,
+        lead_fa_present: leadPresent,
+      },
+      members,
+    };
+  }
+
+  /**
+   * Flight attendants required for a seat capacity (121.391)
+   */
+  getRequiredFlightAttendants(seatCapacity: number): number {
+    const band = this.rules.flight_attendants.by_seats.find(
+      (b) => seatCapacity >= b.min_seats && seatCapacity <= b.max_seats
+    );
+    if (band) {
+      return band.required;
+    }
+
+    const { base_required, additional_per_seats } = this.rules.flight_attendants.over_100;
+    return base_required + Math.ceil((seatCapacity - 100) / additional_per_seats);
+  }
+
+  /**
+   * Line flight hours in type since the type rating was issued
+   */
+  private async getHoursInType(crewMember: CrewMember, aircraftType: string): Promise<number> {
+    const rating = (await getAircraftTypeRatings(crewMember.crew_id)).find(
+      (r) => r.aircraft_type === aircraftType
+    );
+    if (!rating) {
+      return 0;
+    }
+
+    const minutes = await getBlockMinutesInType(
+      crewMember.crew_id,
+      aircraftType,
+      new Date(rating.initial_date)
+    );
+    return Math.round((minutes / 60) * 10) / 10;
+  }
+
+  /**
+   * Check the crew member's position fits the seat they are assigned to
+   */
+  private checkRole(role: ComplementRole, crewMember: CrewMember): RuleViolation | null {
+    const fits =
+      role === 'CAPTAIN'
+        ? crewMember.position === 'CAPTAIN'
+        : role === 'FIRST_OFFICER'
+          ? crewMember.crew_type === 'PILOT'
+          : crewMember.crew_type === 'FLIGHT_ATTENDANT';
+
+    return fits
+      ? null
+      : {
+          rule: 'POSITION_MISMATCH',
+          regulation: 'Crew complement',
+          description: `${crewMember.employee_number} (${crewMember.position}) cannot fill the ${role} seat`,
+        };
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * FDP Extension Service
+ * Records unforeseen-circumstance FDP extensions once a duty has begun, and
+ * tracks the longer rest and the report to the authority they require
+ */
+
+import { addDays, differenceInCalendarDays, subDays } from 'date-fns';
+import {
+  getDutyTimeRecords,
+  getFDPExtensionReportsDue,
+  insertFDPExtension,
+} from '../db/queries.js';
+import { LegalityValidator } from '../engines/legality-validator.js';
+import { resolveRulePack } from '../engines/rule-packs/index.js';
+import type { CrewMember } from '../types/crew.js';
+import type {
+  ApplyFDPExtensionInput,
+  FDPExtension,
+  FDPExtensionReportDue,
+  FDPExtensionResult,
+} from '../types/qualifications.js';
+import { logger } from '../utils/logger.js';
+
+export class FDPExtensionService {
+  private validator: LegalityValidator;
+
+  constructor() {
+    this.validator = new LegalityValidator();
+  }
+
+  /**
+   * Re-check an in-progress duty with the extension and record it when the
+   * extended FDP is within the rule pack's limits
+   */
+  async applyExtension(
+    crewMember: CrewMember,
+    input: ApplyFDPExtensionInput
+  ): Promise<FDPExtensionResult> {
+    const rulePack = resolveRulePack(crewMember);
+    const rule = rulePack.getUnforeseenExtension();
+    const dutyStart = input.duty_start_utc;
+
+    // The duty being extended, as recorded so far
+    const dutyRecord = (
+      await getDutyTimeRecords(crewMember.crew_id, subDays(dutyStart, 1), addDays(dutyStart, 1))
+    ).find((d) => new Date(d.duty_start_utc).getTime() === dutyStart.getTime());
+
+    const recordedEnd = dutyRecord?.duty_end_utc ? new Date(dutyRecord.duty_end_utc) : null;
+    const scheduledEnd = input.scheduled_duty_end_utc ?? recordedEnd;
+    if (!scheduledEnd) {
+      throw new Error(
+        `No scheduled end for the duty starting ${dutyStart.toISOString()}; provide scheduled_duty_end_utc`
+      );
+    }
+    const extendedEnd = new Date(scheduledEnd.getTime() + input.extension_minutes * 60 * 1000);
+
+    const legality = await this.validator.validateAssignment(crewMember.crew_id, {
+      aircraft_type: input.aircraft_type,
+      duty_start_utc: dutyStart,
+      duty_end_utc: extendedEnd,
+      flight_time_minutes: dutyRecord?.flight_time_minutes || 0,
+      number_of_segments: input.number_of_segments ?? (dutyRecord?.flight_segments || 1),
+      augmenting_pilots: input.augmenting_pilots,
+      rest_facility_class: input.rest_facility_class,
+      report_airport: input.report_airport,
+      unforeseen_extension_minutes: input.extension_minutes,
+    });
+
+    const authorizedAt = input.authorized_at ?? new Date();
+    const reportRequired = input.extension_minutes > rule.report_required_above_minutes;
+    const reportDueDate = reportRequired ? addDays(authorizedAt, rule.report_due_days) : null;
+
+    // The rest after the extended duty grows by the extension
+    const extensionRestHours = input.extension_minutes / 60;
+    const extendedFDPHours = (extendedEnd.getTime() - dutyStart.getTime()) / (1000 * 60 * 60);
+    const restAirport = input.rest_airport ?? crewMember.base_airport;
+    const minimumRest =
+      rulePack.getMinimumRestHours(extendedFDPHours, restAirport === crewMember.base_airport) +
+      extensionRestHours;
+
+    let extension: FDPExtension | null = null;
+    if (legality.fdp_compliance.is_compliant) {
+      extension = await insertFDPExtension({
+        crew_id: crewMember.crew_id,
+        duty_id: dutyRecord?.duty_id,
+        duty_start_utc: dutyStart,
+        extension_minutes: input.extension_minutes,
+        extended_duty_end_utc: extendedEnd,
+        rule_pack: rulePack.id,
+        regulation: rulePack.cite('FDP_UNFORESEEN_EXTENSION'),
+        authorized_by: input.authorized_by,
+        reason: input.reason,
+        authorized_at: authorizedAt,
+        report_required: reportRequired,
+        report_due_date: reportDueDate ?? undefined,
+      });
+      logger.info('FDP extension recorded', {
+        crew_id: crewMember.crew_id,
+        extension_minutes: input.extension_minutes,
+        report_required: reportRequired,
+      });
+    } else {
+      logger.warn('FDP extension rejected', {
+        crew_id: crewMember.crew_id,
+        violations: legality.fdp_compliance.violations,
+      });
+    }
+
+    return {
+      extension,
+      extended_duty_end_utc: extendedEnd,
+      legality,
+      report: {
+        required: reportRequired,
+        due_date: reportDueDate,
+        regulation: rulePack.cite('FDP_UNFORESEEN_EXTENSION'),
+      },
+      next_rest: {
+        minimum_hours: minimumRest,
+        extension_rest_hours: extensionRestHours,
+        earliest_next_report_utc: new Date(extendedEnd.getTime() + minimumRest * 60 * 60 * 1000),
+      },
+    };
+  }
+
+  /**
+   * Extensions awaiting their report, with days until the report is due
+   */
+  async getReportsDue(
+    filters: { base_airport?: string; due_within_days?: number },
+    asOf: Date = new Date()
+  ): Promise<Array<FDPExtensionReportDue & { days_until_due: number; is_overdue: boolean }>> {
+    const reports = await getFDPExtensionReportsDue({
+      base_airport: filters.base_airport,
+      due_by:
+        filters.due_within_days !== undefined ? addDays(asOf, filters.due_within_days) : undefined,
+    });
+
+    return reports.map((report) => {
+      const daysUntilDue = report.report_due_date
+        ? differenceInCalendarDays(new Date(report.report_due_date), asOf)
+        : 0;
+      return {
+        ...report,
+        days_until_due: daysUntilDue,
+        is_overdue: daysUntilDue < 0,
+      };
+    });
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Pairing Service
+ * Creates, loads and validates pairings (trips spanning multiple duty periods)
+ */
+
+import {
+  getCrewMember,
+  getPairing,
+  getPairingDutyPeriods,
+  insertPairing,
+} from '../db/queries.js';
+import { LegalityValidator } from '../engines/legality-validator.js';
+import { resolveRulePack } from '../engines/rule-packs/index.js';
+import type {
+  CreatePairingInput,
+  Layover,
+  LayoverValidation,
+  PairingDetail,
+  PairingDutyPeriod,
+  PairingDutyValidation,
+  PairingValidation,
+} from '../types/pairing.js';
+import { logger } from '../utils/logger.js';
+
+export class PairingService {
+  private validator: LegalityValidator;
+
+  constructor() {
+    this.validator = new LegalityValidator();
+  }
+
+  /**
+   * Create a pairing from its duty periods
+   * Start/end come from the first report and last release; credit defaults
+   * to the total scheduled flight time
+   */
+  async createPairing(input: CreatePairingInput): Promise<PairingDetail> {
+    const duties = [...input.duty_periods].sort(
+      (a, b) => a.duty_start_utc.getTime() - b.duty_start_utc.getTime()
+    );
+
+    if (duties.length === 0) {
+      throw new Error('A pairing requires at least one duty period');
+    }
+
+    duties.forEach((duty, index) => {
+      if (duty.duty_end_utc <= duty.duty_start_utc) {
+        throw new Error(`Duty period ${index + 1} ends before it starts`);
+      }
+      const next = duties[index + 1];
+      if (next && next.duty_start_utc < duty.duty_end_utc) {
+        throw new Error(`Duty periods ${index + 1} and ${index + 2} overlap`);
+      }
+    });
+
+    const creditMinutes =
+      input.credit_minutes ??
+      duties.reduce((sum, duty) => sum + duty.flight_time_minutes, 0);
+
+    const { pairing, duty_periods } = await insertPairing(
+      {
+        trip_number: input.trip_number,
+        base_airport: input.base_airport.toUpperCase(),
+        crew_type: input.crew_type,
+        start_utc: duties[0].duty_start_utc,
+        end_utc: duties[duties.length - 1].duty_end_utc,
+        credit_minutes: creditMinutes,
+        status: input.status || 'PLANNED',
+      },
+      duties.map((duty, index) => ({
+        sequence_number: index + 1,
+        duty_start_utc: duty.duty_start_utc,
+        duty_end_utc: duty.duty_end_utc,
+        report_airport: duty.report_airport.toUpperCase(),
+        release_airport: duty.release_airport.toUpperCase(),
+        aircraft_type: duty.aircraft_type,
+        flight_time_minutes: duty.flight_time_minutes,
+        number_of_segments: duty.number_of_segments,
+      }))
+    );
+
+    logger.info('Pairing created', {
+      pairing_id: pairing.pairing_id,
+      trip_number: pairing.trip_number,
+      duty_periods: duty_periods.length,
+    });
+
+    return this.buildDetail(pairing, duty_periods);
+  }
+
+  /**
+   * Get a pairing with its duty periods and layovers
+   */
+  async getPairingDetail(identifier: string): Promise<PairingDetail | null> {
+    const pairing = await getPairing(identifier);
+    if (!pairing) {
+      return null;
+    }
+
+    const dutyPeriods = await getPairingDutyPeriods(pairing.pairing_id);
+    return this.buildDetail(pairing, dutyPeriods);
+  }
+
+  /**
+   * Validate every duty period and layover in a pairing for a crew member
+   */
+  async validatePairing(
+    identifier: string,
+    crewIdentifier: string
+  ): Promise<PairingValidation> {
+    const detail = await this.getPairingDetail(identifier);
+    if (!detail) {
+      throw new Error(`Pairing not found: ${identifier}`);
+    }
+
+    const crewMember = await getCrewMember(crewIdentifier);
+    if (!crewMember) {
+      throw new Error(`Crew member not found: ${crewIdentifier}`);
+    }
+    // Layover and duty checks below come from the pilot rule packs
+    if (crewMember.crew_type === 'FLIGHT_ATTENDANT') {
+      throw new Error(
+        `Pairing validation covers pilots only; validate flight attendant ${crewIdentifier} with validate-pairing-legality`
+      );
+    }
+
+    const violations: string[] = [];
+
+    // Simulate the duty periods in sequence so each sees the ones before it
+    const sequence = await this.validator.validateSequence(
+      crewMember.crew_id,
+      detail.duty_periods.map((duty) => ({
+        aircraft_type: duty.aircraft_type,
+        duty_start_utc: new Date(duty.duty_start_utc),
+        duty_end_utc: new Date(duty.duty_end_utc),
+        flight_time_minutes: duty.flight_time_minutes,
+        number_of_segments: duty.number_of_segments,
+        report_airport: duty.report_airport,
+      }))
+    );
+
+    const dutyValidations: PairingDutyValidation[] = detail.duty_periods.map(
+      (duty, index) => {
+        const result = sequence.results[index];
+        if (!result.is_legal) {
+          violations.push(
+            `Duty ${duty.sequence_number}: ${result.violated_rules.map((r) => r.description).join('; ')}`
+          );
+        }
+
+        return {
+          sequence_number: duty.sequence_number,
+          duty_start_utc: duty.duty_start_utc,
+          is_legal: result.is_legal,
+          result,
+        };
+      }
+    );
+
+    // Layover rest between the pairing's own duty periods
+    const rulePack = resolveRulePack(crewMember);
+    const layoverValidations: LayoverValidation[] = detail.layovers.map((layover) => {
+      const previous = detail.duty_periods[layover.after_duty - 1];
+      const previousFDPHours =
+        (new Date(previous.duty_end_utc).getTime() -
+          new Date(previous.duty_start_utc).getTime()) /
+        (1000 * 60 * 60);
+      const minimumRest = rulePack.getMinimumRestHours(
+        previousFDPHours,
+        layover.airport === crewMember.base_airport
+      );
+      const isCompliant = layover.rest_hours >= minimumRest;
+
+      if (!isCompliant) {
+        violations.push(
+          `Layover at ${layover.airport} after duty ${layover.after_duty}: ${layover.rest_hours.toFixed(1)} hours rest (requires ${minimumRest} hours)`
+        );
+      }
+
+      return {
+        ...layover,
+        minimum_rest_required: minimumRest,
+        is_compliant: isCompliant,
+      };
+    });
+
+    return {
+      pairing: detail.pairing,
+      crew_member: {
+        employee_number: crewMember.employee_number,
+        name: `${crewMember.first_name} ${crewMember.last_name}`,
+        position: crewMember.position,
+      },
+      is_legal:
+        dutyValidations.every((d) => d.is_legal) &&
+        layoverValidations.every((l) => l.is_compliant),
+      first_failure: sequence.first_failure
+        ? {
+            sequence_number:
+              detail.duty_periods[sequence.first_failure.index].sequence_number,
+            violated_rules: sequence.first_failure.violated_rules,
+          }
+        : null,
+      duty_validations: dutyValidations,
+      layover_validations: layoverValidations,
+      violations,
+    };
+  }
+
+  /**
+   * Derive layovers and TAFB from a pairing's duty periods
+   */
+  private buildDetail(
+    pairing: PairingDetail['pairing'],
+    dutyPeriods: PairingDutyPeriod[]
+  ): PairingDetail {
+    const layovers: Layover[] = [];
+    for (let i = 0; i < dutyPeriods.length - 1; i++) {
+      const restStart = new Date(dutyPeriods[i].duty_end_utc);
+      const restEnd = new Date(dutyPeriods[i + 1].duty_start_utc);
+      layovers.push({
+        airport: dutyPeriods[i].release_airport,
+        after_duty: dutyPeriods[i].sequence_number,
+        rest_start_utc: restStart,
+        rest_end_utc: restEnd,
+        rest_hours: (restEnd.getTime() - restStart.getTime()) / (1000 * 60 * 60),
+      });
+    }
+
+    const tafbHours =
+      (new Date(pairing.end_utc).getTime() - new Date(pairing.start_utc).getTime()) /
+      (1000 * 60 * 60);
+
+    return {
+      pairing,
+      duty_periods: dutyPeriods,
+      layovers,
+      tafb_hours: tafbHours,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Qualification Status Service
+ * Derives currency and expiry statuses from dates as of a given day,
+ * instead of trusting the stored status columns
+ */
+
+import { differenceInCalendarDays } from 'date-fns';
+import config from '../config/index.js';
+import type {
+  AircraftTypeRating,
+  MedicalCertificate,
+  RecurrentTraining,
+} from '../types/crew.js';
+
+export class QualificationStatusService {
+  private alertDays: number;
+
+  constructor(alertDays: number = config.compliance.alertDaysBeforeExpiry) {
+    this.alertDays = alertDays;
+  }
+
+  /**
+   * Days from the as-of date until a qualification lapses
+   * A qualification is valid through the whole of its expiration date
+   */
+  daysUntil(expirationDate: Date, asOf: Date = new Date()): number {
+    return differenceInCalendarDays(new Date(expirationDate), asOf);
+  }
+
+  /**
+   * Type rating currency from its next check due date
+   * Ratings without a scheduled check stay current
+   */
+  getRatingStatus(
+    rating: AircraftTypeRating,
+    asOf: Date = new Date()
+  ): AircraftTypeRating['currency_status'] {
+    if (!rating.next_check_due) {
+      return 'CURRENT';
+    }
+
+    const days = this.daysUntil(rating.next_check_due, asOf);
+    if (days < 0) return 'EXPIRED';
+    if (days <= this.alertDays) return 'EXPIRING_SOON';
+    return 'CURRENT';
+  }
+
+  /**
+   * Medical certificate status from its expiration date
+   */
+  getMedicalStatus(
+    medical: MedicalCertificate,
+    asOf: Date = new Date()
+  ): MedicalCertificate['status'] {
+    const days = this.daysUntil(medical.expiration_date, asOf);
+    if (days < 0) return 'EXPIRED';
+    if (days <= this.alertDays) return 'EXPIRING_SOON';
+    return 'VALID';
+  }
+
+  /**
+   * Training status from its next due date
+   */
+  getTrainingStatus(
+    training: RecurrentTraining,
+    asOf: Date = new Date()
+  ): RecurrentTraining['status'] {
+    const days = this.daysUntil(training.next_due_date, asOf);
+    if (days < 0) return 'OVERDUE';
+    if (days <= this.alertDays) return 'DUE_SOON';
+    return 'CURRENT';
+  }
+
+  /**
+   * Copy type ratings with their currency derived as of the given date
+   */
+  applyToRatings(
+    ratings: AircraftTypeRating[],
+    asOf: Date = new Date()
+  ): AircraftTypeRating[] {
+    return ratings.map((r) => ({ ...r, currency_status: this.getRatingStatus(r, asOf) }));
+  }
+
+  /**
+   * Copy a medical certificate with its status derived as of the given date
+   */
+  applyToMedical(
+    medical: MedicalCertificate | null,
+    asOf: Date = new Date()
+  ): MedicalCertificate | null {
+    return medical ? { ...medical, status: this.getMedicalStatus(medical, asOf) } : null;
+  }
+
+  /**
+   * Copy training records with their status derived as of the given date
+   */
+  applyToTraining(
+    training: RecurrentTraining[],
+    asOf: Date = new Date()
+  ): RecurrentTraining[] {
+    return training.map((t) => ({ ...t, status: this.getTrainingStatus(t, asOf) }));
+  }
+}
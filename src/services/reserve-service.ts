@@ -0,0 +1,201 @@
+/**
+ * Reserve Service
+ * Finds, for each pilot on reserve, the latest report time at which a
+ * callout for a planned FDP is legal
+ */
+
+import { DateTime } from 'luxon';
+import { getAvailableReserves, getCrewMember } from '../db/queries.js';
+import { LegalityValidator } from '../engines/legality-validator.js';
+import { ReserveLimitsEngine } from '../engines/reserve-limits.js';
+import { resolveRulePack } from '../engines/rule-packs/index.js';
+import type { CrewMember } from '../types/crew.js';
+import type {
+  ReserveAssignment,
+  ReserveCallout,
+  ReserveCalloutInput,
+  ReserveCalloutOption,
+} from '../types/qualifications.js';
+import type { RulePack } from '../types/rule-pack.js';
+import { resolveAirportTimezone } from '../utils/airports.js';
+import { woclOverlapMinutes } from '../utils/date-utils.js';
+import { logger } from '../utils/logger.js';
+
+// Report times are searched on a quarter-hour grid
+const REPORT_STEP_MINUTES = 15;
+
+export class ReserveService {
+  private validator: LegalityValidator;
+  private reserveEngine: ReserveLimitsEngine;
+
+  constructor() {
+    this.validator = new LegalityValidator();
+    this.reserveEngine = new ReserveLimitsEngine();
+  }
+
+  /**
+   * Latest legal report time for each pilot available on reserve at the callout,
+   * legal reservists first and latest report first
+   */
+  async getCalloutOptions(input: ReserveCalloutInput): Promise<ReserveCalloutOption[]> {
+    const reserves = await getAvailableReserves({
+      at: input.callout_utc,
+      base_airport: input.base_airport,
+      reserve_type: input.reserve_type,
+    });
+
+    const options: ReserveCalloutOption[] = [];
+    for (const reserve of reserves) {
+      const crewMember = await getCrewMember(reserve.crew_id);
+      if (!crewMember || crewMember.crew_type !== 'PILOT') {
+        continue;
+      }
+      options.push(await this.evaluateReservist(crewMember, reserve, input));
+    }
+
+    logger.info('Reserve callout options evaluated', {
+      callout_utc: input.callout_utc,
+      reservists: options.length,
+    });
+
+    return options.sort((a, b) => {
+      const aTime = a.latest_legal_report_utc?.getTime() ?? -Infinity;
+      const bTime = b.latest_legal_report_utc?.getTime() ?? -Infinity;
+      return bTime - aTime;
+    });
+  }
+
+  /**
+   * Search back from the end of the reserve period for the latest report time
+   * within the reserve and FDP limits that also passes a full legality check
+   */
+  private async evaluateReservist(
+    crewMember: CrewMember,
+    reserve: ReserveAssignment,
+    input: ReserveCalloutInput
+  ): Promise<ReserveCalloutOption> {
+    const rulePack = resolveRulePack(crewMember);
+    const rule = rulePack.getReserveRule(reserve.reserve_type);
+    const callout: ReserveCallout = {
+      reserve_type: reserve.reserve_type,
+      reserve_start_utc: new Date(reserve.reserve_start_utc),
+      reserve_end_utc: new Date(reserve.reserve_end_utc),
+      callout_utc: input.callout_utc,
+    };
+
+    const earliest = new Date(
+      Math.max(
+        input.callout_utc.getTime() + rule.minimum_notice_hours * 60 * 60 * 1000,
+        callout.reserve_start_utc.getTime()
+      )
+    );
+    const step = REPORT_STEP_MINUTES * 60 * 1000;
+
+    const option: ReserveCalloutOption = {
+      reserve,
+      employee_number: crewMember.employee_number,
+      name: `${crewMember.first_name} ${crewMember.last_name}`,
+      position: crewMember.position,
+      earliest_report_utc: earliest,
+      latest_legal_report_utc: null,
+      legality: null,
+      reasons: [],
+    };
+
+    for (
+      let report = callout.reserve_end_utc.getTime();
+      report >= earliest.getTime();
+      report -= step
+    ) {
+      const reportUtc = new Date(report);
+      if (!this.withinReserveLimits(rulePack, crewMember, callout, reportUtc, input)) {
+        continue;
+      }
+
+      option.legality = await this.validator.validateAssignment(crewMember.crew_id, {
+        aircraft_type: input.aircraft_type,
+        duty_start_utc: reportUtc,
+        duty_end_utc: new Date(report + input.planned_fdp_hours * 60 * 60 * 1000),
+        flight_time_minutes: input.flight_time_minutes || 0,
+        number_of_segments: input.number_of_segments || 1,
+        augmenting_pilots: input.augmenting_pilots,
+        rest_facility_class: input.rest_facility_class,
+        reserve: callout,
+      });
+
+      if (option.legality.is_legal) {
+        option.latest_legal_report_utc = reportUtc;
+        return option;
+      }
+    }
+
+    if (!option.legality) {
+      option.reasons.push(
+        `No report time between ${earliest.toISOString()} and the end of the reserve period keeps a ${input.planned_fdp_hours}-hour FDP within the reserve limits`
+      );
+    } else {
+      // Reasons from the earliest report time tried
+      option.reasons.push(...option.legality.violated_rules.map((v) => v.description));
+    }
+
+    return option;
+  }
+
+  /**
+   * Check a report time against the reserve rule and the FDP limit at the
+   * reserve base, before any history-dependent checks
+   */
+  private withinReserveLimits(
+    rulePack: RulePack,
+    crewMember: CrewMember,
+    callout: ReserveCallout,
+    report: Date,
+    input: ReserveCalloutInput
+  ): boolean {
+    const rule = rulePack.getReserveRule(callout.reserve_type);
+    const timezone = resolveAirportTimezone(crewMember.base_airport);
+    const augmentingPilots = input.augmenting_pilots || 0;
+
+    // Airport reserve counts as FDP from the start of the reserve
+    const fdpStart = rule.counts_as_fdp ? callout.reserve_start_utc : report;
+    const dutyEnd = new Date(report.getTime() + input.planned_fdp_hours * 60 * 60 * 1000);
+    const reportLocal = DateTime.fromJSDate(fdpStart, { zone: timezone });
+
+    const limit = rulePack.getFDPLimit({
+      report_hour: reportLocal.hour,
+      report_minute: reportLocal.minute,
+      segments: input.number_of_segments || 1,
+      acclimation: {
+        is_acclimated: true,
+        acclimated_airport: crewMember.base_airport,
+        longitude_difference_degrees: 0,
+      },
+      augmenting_pilots: augmentingPilots,
+      rest_facility_class: input.rest_facility_class,
+      wocl_encroachment_minutes: woclOverlapMinutes(fdpStart, dutyEnd, timezone),
+      extensions_in_prior_7_days: 0,
+      rest_opportunities: [],
+      home_base_timezone: timezone,
+    });
+    if (limit.max_fdp_hours === 0) {
+      return false;
+    }
+
+    const fdpHours = (dutyEnd.getTime() - fdpStart.getTime()) / (1000 * 60 * 60);
+    const maxFDPHours =
+      limit.max_fdp_hours - this.reserveEngine.getFDPReductionHours(rule, callout, report);
+
+    if (fdpHours > maxFDPHours) {
+      return false;
+    }
+
+    return this.reserveEngine.check(
+      rule,
+      callout,
+      report,
+      dutyEnd,
+      limit.max_fdp_hours,
+      augmentingPilots > 0
+    ).is_compliant;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Restriction Service
+ * Tracks high-minimums, IOE and consolidation restrictions and lifts them
+ * once the crew member has accumulated the required hours in type
+ */
+
+import {
+  getBlockMinutesInType,
+  getQualificationRestrictions,
+  liftQualificationRestriction,
+} from '../db/queries.js';
+import type {
+  CrewMember,
+  QualificationRestriction,
+  RestrictionProgress,
+} from '../types/crew.js';
+import { logger } from '../utils/logger.js';
+
+export class RestrictionService {
+  /**
+   * Get a crew member's restrictions still in force, with progress toward
+   * lifting them; read-only, so one whose condition is met is left out but
+   * stays recorded until liftMetRestrictions runs
+   */
+  async getActiveRestrictions(
+    crewMember: CrewMember,
+    asOf: Date = new Date()
+  ): Promise<RestrictionProgress[]> {
+    const evaluated = await this.evaluateActive(crewMember, asOf);
+    return evaluated.filter((e) => e.liftReason === null).map((e) => e.progress);
+  }
+
+  /**
+   * Lift restrictions whose condition is met (or whose end date has passed)
+   * once new flying is recorded, returning the ones still in force
+   */
+  async liftMetRestrictions(
+    crewMember: CrewMember,
+    asOf: Date = new Date()
+  ): Promise<RestrictionProgress[]> {
+    const active: RestrictionProgress[] = [];
+
+    for (const { progress, liftReason } of await this.evaluateActive(crewMember, asOf)) {
+      if (liftReason) {
+        await liftQualificationRestriction(progress.restriction.restriction_id, liftReason);
+        logger.info('Qualification restriction lifted', {
+          crew_id: crewMember.crew_id,
+          restriction_id: progress.restriction.restriction_id,
+          reason: liftReason,
+        });
+        continue;
+      }
+
+      active.push(progress);
+    }
+
+    return active;
+  }
+
+  /**
+   * Progress on each active restriction and the reason to lift it, if any
+   */
+  private async evaluateActive(
+    crewMember: CrewMember,
+    asOf: Date
+  ): Promise<Array<{ progress: RestrictionProgress; liftReason: string | null }>> {
+    const restrictions = await getQualificationRestrictions(crewMember.crew_id, 'ACTIVE');
+    const evaluated: Array<{ progress: RestrictionProgress; liftReason: string | null }> = [];
+
+    for (const restriction of restrictions) {
+      const progress = await this.evaluate(crewMember, restriction);
+      evaluated.push({ progress, liftReason: this.getLiftReason(progress, asOf) });
+    }
+
+    return evaluated;
+  }
+
+  /**
+   * Accumulated hours toward a restriction's lift condition
+   * PIC hours only accrue on legs flown in the captain seat
+   */
+  private async evaluate(
+    crewMember: CrewMember,
+    restriction: QualificationRestriction
+  ): Promise<RestrictionProgress> {
+    const countsHours =
+      restriction.lift_condition === 'FLIGHT_HOURS_IN_TYPE' ||
+      restriction.lift_condition === 'PIC_HOURS_IN_TYPE';
+
+    const accumulatedHours = countsHours
+      ? (await getBlockMinutesInType(
+          crewMember.crew_id,
+          restriction.aircraft_type,
+          new Date(restriction.imposed_date),
+          restriction.lift_condition === 'PIC_HOURS_IN_TYPE'
+        )) / 60
+      : 0;
+
+    const requiredHours =
+      restriction.lift_condition === 'MANUAL' ? null : restriction.required_hours ?? null;
+
+    return {
+      restriction,
+      accumulated_hours: Math.round(accumulatedHours * 10) / 10,
+      remaining_hours:
+        requiredHours !== null ? Math.max(0, requiredHours - accumulatedHours) : null,
+      condition: this.describeCondition(restriction),
+    };
+  }
+
+  /**
+   * Reason to lift a restriction, or null while it still applies
+   */
+  private getLiftReason(progress: RestrictionProgress, asOf: Date): string | null {
+    const { restriction } = progress;
+
+    if (progress.remaining_hours === 0) {
+      return `Accumulated ${progress.accumulated_hours} hours in ${restriction.aircraft_type}`;
+    }
+    if (restriction.expires_on && new Date(restriction.expires_on) < asOf) {
+      return `Restriction period ended ${new Date(restriction.expires_on).toISOString().split('T')[0]}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Human-readable lift condition, e.g. "until 100 PIC hours in B737"
+   */
+  private describeCondition(restriction: QualificationRestriction): string {
+    const until = restriction.expires_on
+      ? ` or ${new Date(restriction.expires_on).toISOString().split('T')[0]}`
+      : '';
+
+    switch (restriction.lift_condition) {
+      case 'PIC_HOURS_IN_TYPE':
+        return `until ${restriction.required_hours} PIC hours in ${restriction.aircraft_type}${until}`;
+      case 'FLIGHT_HOURS_IN_TYPE':
+        return `until ${restriction.required_hours} flight hours in ${restriction.aircraft_type}${until}`;
+      default:
+        return `until lifted by a check airman${until}`;
+    }
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * MCP Tool: apply-fdp-extension
+ * Record an unforeseen-circumstance FDP extension for a duty in progress
+ */
+
+import { z } from 'zod';
+import { getCrewMember } from '../db/queries.js';
+import { FDPExtensionService } from '../services/fdp-extension-service.js';
+import type { MCPToolResponse } from '../types/mcp.js';
+import { logger } from '../utils/logger.js';
+
+// Input validation schema
+const ApplyFDPExtensionSchema = z
+  .object({
+    crew_identifier: z.string().min(1),
+    aircraft_type: z.string().min(1),
+    duty_start_utc: z.string().datetime(),
+    scheduled_duty_end_utc: z.string().datetime().optional(),
+    extension_minutes: z.number().int().min(1),
+    authorized_by: z.string().min(1),
+    reason: z.string().min(1),
+    authorized_at: z.string().datetime().optional(),
+    number_of_segments: z.number().int().min(1).optional(),
+    augmenting_pilots: z.number().int().min(0).max(2).optional().default(0),
+    rest_facility_class: z.enum(['CLASS_1', 'CLASS_2', 'CLASS_3']).optional(),
+    report_airport: z.string().min(3).max(4).optional(),
+    rest_airport: z.string().min(3).max(4).optional(),
+  })
+  .refine(
+    (params) => params.augmenting_pilots === 0 || params.rest_facility_class !== undefined,
+    {
+      message: 'rest_facility_class is required when augmenting_pilots is greater than 0',
+      path: ['rest_facility_class'],
+    }
+  );
+
+// Tool definition
+export const applyFDPExtensionTool = {
+  name: 'apply-fdp-extension',
+  description:
+    'Record a captain-authorized FDP extension for unforeseen operational circumstances on a duty in progress: re-checks the extended duty, records the extension when legal, and returns the longer rest required and whether a report to the authority is due',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      crew_identifier: {
+        type: 'string',
+        description: 'Employee number or crew_id',
+      },
+      aircraft_type: {
+        type: 'string',
+        description: 'Aircraft type operated on the duty (e.g., B737-800)',
+      },
+      duty_start_utc: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Start of the duty being extended, in UTC',
+      },
+      scheduled_duty_end_utc: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Scheduled end of the duty before the extension (defaults to the recorded duty end)',
+      },
+      extension_minutes: {
+        type: 'integer',
+        description: 'Length of the extension in minutes',
+      },
+      authorized_by: {
+        type: 'string',
+        description: 'Pilot in command who authorized the extension',
+      },
+      reason: {
+        type: 'string',
+        description: 'Unforeseen operational circumstance requiring the extension',
+      },
+      authorized_at: {
+        type: 'string',
+        format: 'date-time',
+        description: 'When the extension was authorized (defaults to now)',
+      },
+      number_of_segments: {
+        type: 'integer',
+        description: 'Segments in the extended duty (defaults to the recorded segments)',
+      },
+      augmenting_pilots: {
+        type: 'integer',
+        description: 'Number of pilots added to the minimum crew (0 for unaugmented)',
+        default: 0,
+      },
+      rest_facility_class: {
+        type: 'string',
+        enum: ['CLASS_1', 'CLASS_2', 'CLASS_3'],
+        description: 'Onboard rest facility class, required for augmented operations',
+      },
+      report_airport: {
+        type: 'string',
+        description: 'Airport where the duty reported (defaults to the crew member base)',
+      },
+      rest_airport: {
+        type: 'string',
+        description: 'Airport where the following rest is taken (defaults to the crew member base)',
+      },
+    },
+    required: [
+      'crew_identifier',
+      'aircraft_type',
+      'duty_start_utc',
+      'extension_minutes',
+      'authorized_by',
+      'reason',
+    ],
+  },
+};
+
+// Tool handler
+export async function handleApplyFDPExtension(args: unknown): Promise<MCPToolResponse> {
+  try {
+    // Validate input
+    const params = ApplyFDPExtensionSchema.parse(args);
+    logger.info('Applying FDP extension', {
+      crew_identifier: params.crew_identifier,
+      duty_start_utc: params.duty_start_utc,
+      extension_minutes: params.extension_minutes,
+    });
+
+    const crewMember = await getCrewMember(params.crew_identifier);
+    if (!crewMember) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Crew member not found: ${params.crew_identifier}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const service = new FDPExtensionService();
+    const result = await service.applyExtension(crewMember, {
+      aircraft_type: params.aircraft_type,
+      duty_start_utc: new Date(params.duty_start_utc),
+      scheduled_duty_end_utc: params.scheduled_duty_end_utc
+        ? new Date(params.scheduled_duty_end_utc)
+        : undefined,
+      extension_minutes: params.extension_minutes,
+      authorized_by: params.authorized_by,
+      reason: params.reason,
+      authorized_at: params.authorized_at ? new Date(params.authorized_at) : undefined,
+      number_of_segments: params.number_of_segments,
+      augmenting_pilots: params.augmenting_pilots,
+      rest_facility_class: params.rest_facility_class,
+      report_airport: params.report_airport?.toUpperCase(),
+      rest_airport: params.rest_airport?.toUpperCase(),
+    });
+
+    const response = {
+      extension_recorded: result.extension !== null,
+      extension_id: result.extension?.extension_id,
+      crew_member: {
+        employee_number: crewMember.employee_number,
+        name: `${crewMember.first_name} ${crewMember.last_name}`,
+        position: crewMember.position,
+      },
+      rule_pack: result.legality.rule_pack,
+      duty: {
+        duty_start_utc: params.duty_start_utc,
+        extended_duty_end_utc: result.extended_duty_end_utc.toISOString(),
+        extension_minutes: params.extension_minutes,
+        authorized_by: params.authorized_by,
+        reason: params.reason,
+      },
+      fdp_compliance: {
+        is_compliant: result.legality.fdp_compliance.is_compliant,
+        proposed_fdp_hours: result.legality.fdp_compliance.proposed_fdp_hours,
+        max_fdp_hours: result.legality.fdp_compliance.max_fdp_hours,
+        unforeseen_extension_hours: result.legality.fdp_compliance.unforeseen_extension_hours,
+        violations: result.legality.fdp_compliance.violations,
+      },
+      next_rest: {
+        minimum_hours: result.next_rest.minimum_hours,
+        extension_rest_hours: result.next_rest.extension_rest_hours,
+        earliest_next_report_utc: result.next_rest.earliest_next_report_utc.toISOString(),
+      },
+      report: {
+        required: result.report.required,
+        due_date: result.report.due_date?.toISOString().split('T')[0] ?? null,
+        regulation: result.report.regulation,
+      },
+      violated_rules: result.legality.violated_rules,
+      decision: result.extension
+        ? result.report.required
+          ? `RECORDED - Report to the authority due ${result.report.due_date!.toISOString().split('T')[0]}`
+          : 'RECORDED - No report required'
+        : `REJECTED - ${result.legality.fdp_compliance.violations.join('; ')}`,
+    };
+
+    logger.info('FDP extension processed', {
+      crew_identifier: params.crew_identifier,
+      recorded: response.extension_recorded,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Error applying FDP extension:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
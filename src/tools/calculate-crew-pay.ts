@@ -91,6 +91,7 @@ export async function handleCalculateCrewPay(
         pay_period_end: new Date(params.pay_period_end),
         flight_hours: calculation.summary.total_flight_hours,
         duty_hours: calculation.summary.total_duty_hours,
+        credit_hours: calculation.summary.total_credit_hours,
         base_pay: calculation.breakdown.base_pay.amount,
         per_diem: calculation.breakdown.per_diem.amount,
         premium_pay: calculation.breakdown.premium_pay.reduce(
@@ -99,6 +100,8 @@ export async function handleCalculateCrewPay(
         ),
         overtime_pay: calculation.breakdown.overtime_pay.amount,
         guarantee_pay: calculation.breakdown.guarantee_pay.amount,
+        deadhead_pay: calculation.breakdown.deadhead_pay.amount,
+        training_pay: calculation.breakdown.training_pay.reduce((sum, t) => sum + t.amount, 0),
         total_compensation: calculation.summary.total_compensation,
         calculation_method: 'AUTOMATED',
         verified: false,
@@ -120,6 +123,9 @@ export async function handleCalculateCrewPay(
       summary: {
         total_flight_hours: calculation.summary.total_flight_hours.toFixed(2),
         total_duty_hours: calculation.summary.total_duty_hours.toFixed(2),
+        total_credit_hours: calculation.summary.total_credit_hours.toFixed(2),
+        total_deadhead_hours: calculation.summary.total_deadhead_hours.toFixed(2),
+        total_tafb_hours: calculation.summary.total_tafb_hours.toFixed(2),
         total_compensation: `$${calculation.summary.total_compensation.toFixed(2)}`,
       },
       calculation_timestamp: calculation.calculation_timestamp,
@@ -152,15 +158,60 @@ export async function handleCalculateCrewPay(
           amount: `$${calculation.breakdown.guarantee_pay.amount.toFixed(2)}`,
           description: calculation.breakdown.guarantee_pay.description,
         },
+        deadhead_pay: {
+          amount: `$${calculation.breakdown.deadhead_pay.amount.toFixed(2)}`,
+          hours: calculation.breakdown.deadhead_pay.hours?.toFixed(2),
+          description: calculation.breakdown.deadhead_pay.description,
+        },
+        training_pay: calculation.breakdown.training_pay.map((t) => ({
+          type: t.type,
+          date: t.date,
+          amount: `$${t.amount.toFixed(2)}`,
+          hours: t.hours?.toFixed(2),
+          description: t.description,
+        })),
       };
 
+      if (calculation.credit) {
+        response.credit = {
+          rules: calculation.credit.rules,
+          block_hours: calculation.credit.block_hours.toFixed(2),
+          credit_hours: calculation.credit.credit_hours.toFixed(2),
+          trips: calculation.credit.trips.map((trip) => ({
+            report: trip.report_utc,
+            release: trip.release_utc,
+            credit_hours: trip.credit_hours.toFixed(2),
+            winning_rig: trip.winning_component,
+            trip_rig_hours: trip.trip_rig_hours.toFixed(2),
+            duties: trip.duties.map((duty) => ({
+              date: duty.duty_date,
+              credit_hours: duty.credit_hours.toFixed(2),
+              winning_rig: duty.winning_component,
+              block_hours: duty.block_hours.toFixed(2),
+              scheduled_block_hours: duty.scheduled_block_hours?.toFixed(2) ?? null,
+              duty_rig_hours: duty.duty_rig_hours.toFixed(2),
+            })),
+          })),
+        };
+      }
+
       response.applied_rules = calculation.applied_rules.map((rule) => ({
         rule_name: rule.rule_name,
         rule_type: rule.rule_type,
+        rule_id: rule.rule_id,
+        version: rule.version,
+        source: rule.source,
         amount: `$${rule.amount.toFixed(2)}`,
       }));
 
       response.duty_records_count = calculation.duty_records.length;
+      response.trips = calculation.trips.map((trip) => ({
+        report: trip.report,
+        release: trip.release,
+        tafb_hours: trip.tafb_hours.toFixed(2),
+        is_international: trip.is_international,
+        is_complete: trip.is_complete,
+      }));
     }
 
     logger.info('Crew pay calculation complete', {
@@ -0,0 +1,174 @@
+/**
+ * MCP Tool: check-reserve-callout-legality
+ * Latest legal report time for each pilot on reserve for a planned duty
+ */
+
+import { z } from 'zod';
+import { ReserveService } from '../services/reserve-service.js';
+import type { MCPToolResponse } from '../types/mcp.js';
+import { logger } from '../utils/logger.js';
+
+// Input validation schema
+const CheckReserveCalloutLegalitySchema = z
+  .object({
+    aircraft_type: z.string().min(1),
+    planned_fdp_hours: z.number().positive().max(24),
+    callout_utc: z.string().datetime().optional(),
+    flight_time_minutes: z.number().int().min(0).optional(),
+    number_of_segments: z.number().int().min(1).optional().default(1),
+    augmenting_pilots: z.number().int().min(0).max(2).optional().default(0),
+    rest_facility_class: z.enum(['CLASS_1', 'CLASS_2', 'CLASS_3']).optional(),
+    base_airport: z.string().min(3).max(4).optional(),
+    reserve_type: z.enum(['AIRPORT', 'SHORT_CALL', 'LONG_CALL']).optional(),
+  })
+  .refine(
+    (params) => params.augmenting_pilots === 0 || params.rest_facility_class !== undefined,
+    {
+      message: 'rest_facility_class is required when augmenting_pilots is greater than 0',
+      path: ['rest_facility_class'],
+    }
+  );
+
+// Tool definition
+export const checkReserveCalloutLegalityTool = {
+  name: 'check-reserve-callout-legality',
+  description:
+    'For crew scheduling: list the pilots on airport, short-call or long-call reserve at the callout time with the latest report time at which each can legally fly the planned FDP, applying reserve availability period, reserve-plus-FDP and notice limits from their rule pack',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      aircraft_type: {
+        type: 'string',
+        description: 'Aircraft type of the duty to cover (e.g., B737-800)',
+      },
+      planned_fdp_hours: {
+        type: 'number',
+        description: 'Length of the FDP to cover, from report to release, in hours',
+      },
+      callout_utc: {
+        type: 'string',
+        format: 'date-time',
+        description: 'When the reservist is contacted (defaults to now)',
+      },
+      flight_time_minutes: {
+        type: 'integer',
+        description: 'Planned flight time of the duty',
+      },
+      number_of_segments: {
+        type: 'integer',
+        description: 'Number of flight segments in the duty',
+        default: 1,
+      },
+      augmenting_pilots: {
+        type: 'integer',
+        description: 'Number of pilots added to the minimum crew (0 for unaugmented)',
+        default: 0,
+      },
+      rest_facility_class: {
+        type: 'string',
+        enum: ['CLASS_1', 'CLASS_2', 'CLASS_3'],
+        description: 'Onboard rest facility class, required for augmented operations',
+      },
+      base_airport: {
+        type: 'string',
+        description: 'Only reservists sitting reserve at this airport',
+      },
+      reserve_type: {
+        type: 'string',
+        enum: ['AIRPORT', 'SHORT_CALL', 'LONG_CALL'],
+        description: 'Only reservists on this type of reserve',
+      },
+    },
+    required: ['aircraft_type', 'planned_fdp_hours'],
+  },
+};
+
+// Tool handler
+export async function handleCheckReserveCalloutLegality(
+  args: unknown
+): Promise<MCPToolResponse> {
+  try {
+    // Validate input
+    const params = CheckReserveCalloutLegalitySchema.parse(args);
+    const calloutUtc = params.callout_utc ? new Date(params.callout_utc) : new Date();
+    logger.info('Checking reserve callout legality', {
+      callout_utc: calloutUtc,
+      base_airport: params.base_airport,
+      planned_fdp_hours: params.planned_fdp_hours,
+    });
+
+    const service = new ReserveService();
+    const options = await service.getCalloutOptions({
+      callout_utc: calloutUtc,
+      aircraft_type: params.aircraft_type,
+      planned_fdp_hours: params.planned_fdp_hours,
+      flight_time_minutes: params.flight_time_minutes,
+      number_of_segments: params.number_of_segments,
+      augmenting_pilots: params.augmenting_pilots,
+      rest_facility_class: params.rest_facility_class,
+      base_airport: params.base_airport?.toUpperCase(),
+      reserve_type: params.reserve_type,
+    });
+
+    const legalCount = options.filter((o) => o.latest_legal_report_utc !== null).length;
+
+    const response = {
+      callout_utc: calloutUtc.toISOString(),
+      planned_duty: {
+        aircraft_type: params.aircraft_type,
+        planned_fdp_hours: params.planned_fdp_hours,
+        number_of_segments: params.number_of_segments,
+        augmenting_pilots: params.augmenting_pilots,
+      },
+      summary: {
+        reservists_checked: options.length,
+        legal_for_callout: legalCount,
+      },
+      reservists: options.map((option) => ({
+        crew_member: {
+          employee_number: option.employee_number,
+          name: option.name,
+          position: option.position,
+        },
+        reserve: {
+          reserve_id: option.reserve.reserve_id,
+          reserve_type: option.reserve.reserve_type,
+          reserve_airport: option.reserve.reserve_airport,
+          reserve_start_utc: option.reserve.reserve_start_utc,
+          reserve_end_utc: option.reserve.reserve_end_utc,
+        },
+        rule_pack: option.legality?.rule_pack,
+        earliest_report_utc: option.earliest_report_utc.toISOString(),
+        latest_legal_report_utc: option.latest_legal_report_utc?.toISOString() ?? null,
+        is_legal: option.latest_legal_report_utc !== null,
+        reserve_compliance: option.legality?.reserve_compliance ?? null,
+        max_fdp_hours: option.legality?.fdp_compliance.max_fdp_hours,
+        reasons: option.reasons,
+      })),
+      recommendation:
+        legalCount > 0
+          ? `${legalCount} reservist(s) can legally cover the duty; the latest report time is ${options[0].latest_legal_report_utc!.toISOString()}`
+          : 'No reservist can legally cover the duty - shorten the FDP or consider open time',
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Error checking reserve callout legality:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * MCP Tool: create-pairing
+ * Create a pairing (trip) spanning one or more duty periods
+ */
+
+import { z } from 'zod';
+import { PairingService } from '../services/pairing-service.js';
+import type { MCPToolResponse } from '../types/mcp.js';
+import { logger } from '../utils/logger.js';
+
+// Input validation schema
+const CreatePairingSchema = z.object({
+  trip_number: z.string().min(1),
+  base_airport: z.string().length(3),
+  crew_type: z.enum(['PILOT', 'FLIGHT_ATTENDANT']).optional(),
+  credit_minutes: z.number().int().min(0).optional(),
+  status: z.enum(['PLANNED', 'PUBLISHED', 'COMPLETED', 'CANCELLED']).optional(),
+  duty_periods: z
+    .array(
+      z.object({
+        duty_start_utc: z.string().datetime(),
+        duty_end_utc: z.string().datetime(),
+        report_airport: z.string().length(3),
+        release_airport: z.string().length(3),
+        aircraft_type: z.string().min(1),
+        flight_time_minutes: z.number().int().min(0).optional().default(0),
+        number_of_segments: z.number().int().min(1).optional().default(1),
+      })
+    )
+    .min(1),
+});
+
+// Tool definition
+export const createPairingTool = {
+  name: 'create-pairing',
+  description:
+    'Create a pairing (trip) that groups duty periods and layovers, with trip number, base, start/end and credit',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      trip_number: {
+        type: 'string',
+        description: 'Trip/pairing number (e.g., T1042)',
+      },
+      base_airport: {
+        type: 'string',
+        description: 'Crew base where the trip starts and ends',
+      },
+      crew_type: {
+        type: 'string',
+        enum: ['PILOT', 'FLIGHT_ATTENDANT'],
+      },
+      credit_minutes: {
+        type: 'integer',
+        description: 'Trip credit in minutes (defaults to total scheduled flight time)',
+      },
+      status: {
+        type: 'string',
+        enum: ['PLANNED', 'PUBLISHED', 'COMPLETED', 'CANCELLED'],
+        default: 'PLANNED',
+      },
+      duty_periods: {
+        type: 'array',
+        description: 'Duty periods in the trip',
+        items: {
+          type: 'object',
+          properties: {
+            duty_start_utc: { type: 'string', format: 'date-time' },
+            duty_end_utc: { type: 'string', format: 'date-time' },
+            report_airport: { type: 'string' },
+            release_airport: { type: 'string' },
+            aircraft_type: { type: 'string' },
+            flight_time_minutes: { type: 'integer' },
+            number_of_segments: { type: 'integer', default: 1 },
+          },
+          required: [
+            'duty_start_utc',
+            'duty_end_utc',
+            'report_airport',
+            'release_airport',
+            'aircraft_type',
+          ],
+        },
+      },
+    },
+    required: ['trip_number', 'base_airport', 'duty_periods'],
+  },
+};
+
+// Tool handler
+export async function handleCreatePairing(
+  args: unknown
+): Promise<MCPToolResponse> {
+  try {
+    // Validate input
+    const params = CreatePairingSchema.parse(args);
+    logger.info('Creating pairing', {
+      trip_number: params.trip_number,
+      duty_periods: params.duty_periods.length,
+    });
+
+    const service = new PairingService();
+    const detail = await service.createPairing({
+      trip_number: params.trip_number,
+      base_airport: params.base_airport,
+      crew_type: params.crew_type,
+      credit_minutes: params.credit_minutes,
+      status: params.status,
+      duty_periods: params.duty_periods.map((duty) => ({
+        duty_start_utc: new Date(duty.duty_start_utc),
+        duty_end_utc: new Date(duty.duty_end_utc),
+        report_airport: duty.report_airport,
+        release_airport: duty.release_airport,
+        aircraft_type: duty.aircraft_type,
+        flight_time_minutes: duty.flight_time_minutes,
+        number_of_segments: duty.number_of_segments,
+      })),
+    });
+
+    const response = {
+      pairing_id: detail.pairing.pairing_id,
+      trip_number: detail.pairing.trip_number,
+      base_airport: detail.pairing.base_airport,
+      start_utc: detail.pairing.start_utc,
+      end_utc: detail.pairing.end_utc,
+      credit_hours: (detail.pairing.credit_minutes / 60).toFixed(2),
+      tafb_hours: detail.tafb_hours.toFixed(2),
+      status: detail.pairing.status,
+      duty_periods: detail.duty_periods.length,
+      layovers: detail.layovers.map((layover) => ({
+        airport: layover.airport,
+        rest_hours: layover.rest_hours.toFixed(2),
+      })),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Error creating pairing:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
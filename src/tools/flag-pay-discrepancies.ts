@@ -134,6 +134,8 @@ export async function handleFlagPayDiscrepancies(
               supporting_evidence: {
                 flight_hours: expectedCalculation.summary.total_flight_hours,
                 duty_hours: expectedCalculation.summary.total_duty_hours,
+                credit_hours: expectedCalculation.summary.total_credit_hours,
+                tafb_hours: expectedCalculation.summary.total_tafb_hours,
               },
             });
           }
@@ -188,6 +190,8 @@ export async function handleFlagPayDiscrepancies(
               base_pay_actual: parseFloat(existingRecord.base_pay.toString()),
               per_diem_expected: expectedCalculation.breakdown.per_diem.amount,
               per_diem_actual: parseFloat(existingRecord.per_diem.toString()),
+              tafb_hours: expectedCalculation.summary.total_tafb_hours,
+              per_diem_basis: expectedCalculation.breakdown.per_diem.description,
             },
           });
         }
@@ -11,16 +11,23 @@ import {
   getMedicalCertificate,
   getTrainingRecords,
 } from '../db/queries.js';
+import { MedicalValidityEngine } from '../engines/medical-validity.js';
+import { RestrictionService } from '../services/restriction-service.js';
+import { QualificationStatusService } from '../services/qualification-status.js';
 import type { MCPToolResponse } from '../types/mcp.js';
 import type { CrewQualificationProfile } from '../types/crew.js';
+import type { MedicalPrivileges } from '../types/qualifications.js';
 import { logger } from '../utils/logger.js';
 
 // Input validation schema
 const GetCrewQualificationsSchema = z.object({
   crew_identifier: z.string().min(1),
   include_expired: z.boolean().optional().default(false),
+  as_of_date: z.string().date().optional(),
   qualification_types: z
-    .array(z.enum(['licenses', 'type_ratings', 'medical', 'training', 'all']))
+    .array(
+      z.enum(['licenses', 'type_ratings', 'medical', 'training', 'restrictions', 'all'])
+    )
     .optional()
     .default(['all']),
 });
@@ -29,7 +36,7 @@ const GetCrewQualificationsSchema = z.object({
 export const getCrewQualificationsTool = {
   name: 'get-crew-qualifications',
   description:
-    'Get complete qualification profile for a crew member including licenses, ratings, medical, and training status',
+    'Get complete qualification profile for a crew member including licenses, ratings, medical, training status, and active restrictions',
   inputSchema: {
     type: 'object',
     properties: {
@@ -42,11 +49,16 @@ export const getCrewQualificationsTool = {
         description: 'Include expired qualifications',
         default: false,
       },
+      as_of_date: {
+        type: 'string',
+        format: 'date',
+        description: 'Date to evaluate currency and expiry as of (defaults to today)',
+      },
       qualification_types: {
         type: 'array',
         items: {
           type: 'string',
-          enum: ['licenses', 'type_ratings', 'medical', 'training', 'all'],
+          enum: ['licenses', 'type_ratings', 'medical', 'training', 'restrictions', 'all'],
         },
         description: 'Filter by qualification types',
       },
@@ -55,6 +67,28 @@ export const getCrewQualificationsTool = {
   },
 };
 
+/**
+ * Summarize the medical privilege class held and when it steps down
+ */
+function formatPrivileges(privileges: MedicalPrivileges) {
+  return {
+    class_held: privileges.privilege_class,
+    age_at_exam: privileges.age_at_exam,
+    valid_until: Object.fromEntries(
+      Object.entries(privileges.privileges_valid_until).map(([c, d]) => [
+        c,
+        d.toISOString().split('T')[0],
+      ])
+    ),
+    next_step_down: privileges.next_step_down
+      ? {
+          date: privileges.next_step_down.date.toISOString().split('T')[0],
+          to_class: privileges.next_step_down.to_class,
+        }
+      : null,
+  };
+}
+
 // Tool handler
 export async function handleGetCrewQualifications(
   args: unknown
@@ -78,9 +112,13 @@ export async function handleGetCrewQualifications(
       };
     }
 
+    // Statuses are derived from dates as of the requested day
+    const asOf = params.as_of_date ? new Date(params.as_of_date) : new Date();
+    const statusService = new QualificationStatusService();
+
     // Determine which qualifications to fetch
     const types = params.qualification_types.includes('all')
-      ? ['licenses', 'type_ratings', 'medical', 'training']
+      ? ['licenses', 'type_ratings', 'medical', 'training', 'restrictions']
       : params.qualification_types;
 
     // Build qualification profile
@@ -90,6 +128,7 @@ export async function handleGetCrewQualifications(
       type_ratings: [],
       medical: undefined,
       training: [],
+      restrictions: [],
       overall_status: 'QUALIFIED',
     };
 
@@ -98,14 +137,17 @@ export async function handleGetCrewQualifications(
       profile.licenses = await getPilotLicenses(crewMember.crew_id);
       if (!params.include_expired) {
         profile.licenses = profile.licenses.filter(
-          (l) => !l.expiration_date || l.expiration_date > new Date()
+          (l) => !l.expiration_date || statusService.daysUntil(l.expiration_date, asOf) >= 0
         );
       }
     }
 
     // Fetch type ratings
     if (types.includes('type_ratings') && crewMember.crew_type === 'PILOT') {
-      profile.type_ratings = await getAircraftTypeRatings(crewMember.crew_id);
+      profile.type_ratings = statusService.applyToRatings(
+        await getAircraftTypeRatings(crewMember.crew_id),
+        asOf
+      );
       if (!params.include_expired) {
         profile.type_ratings = profile.type_ratings.filter(
           (r) => r.currency_status !== 'EXPIRED'
@@ -115,30 +157,45 @@ export async function handleGetCrewQualifications(
 
     // Fetch medical
     if (types.includes('medical') && crewMember.crew_type === 'PILOT') {
-      const medical = await getMedicalCertificate(crewMember.crew_id);
-      if (medical && (params.include_expired || medical.status === 'VALID')) {
+      const medical = statusService.applyToMedical(
+        await getMedicalCertificate(crewMember.crew_id),
+        asOf
+      );
+      if (medical && (params.include_expired || medical.status !== 'EXPIRED')) {
         profile.medical = medical;
       }
     }
 
     // Fetch training
     if (types.includes('training')) {
-      profile.training = await getTrainingRecords(crewMember.crew_id);
+      profile.training = statusService.applyToTraining(
+        await getTrainingRecords(crewMember.crew_id),
+        asOf
+      );
       if (!params.include_expired) {
         profile.training = profile.training.filter((t) => t.status !== 'OVERDUE');
       }
     }
 
+    // Fetch restrictions still in force (lifting happens as duty is recorded)
+    if (types.includes('restrictions') && crewMember.crew_type === 'PILOT') {
+      profile.restrictions = await new RestrictionService().getActiveRestrictions(
+        crewMember,
+        asOf
+      );
+    }
+
     // Determine overall status
     const hasCriticalIssues =
-      (profile.medical && profile.medical.status !== 'VALID') ||
+      (profile.medical && profile.medical.status === 'EXPIRED') ||
       profile.type_ratings.some((r) => r.currency_status === 'EXPIRED') ||
       profile.training.some((t) => t.status === 'OVERDUE');
 
     const hasWarnings =
       (profile.medical && profile.medical.status === 'EXPIRING_SOON') ||
       profile.type_ratings.some((r) => r.currency_status === 'EXPIRING_SOON') ||
-      profile.training.some((t) => t.status === 'DUE_SOON');
+      profile.training.some((t) => t.status === 'DUE_SOON') ||
+      profile.restrictions.length > 0;
 
     if (hasCriticalIssues) {
       profile.overall_status = 'NOT_QUALIFIED';
@@ -179,6 +236,13 @@ export async function handleGetCrewQualifications(
               expiration_date: profile.medical.expiration_date,
               status: profile.medical.status,
               limitations: profile.medical.limitations,
+              privileges: formatPrivileges(
+                new MedicalValidityEngine().getPrivileges(
+                  profile.medical,
+                  crewMember.date_of_birth,
+                  asOf
+                )
+              ),
             }
           : null,
         training: profile.training.map((t) => ({
@@ -188,18 +252,29 @@ export async function handleGetCrewQualifications(
           next_due_date: t.next_due_date,
           status: t.status,
         })),
+        restrictions: profile.restrictions.map((p) => ({
+          type: p.restriction.restriction_type,
+          aircraft_type: p.restriction.aircraft_type,
+          description: p.restriction.description,
+          imposed_date: p.restriction.imposed_date,
+          condition: p.condition,
+          accumulated_hours: p.accumulated_hours,
+          remaining_hours: p.remaining_hours,
+        })),
       },
       overall_status: profile.overall_status,
+      as_of_date: asOf.toISOString().split('T')[0],
       summary: {
         total_licenses: profile.licenses.length,
         total_type_ratings: profile.type_ratings.length,
         current_type_ratings: profile.type_ratings.filter(
           (r) => r.currency_status === 'CURRENT'
         ).length,
-        medical_valid: profile.medical?.status === 'VALID',
+        medical_valid: !!profile.medical && profile.medical.status !== 'EXPIRED',
         training_current: profile.training.filter((t) => t.status === 'CURRENT')
           .length,
         training_total: profile.training.length,
+        active_restrictions: profile.restrictions.length,
       },
     };
 
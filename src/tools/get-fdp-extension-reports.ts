@@ -0,0 +1,95 @@
+/**
+ * MCP Tool: get-fdp-extension-reports
+ * List FDP extensions awaiting their report to the authority
+ */
+
+import { z } from 'zod';
+import { FDPExtensionService } from '../services/fdp-extension-service.js';
+import type { MCPToolResponse } from '../types/mcp.js';
+import { logger } from '../utils/logger.js';
+
+// Input validation schema
+const GetFDPExtensionReportsSchema = z.object({
+  base_airport: z.string().min(3).max(4).optional(),
+  due_within_days: z.number().int().min(0).optional(),
+});
+
+// Tool definition
+export const getFDPExtensionReportsTool = {
+  name: 'get-fdp-extension-reports',
+  description:
+    'List unforeseen-circumstance FDP extensions awaiting their report to the authority (FAA: extensions over 30 minutes, due within 10 days), with overdue reports first',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      base_airport: {
+        type: 'string',
+        description: 'Filter by crew base',
+      },
+      due_within_days: {
+        type: 'integer',
+        description: 'Only reports due within this many days (overdue reports are always included)',
+      },
+    },
+  },
+};
+
+// Tool handler
+export async function handleGetFDPExtensionReports(args: unknown): Promise<MCPToolResponse> {
+  try {
+    // Validate input
+    const params = GetFDPExtensionReportsSchema.parse(args);
+    logger.info('Listing FDP extension reports due', params);
+
+    const service = new FDPExtensionService();
+    const reports = await service.getReportsDue({
+      base_airport: params.base_airport?.toUpperCase(),
+      due_within_days: params.due_within_days,
+    });
+
+    const response = {
+      summary: {
+        total_pending: reports.length,
+        overdue: reports.filter((r) => r.is_overdue).length,
+      },
+      reports: reports.map((report) => ({
+        extension_id: report.extension_id,
+        crew_member: {
+          employee_number: report.employee_number,
+          name: report.name,
+          base: report.base_airport,
+        },
+        duty_start_utc: report.duty_start_utc,
+        extension_minutes: report.extension_minutes,
+        authorized_by: report.authorized_by,
+        authorized_at: report.authorized_at,
+        reason: report.reason,
+        rule_pack: report.rule_pack,
+        regulation: report.regulation,
+        report_due_date: report.report_due_date,
+        days_until_due: report.days_until_due,
+        status: report.is_overdue ? 'OVERDUE' : 'PENDING',
+      })),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Error listing FDP extension reports:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
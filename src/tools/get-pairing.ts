@@ -0,0 +1,105 @@
+/**
+ * MCP Tool: get-pairing
+ * Fetch a pairing with its duty periods and layovers
+ */
+
+import { z } from 'zod';
+import { PairingService } from '../services/pairing-service.js';
+import type { MCPToolResponse } from '../types/mcp.js';
+import { logger } from '../utils/logger.js';
+
+// Input validation schema
+const GetPairingSchema = z.object({
+  pairing_identifier: z.string().min(1),
+});
+
+// Tool definition
+export const getPairingTool = {
+  name: 'get-pairing',
+  description:
+    'Get a pairing (trip) with its duty periods, layovers, TAFB and credit',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      pairing_identifier: {
+        type: 'string',
+        description: 'Pairing ID or trip number',
+      },
+    },
+    required: ['pairing_identifier'],
+  },
+};
+
+// Tool handler
+export async function handleGetPairing(
+  args: unknown
+): Promise<MCPToolResponse> {
+  try {
+    // Validate input
+    const params = GetPairingSchema.parse(args);
+    logger.info('Fetching pairing', { pairing_identifier: params.pairing_identifier });
+
+    const service = new PairingService();
+    const detail = await service.getPairingDetail(params.pairing_identifier);
+    if (!detail) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Pairing not found: ${params.pairing_identifier}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const response = {
+      pairing_id: detail.pairing.pairing_id,
+      trip_number: detail.pairing.trip_number,
+      base_airport: detail.pairing.base_airport,
+      crew_type: detail.pairing.crew_type,
+      start_utc: detail.pairing.start_utc,
+      end_utc: detail.pairing.end_utc,
+      credit_hours: (detail.pairing.credit_minutes / 60).toFixed(2),
+      tafb_hours: detail.tafb_hours.toFixed(2),
+      status: detail.pairing.status,
+      duty_periods: detail.duty_periods.map((duty) => ({
+        sequence_number: duty.sequence_number,
+        duty_start_utc: duty.duty_start_utc,
+        duty_end_utc: duty.duty_end_utc,
+        report_airport: duty.report_airport,
+        release_airport: duty.release_airport,
+        aircraft_type: duty.aircraft_type,
+        flight_time_hours: (duty.flight_time_minutes / 60).toFixed(2),
+        number_of_segments: duty.number_of_segments,
+      })),
+      layovers: detail.layovers.map((layover) => ({
+        airport: layover.airport,
+        after_duty: layover.after_duty,
+        rest_start_utc: layover.rest_start_utc,
+        rest_end_utc: layover.rest_end_utc,
+        rest_hours: layover.rest_hours.toFixed(2),
+      })),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Error fetching pairing:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -4,8 +4,9 @@
  */
 
 import { z } from 'zod';
-import { getCrewByAircraftType } from '../db/queries.js';
+import { getAircraftTypeRatings, getCrewByAircraftType } from '../db/queries.js';
 import { LegalityValidator } from '../engines/legality-validator.js';
+import { QualificationStatusService } from '../services/qualification-status.js';
 import type { MCPToolResponse } from '../types/mcp.js';
 import type { DutyAssignment } from '../types/qualifications.js';
 import { logger } from '../utils/logger.js';
@@ -66,10 +67,13 @@ export async function handleGetQualifiedCrewPool(
       position: params.position,
     });
 
-    // Get crew with aircraft qualification
+    // Get crew whose aircraft qualification is still valid on the duty date
+    const asOf = params.duty_date ? new Date(params.duty_date) : new Date();
+    const statusService = new QualificationStatusService();
     let qualifiedCrew = await getCrewByAircraftType(
       params.aircraft_type,
-      params.position
+      params.position,
+      asOf
     );
 
     // Filter by base if specified
@@ -85,6 +89,10 @@ export async function handleGetQualifiedCrewPool(
     const crewPool: any[] = [];
 
     for (const crew of qualifiedCrew) {
+      const rating = statusService
+        .applyToRatings(await getAircraftTypeRatings(crew.crew_id), asOf)
+        .find((r) => r.aircraft_type === params.aircraft_type);
+
       const crewInfo: any = {
         crew_member: {
           employee_number: crew.employee_number,
@@ -95,7 +103,8 @@ export async function handleGetQualifiedCrewPool(
         },
         qualifications: {
           aircraft_qualified: true,
-          currency_status: 'CURRENT',
+          currency_status: rating?.currency_status || 'CURRENT',
+          next_check_due: rating?.next_check_due,
         },
       };
 
@@ -5,7 +5,7 @@
 
 import { z } from 'zod';
 import { getCrewMember, getTrainingRecords } from '../db/queries.js';
-import { daysUntilExpiry } from '../utils/date-utils.js';
+import { QualificationStatusService } from '../services/qualification-status.js';
 import type { MCPToolResponse } from '../types/mcp.js';
 import { logger } from '../utils/logger.js';
 
@@ -76,7 +76,10 @@ export async function handleGetTrainingRequirements(
     }
 
     // Get training records
-    const allTraining = await getTrainingRecords(crewMember.crew_id);
+    const statusService = new QualificationStatusService();
+    const allTraining = statusService.applyToTraining(
+      await getTrainingRecords(crewMember.crew_id)
+    );
 
     // Filter by type if specified
     let training = allTraining;
@@ -92,7 +95,7 @@ export async function handleGetTrainingRequirements(
     const overdue: any[] = [];
 
     training.forEach((t) => {
-      const daysUntilDue = daysUntilExpiry(t.next_due_date);
+      const daysUntilDue = statusService.daysUntil(t.next_due_date);
 
       const trainingInfo = {
         type: t.training_type,
@@ -104,11 +107,11 @@ export async function handleGetTrainingRequirements(
         location: t.training_location,
       };
 
-      if (t.status === 'OVERDUE' || daysUntilDue < 0) {
+      if (t.status === 'OVERDUE') {
         overdue.push(trainingInfo);
       } else if (t.status === 'DUE_SOON' || daysUntilDue <= params.days_ahead) {
         dueSoon.push(trainingInfo);
-      } else if (t.status === 'CURRENT') {
+      } else {
         current.push(trainingInfo);
       }
     });
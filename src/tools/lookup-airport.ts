@@ -0,0 +1,94 @@
+/**
+ * MCP Tool: lookup-airport
+ * Look up airport reference data (timezone, coordinates, country) by IATA or ICAO code
+ */
+
+import { z } from 'zod';
+import { DateTime } from 'luxon';
+import { getAirport, getAirportSource } from '../utils/airports.js';
+import type { MCPToolResponse } from '../types/mcp.js';
+import { logger } from '../utils/logger.js';
+
+// Input validation schema
+const LookupAirportSchema = z.object({
+  code: z.string().min(3).max(4),
+});
+
+// Tool definition
+export const lookupAirportTool = {
+  name: 'lookup-airport',
+  description:
+    'Look up an airport by IATA or ICAO code and return its timezone, coordinates, country and current local time',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      code: {
+        type: 'string',
+        description: 'IATA (e.g., BUR) or ICAO (e.g., KBUR) airport code',
+      },
+    },
+    required: ['code'],
+  },
+};
+
+// Tool handler
+export async function handleLookupAirport(
+  args: unknown
+): Promise<MCPToolResponse> {
+  try {
+    // Validate input
+    const params = LookupAirportSchema.parse(args);
+    logger.info('Looking up airport', { code: params.code });
+
+    const airport = getAirport(params.code);
+    if (!airport) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Airport not found: ${params.code}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const localNow = DateTime.now().setZone(airport.timezone);
+
+    const response = {
+      iata_code: airport.iata_code,
+      icao_code: airport.icao_code,
+      name: airport.name,
+      city: airport.city,
+      country_code: airport.country_code,
+      timezone: airport.timezone,
+      utc_offset: localNow.toFormat('ZZ'),
+      local_time: localNow.toISO(),
+      coordinates: {
+        latitude: airport.latitude,
+        longitude: airport.longitude,
+      },
+      source: getAirportSource(airport),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Error looking up airport:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -4,14 +4,62 @@
  */
 
 import { z } from 'zod';
-import { getCrewMember, upsertDutyTimeRecord } from '../db/queries.js';
+import { subDays } from 'date-fns';
+import {
+  getCrewMember,
+  getDutyTimeRecords,
+  getReserveAssignments,
+  recordReserveCallout,
+  refreshLandingCounts,
+  upsertDutyTimeRecord,
+  replaceFlightSegments,
+} from '../db/queries.js';
 import { ComplianceChecker } from '../engines/compliance-checker.js';
-import { crossesWOCL } from '../utils/date-utils.js';
-import config from '../config/index.js';
+import { LegalityValidator } from '../engines/legality-validator.js';
+import { resolveRulePack } from '../engines/rule-packs/index.js';
+import { RestrictionService } from '../services/restriction-service.js';
+import { woclOverlapMinutes } from '../utils/date-utils.js';
+import { resolveAirportTimezone } from '../utils/airports.js';
 import type { MCPToolResponse } from '../types/mcp.js';
 import type { DutyTimeRecord } from '../types/crew.js';
 import { logger } from '../utils/logger.js';
 
+const LegSchema = z
+  .object({
+    flight_number: z.string().min(1),
+    origin: z.string().length(3),
+    destination: z.string().length(3),
+    out_utc: z.string().datetime(),
+    off_utc: z.string().datetime().optional(),
+    on_utc: z.string().datetime().optional(),
+    in_utc: z.string().datetime(),
+    aircraft_tail: z.string().optional(),
+    aircraft_type: z.string().optional(),
+    is_deadhead: z.boolean().optional().default(false),
+    pilot_flying: z.boolean().optional().default(false),
+    captain_seat: z.boolean().optional(),
+  })
+  .refine((leg) => new Date(leg.in_utc) > new Date(leg.out_utc), {
+    message: 'in_utc must be after out_utc',
+    path: ['in_utc'],
+  })
+  // A landing only counts toward recency in a known aircraft type
+  .refine((leg) => !leg.pilot_flying || !!leg.aircraft_type, {
+    message: 'aircraft_type is required when pilot_flying is true',
+    path: ['aircraft_type'],
+  });
+
+const RestOpportunitySchema = z
+  .object({
+    start_utc: z.string().datetime(),
+    end_utc: z.string().datetime(),
+    location: z.string().optional(),
+  })
+  .refine((rest) => new Date(rest.end_utc) > new Date(rest.start_utc), {
+    message: 'end_utc must be after start_utc',
+    path: ['end_utc'],
+  });
+
 // Input validation schema
 const UpdateDutyTimeSchema = z.object({
   crew_identifier: z.string().min(1),
@@ -21,10 +69,52 @@ const UpdateDutyTimeSchema = z.object({
   flight_time_minutes: z.number().int().min(0).optional(),
   duty_time_minutes: z.number().int().min(0).optional(),
   block_time_minutes: z.number().int().min(0).optional(),
+  deadhead_minutes: z.number().int().min(0).optional(),
   flight_segments: z.number().int().min(0).optional().default(0),
   wocl_crossing: z.boolean().optional(),
+  pairing_id: z.string().uuid().optional(),
+  rest_opportunities: z.array(RestOpportunitySchema).optional(),
+  reserve_callout_utc: z.string().datetime().optional(),
+  legs: z.array(LegSchema).optional(),
 });
 
+type Leg = z.infer<typeof LegSchema>;
+
+/**
+ * Minutes between two ISO timestamps
+ */
+function minutesBetween(start: string, end: string): number {
+  return Math.round((new Date(end).getTime() - new Date(start).getTime()) / (1000 * 60));
+}
+
+/**
+ * Derive flight time, block time, deadhead time and segment count from the legs flown
+ * Deadhead legs are duty time but do not count toward flight or block time
+ */
+function deriveTotalsFromLegs(legs: Leg[]): {
+  flight_time_minutes: number;
+  block_time_minutes: number;
+  deadhead_minutes: number;
+  flight_segments: number;
+} {
+  const operated = legs.filter((leg) => !leg.is_deadhead);
+  const blockMinutes = operated.reduce(
+    (sum, leg) => sum + minutesBetween(leg.out_utc, leg.in_utc),
+    0
+  );
+  const deadheadMinutes = legs
+    .filter((leg) => leg.is_deadhead)
+    .reduce((sum, leg) => sum + minutesBetween(leg.out_utc, leg.in_utc), 0);
+
+  return {
+    // Part 117 flight time runs block-out to block-in
+    flight_time_minutes: blockMinutes,
+    block_time_minutes: blockMinutes,
+    deadhead_minutes: deadheadMinutes,
+    flight_segments: operated.length,
+  };
+}
+
 // Tool definition
 export const updateDutyTimeTool = {
   name: 'update-duty-time',
@@ -58,6 +148,11 @@ export const updateDutyTimeTool = {
       block_time_minutes: {
         type: 'integer',
       },
+      deadhead_minutes: {
+        type: 'integer',
+        description:
+          'Positioning time as a passenger; counts as duty but not flight time, and is paid as deadhead',
+      },
       flight_segments: {
         type: 'integer',
       },
@@ -65,6 +160,64 @@ export const updateDutyTimeTool = {
         type: 'boolean',
         description: 'Did duty cross Window of Circadian Low',
       },
+      pairing_id: {
+        type: 'string',
+        description: 'Pairing (trip) this duty period belongs to',
+      },
+      rest_opportunities: {
+        type: 'array',
+        description:
+          'Rest opportunities taken within the duty (e.g. a hotel break), credited as split duty when the duty is validated',
+        items: {
+          type: 'object',
+          properties: {
+            start_utc: { type: 'string', format: 'date-time' },
+            end_utc: { type: 'string', format: 'date-time' },
+            location: { type: 'string', description: 'Airport or accommodation' },
+          },
+          required: ['start_utc', 'end_utc'],
+        },
+      },
+      reserve_callout_utc: {
+        type: 'string',
+        format: 'date-time',
+        description:
+          'When the crew member was called out, for a duty flown from a reserve assignment',
+      },
+      legs: {
+        type: 'array',
+        description:
+          'Flight legs in the duty period. When provided, flight time, block time, deadhead time and segment count are derived from the legs',
+        items: {
+          type: 'object',
+          properties: {
+            flight_number: { type: 'string' },
+            origin: { type: 'string', description: 'Origin IATA code' },
+            destination: { type: 'string', description: 'Destination IATA code' },
+            out_utc: { type: 'string', format: 'date-time', description: 'Block-out time' },
+            off_utc: { type: 'string', format: 'date-time', description: 'Takeoff time' },
+            on_utc: { type: 'string', format: 'date-time', description: 'Landing time' },
+            in_utc: { type: 'string', format: 'date-time', description: 'Block-in time' },
+            aircraft_tail: { type: 'string' },
+            aircraft_type: {
+              type: 'string',
+              description: 'Aircraft type flown (required when pilot_flying is true)',
+            },
+            is_deadhead: { type: 'boolean', default: false },
+            pilot_flying: {
+              type: 'boolean',
+              description: 'Crew member flew the takeoff and landing (counts toward landing recency)',
+              default: false,
+            },
+            captain_seat: {
+              type: 'boolean',
+              description:
+                'Crew member occupied the captain seat (counts toward PIC hours); defaults to whether they hold the captain position',
+            },
+          },
+          required: ['flight_number', 'origin', 'destination', 'out_utc', 'in_utc'],
+        },
+      },
     },
     required: ['crew_identifier', 'duty_date', 'duty_start_utc', 'duty_end_utc'],
   },
@@ -99,16 +252,50 @@ export async function handleUpdateDutyTime(
     const dutyStart = new Date(params.duty_start_utc);
     const dutyEnd = new Date(params.duty_end_utc);
 
+    // Derive flight totals from legs when provided
+    const legs = params.legs || [];
+    const totals =
+      legs.length > 0
+        ? deriveTotalsFromLegs(legs)
+        : {
+            flight_time_minutes: params.flight_time_minutes || 0,
+            block_time_minutes:
+              params.block_time_minutes || params.flight_time_minutes || 0,
+            deadhead_minutes: params.deadhead_minutes || 0,
+            flight_segments: params.flight_segments,
+          };
+
     // Calculate duty time if not provided
     const dutyTimeMinutes =
       params.duty_time_minutes ||
       Math.round((dutyEnd.getTime() - dutyStart.getTime()) / (1000 * 60));
 
     // Determine if WOCL crossing occurred (if not explicitly provided)
+    // WOCL is evaluated in the crew member's base local time
+    const timezone = resolveAirportTimezone(crewMember.base_airport);
+    const woclMinutes = woclOverlapMinutes(dutyStart, dutyEnd, timezone);
     const woclCrossing =
-      params.wocl_crossing !== undefined
-        ? params.wocl_crossing
-        : crossesWOCL(dutyStart, dutyEnd, config.timezone);
+      params.wocl_crossing !== undefined ? params.wocl_crossing : woclMinutes > 0;
+
+    // Continue the nighttime series from the preceding week of duties
+    const validator = new LegalityValidator();
+    const recentDuties = await getDutyTimeRecords(
+      crewMember.crew_id,
+      subDays(dutyStart, 7),
+      new Date(params.duty_date)
+    );
+    const consecutiveNights = woclCrossing
+      ? Math.max(
+          validator.countConsecutiveNights(
+            recentDuties,
+            dutyStart,
+            dutyEnd,
+            timezone,
+            resolveRulePack(crewMember)
+          ),
+          1
+        )
+      : 0;
 
     // Create duty time record
     const dutyRecord: Partial<DutyTimeRecord> = {
@@ -116,23 +303,75 @@ export async function handleUpdateDutyTime(
       duty_date: new Date(params.duty_date),
       duty_start_utc: dutyStart,
       duty_end_utc: dutyEnd,
-      flight_time_minutes: params.flight_time_minutes || 0,
+      flight_time_minutes: totals.flight_time_minutes,
       duty_time_minutes: dutyTimeMinutes,
-      block_time_minutes: params.block_time_minutes || params.flight_time_minutes || 0,
-      flight_segments: params.flight_segments,
+      block_time_minutes: totals.block_time_minutes,
+      deadhead_minutes: totals.deadhead_minutes,
+      flight_segments: totals.flight_segments,
       is_fdp: true, // Assume all duty is FDP unless specified
       wocl_crossing: woclCrossing,
-      consecutive_nights: 0, // TODO: Calculate from history
+      consecutive_nights: consecutiveNights,
+      pairing_id: params.pairing_id,
+      rest_opportunities: (params.rest_opportunities || []).map((rest) => ({
+        start_utc: new Date(rest.start_utc),
+        end_utc: new Date(rest.end_utc),
+        location: rest.location,
+      })),
     };
 
     // Insert/update duty record
     const savedRecord = await upsertDutyTimeRecord(dutyRecord);
 
+    // Record individual legs
+    const savedLegs =
+      legs.length > 0
+        ? await replaceFlightSegments(
+            savedRecord.duty_id,
+            crewMember.crew_id,
+            legs.map((leg, index) => ({
+              segment_number: index + 1,
+              flight_number: leg.flight_number,
+              origin: leg.origin.toUpperCase(),
+              destination: leg.destination.toUpperCase(),
+              out_utc: new Date(leg.out_utc),
+              off_utc: leg.off_utc ? new Date(leg.off_utc) : undefined,
+              on_utc: leg.on_utc ? new Date(leg.on_utc) : undefined,
+              in_utc: new Date(leg.in_utc),
+              aircraft_tail: leg.aircraft_tail,
+              aircraft_type: leg.aircraft_type,
+              is_deadhead: leg.is_deadhead,
+              pilot_flying: leg.pilot_flying,
+              captain_seat: leg.captain_seat ?? crewMember.position === 'CAPTAIN',
+            }))
+          )
+        : [];
+    if (savedLegs.length > 0) {
+      await refreshLandingCounts(crewMember.crew_id, dutyEnd);
+    }
+
+    // A duty reporting during a scheduled reserve period is a callout from that reserve
+    const reserve = (
+      await getReserveAssignments(crewMember.crew_id, dutyStart, dutyStart)
+    ).find((r) => r.status === 'SCHEDULED');
+    const calledOutReserve = reserve
+      ? await recordReserveCallout(
+          reserve.reserve_id,
+          params.reserve_callout_utc ? new Date(params.reserve_callout_utc) : null,
+          savedRecord.duty_id
+        )
+      : null;
+
+    // Lift restrictions whose hours in type are now met
+    const activeRestrictions =
+      savedLegs.length > 0 && crewMember.crew_type === 'PILOT'
+        ? await new RestrictionService().liftMetRestrictions(crewMember)
+        : [];
+
     // Run compliance check
     const checker = new ComplianceChecker();
     const complianceCheck = await checker.isClearForAssignment(
       crewMember.crew_id,
-      (params.flight_time_minutes || 0) / 60
+      totals.flight_time_minutes / 60
     );
 
     // Get updated rolling hours
@@ -149,12 +388,40 @@ export async function handleUpdateDutyTime(
         duty_date: params.duty_date,
         duty_start_utc: params.duty_start_utc,
         duty_end_utc: params.duty_end_utc,
-        flight_time_hours: ((params.flight_time_minutes || 0) / 60).toFixed(2),
+        flight_time_hours: (totals.flight_time_minutes / 60).toFixed(2),
         duty_time_hours: (dutyTimeMinutes / 60).toFixed(2),
-        block_time_hours: ((params.block_time_minutes || params.flight_time_minutes || 0) / 60).toFixed(2),
-        flight_segments: params.flight_segments,
+        block_time_hours: (totals.block_time_minutes / 60).toFixed(2),
+        deadhead_time_hours: (totals.deadhead_minutes / 60).toFixed(2),
+        flight_segments: totals.flight_segments,
         wocl_crossing: woclCrossing,
+        wocl_minutes: woclMinutes,
+        consecutive_nights: consecutiveNights,
+        rest_opportunities: params.rest_opportunities || [],
+        called_out_from_reserve: calledOutReserve
+          ? {
+              reserve_id: calledOutReserve.reserve_id,
+              reserve_type: calledOutReserve.reserve_type,
+              callout_utc: calledOutReserve.callout_utc,
+            }
+          : null,
+        totals_derived_from_legs: legs.length > 0,
+        legs: savedLegs.map((leg) => ({
+          segment_number: leg.segment_number,
+          flight_number: leg.flight_number,
+          origin: leg.origin,
+          destination: leg.destination,
+          out_utc: leg.out_utc,
+          in_utc: leg.in_utc,
+          aircraft_tail: leg.aircraft_tail,
+          is_deadhead: leg.is_deadhead,
+          pilot_flying: leg.pilot_flying,
+        })),
       },
+      active_restrictions: activeRestrictions.map((p) => ({
+        type: p.restriction.restriction_type,
+        condition: p.condition,
+        remaining_hours: p.remaining_hours,
+      })),
       compliance_check: {
         is_compliant: complianceCheck.is_clear,
         rolling_limits_updated: true,
@@ -175,7 +442,7 @@ export async function handleUpdateDutyTime(
           ? `${alerts.length} compliance alert(s) generated`
           : 'No compliance issues detected',
         woclCrossing
-          ? 'Note: This duty crossed the Window of Circadian Low (WOCL) - monitor for fatigue'
+          ? `Note: This duty crossed the Window of Circadian Low (WOCL) - consecutive night ${consecutiveNights}, monitor for fatigue`
           : null,
       ].filter(Boolean),
     };
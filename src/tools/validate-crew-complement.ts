@@ -0,0 +1,166 @@
+/**
+ * MCP Tool: validate-crew-complement
+ * Validate a full proposed cockpit and cabin crew for one flight
+ */
+
+import { z } from 'zod';
+import { CrewComplementService } from '../services/crew-complement-service.js';
+import type { MCPToolResponse } from '../types/mcp.js';
+import { logger } from '../utils/logger.js';
+
+// Input validation schema
+const ValidateCrewComplementSchema = z
+  .object({
+    aircraft_type: z.string().min(1),
+    duty_start_utc: z.string().datetime(),
+    duty_end_utc: z.string().datetime(),
+    flight_time_minutes: z.number().int().min(0).optional().default(0),
+    number_of_segments: z.number().int().min(1).optional().default(1),
+    report_airport: z.string().length(3).optional(),
+    seat_capacity: z.number().int().min(1).optional(),
+    captain: z.string().min(1),
+    first_officer: z.string().min(1),
+    flight_attendants: z.array(z.string().min(1)).optional().default([]),
+  })
+  .refine((params) => new Date(params.duty_end_utc) > new Date(params.duty_start_utc), {
+    message: 'duty_end_utc must be after duty_start_utc',
+    path: ['duty_end_utc'],
+  });
+
+// Tool definition
+export const validateCrewComplementTool = {
+  name: 'validate-crew-complement',
+  description:
+    'Validate a full proposed cockpit and cabin crew for a flight: individual legality, inexperienced captain/first officer pairing (121.438), flight attendant count by seat capacity (121.391), and Lead FA presence',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      aircraft_type: {
+        type: 'string',
+        description: 'Aircraft type (e.g., B737-800)',
+      },
+      duty_start_utc: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Duty start time in UTC',
+      },
+      duty_end_utc: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Duty end time in UTC',
+      },
+      flight_time_minutes: {
+        type: 'integer',
+        description: 'Scheduled flight time in minutes',
+      },
+      number_of_segments: {
+        type: 'integer',
+        default: 1,
+      },
+      report_airport: {
+        type: 'string',
+        description: 'IATA code of the report station',
+      },
+      seat_capacity: {
+        type: 'integer',
+        description: 'Passenger seats on the aircraft (defaults to the configured capacity for the type)',
+      },
+      captain: {
+        type: 'string',
+        description: 'Employee number or crew_id of the captain',
+      },
+      first_officer: {
+        type: 'string',
+        description: 'Employee number or crew_id of the first officer',
+      },
+      flight_attendants: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Employee numbers or crew_ids of the cabin crew',
+      },
+    },
+    required: ['aircraft_type', 'duty_start_utc', 'duty_end_utc', 'captain', 'first_officer'],
+  },
+};
+
+// Tool handler
+export async function handleValidateCrewComplement(
+  args: unknown
+): Promise<MCPToolResponse> {
+  try {
+    // Validate input
+    const params = ValidateCrewComplementSchema.parse(args);
+    logger.info('Validating crew complement', {
+      aircraft_type: params.aircraft_type,
+      captain: params.captain,
+      first_officer: params.first_officer,
+      flight_attendants: params.flight_attendants.length,
+    });
+
+    const service = new CrewComplementService();
+    const validation = await service.validateComplement({
+      duty: {
+        aircraft_type: params.aircraft_type,
+        duty_start_utc: new Date(params.duty_start_utc),
+        duty_end_utc: new Date(params.duty_end_utc),
+        flight_time_minutes: params.flight_time_minutes,
+        number_of_segments: params.number_of_segments,
+        report_airport: params.report_airport?.toUpperCase(),
+      },
+      captain: params.captain,
+      first_officer: params.first_officer,
+      flight_attendants: params.flight_attendants,
+      seat_capacity: params.seat_capacity,
+    });
+
+    const response = {
+      is_legal: validation.is_legal,
+      flight: {
+        aircraft_type: params.aircraft_type,
+        duty_start_utc: params.duty_start_utc,
+        duty_end_utc: params.duty_end_utc,
+      },
+      violated_rules: validation.violated_rules,
+      inexperienced_pairing: validation.inexperienced_pairing,
+      cabin_crew: validation.cabin_crew,
+      crew: validation.members.map((member) => ({
+        role: member.role,
+        crew_identifier: member.crew_identifier,
+        employee_number: member.employee_number,
+        name: member.name,
+        position: member.position,
+        hours_in_type: member.hours_in_type,
+        is_legal: member.legality ? member.legality.is_legal : null,
+        violated_rules: member.legality?.violated_rules.map((r) => r.rule) || [],
+      })),
+      decision: validation.is_legal
+        ? 'APPROVED - Crew complement is legal'
+        : `DENIED - ${validation.violated_rules.map((r) => r.rule).join(', ')}`,
+    };
+
+    logger.info('Crew complement validation complete', {
+      is_legal: validation.is_legal,
+      violations: validation.violated_rules.length,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Error validating crew complement:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -4,11 +4,24 @@
  */
 
 import { z } from 'zod';
+import { getCrewMember } from '../db/queries.js';
 import { LegalityValidator } from '../engines/legality-validator.js';
+import { FADutyValidator } from '../engines/fa-duty-validator.js';
 import type { MCPToolResponse } from '../types/mcp.js';
-import type { DutyAssignment } from '../types/qualifications.js';
+import type { DutyAssignment, FALegalityResult } from '../types/qualifications.js';
 import { logger } from '../utils/logger.js';
 
+const RestOpportunitySchema = z
+  .object({
+    start_utc: z.string().datetime(),
+    end_utc: z.string().datetime(),
+    location: z.string().optional(),
+  })
+  .refine((rest) => new Date(rest.end_utc) > new Date(rest.start_utc), {
+    message: 'end_utc must be after start_utc',
+    path: ['end_utc'],
+  });
+
 // Input validation schema
 const ValidateCrewLegalitySchema = z.object({
   crew_identifier: z.string().min(1),
@@ -17,13 +30,27 @@ const ValidateCrewLegalitySchema = z.object({
   duty_end_utc: z.string().datetime().optional(),
   flight_time_minutes: z.number().int().min(0).optional(),
   number_of_segments: z.number().int().min(1).optional().default(1),
-});
+  augmenting_pilots: z.number().int().min(0).max(2).optional().default(0),
+  rest_facility_class: z.enum(['CLASS_1', 'CLASS_2', 'CLASS_3']).optional(),
+  report_airport: z.string().min(3).max(4).optional(),
+  theater_arrival_utc: z.string().datetime().optional(),
+  additional_flight_attendants: z.number().int().min(0).optional().default(0),
+  fdp_extension_hours: z.number().min(0).optional(),
+  split_duty_break_hours: z.number().min(0).optional(),
+  rest_opportunities: z.array(RestOpportunitySchema).optional(),
+}).refine(
+  (params) => params.augmenting_pilots === 0 || params.rest_facility_class !== undefined,
+  {
+    message: 'rest_facility_class is required when augmenting_pilots is greater than 0',
+    path: ['rest_facility_class'],
+  }
+);
 
 // Tool definition
 export const validateCrewLegalityTool = {
   name: 'validate-crew-legality',
   description:
-    'Validate if a crew member can legally be assigned to a duty period based on FAA Part 117, qualifications, and rest requirements',
+    'Validate if a crew member can legally be assigned to a duty period based on their regulatory rule pack (FAA Part 117 or EASA FTL) for pilots or Part 121 Subpart Q for flight attendants, qualifications, and rest requirements',
   inputSchema: {
     type: 'object',
     properties: {
@@ -54,11 +81,105 @@ export const validateCrewLegalityTool = {
         description: 'Number of flight segments in duty period',
         default: 1,
       },
+      augmenting_pilots: {
+        type: 'integer',
+        description:
+          'Number of pilots added to the minimum crew for an augmented operation (0 for unaugmented)',
+        default: 0,
+      },
+      rest_facility_class: {
+        type: 'string',
+        enum: ['CLASS_1', 'CLASS_2', 'CLASS_3'],
+        description: 'Onboard rest facility class, required for augmented operations',
+      },
+      report_airport: {
+        type: 'string',
+        description: 'Airport where the duty reports (defaults to the crew member base)',
+      },
+      theater_arrival_utc: {
+        type: 'string',
+        format: 'date-time',
+        description:
+          'When the crew member arrived in the theater of the report airport, used to determine acclimation',
+      },
+      additional_flight_attendants: {
+        type: 'integer',
+        description:
+          'Flight attendants staffed above the minimum complement, which extends the flight attendant duty limit',
+        default: 0,
+      },
+      fdp_extension_hours: {
+        type: 'number',
+        description: 'Planned extension of the maximum FDP in hours, where the rule pack allows one (EASA FTL)',
+      },
+      split_duty_break_hours: {
+        type: 'number',
+        description: 'Length in hours of a break on the ground within the FDP, credited as split duty where the rule pack allows it (EASA FTL)',
+      },
+      rest_opportunities: {
+        type: 'array',
+        description:
+          'Rest opportunities within the duty (e.g. a hotel break), credited toward the FDP limit as split duty where they meet the rule pack conditions. Defaults to those recorded for the duty',
+        items: {
+          type: 'object',
+          properties: {
+            start_utc: { type: 'string', format: 'date-time' },
+            end_utc: { type: 'string', format: 'date-time' },
+            location: { type: 'string', description: 'Airport or accommodation' },
+          },
+          required: ['start_utc', 'end_utc'],
+        },
+      },
     },
     required: ['crew_identifier', 'aircraft_type', 'duty_start_utc'],
   },
 };
 
+/**
+ * Format a flight attendant legality result
+ */
+function formatFlightAttendantResponse(
+  params: z.infer<typeof ValidateCrewLegalitySchema>,
+  result: FALegalityResult
+) {
+  return {
+    is_legal: result.is_legal,
+    crew_status: result.crew_status,
+    crew_type: 'FLIGHT_ATTENDANT',
+    regulation: '14 CFR 121.467',
+    validation_timestamp: new Date().toISOString(),
+    proposed_duty: {
+      aircraft_type: params.aircraft_type,
+      duty_start: params.duty_start_utc,
+      duty_end: params.duty_end_utc,
+      additional_flight_attendants: params.additional_flight_attendants,
+    },
+    qualification_issues: result.qualification_issues,
+    duty_compliance: {
+      is_compliant: result.duty_compliance.is_compliant,
+      scheduled_duty_hours: result.duty_compliance.scheduled_duty_hours,
+      max_duty_hours: result.duty_compliance.max_duty_hours,
+      violations: result.duty_compliance.violations,
+    },
+    rest_compliance: {
+      is_compliant: result.rest_compliance.is_compliant,
+      rest_before_hours: result.rest_compliance.rest_before_hours,
+      minimum_rest_required: result.rest_compliance.minimum_rest_required,
+      reduced_rest: result.rest_compliance.reduced_rest,
+      compensatory_rest_hours: result.rest_compliance.compensatory_rest_hours,
+      compensatory_rest_due_by: result.rest_compliance.compensatory_rest_due_by,
+      longest_rest_7_days_hours: result.rest_compliance.longest_rest_7_days_hours,
+      weekly_rest_required_hours: result.rest_compliance.weekly_rest_required_hours,
+      violations: result.rest_compliance.violations,
+    },
+    violated_rules: result.violated_rules,
+    recommendations: result.recommendations,
+    decision: result.is_legal
+      ? 'APPROVED - Flight attendant is legal for this assignment'
+      : 'DENIED - Flight attendant cannot be assigned due to duty or rest violations',
+  };
+}
+
 // Tool handler
 export async function handleValidateCrewLegality(
   args: unknown
@@ -78,8 +199,57 @@ export async function handleValidateCrewLegality(
       duty_end_utc: params.duty_end_utc ? new Date(params.duty_end_utc) : undefined,
       flight_time_minutes: params.flight_time_minutes || 0,
       number_of_segments: params.number_of_segments,
+      augmenting_pilots: params.augmenting_pilots,
+      rest_facility_class: params.rest_facility_class,
+      report_airport: params.report_airport?.toUpperCase(),
+      theater_arrival_utc: params.theater_arrival_utc
+        ? new Date(params.theater_arrival_utc)
+        : undefined,
+      additional_flight_attendants: params.additional_flight_attendants,
+      fdp_extension_hours: params.fdp_extension_hours,
+      split_duty_break_hours: params.split_duty_break_hours,
+      rest_opportunities: params.rest_opportunities?.map((rest) => ({
+        start_utc: new Date(rest.start_utc),
+        end_utc: new Date(rest.end_utc),
+        location: rest.location,
+      })),
     };
 
+    const crewMember = await getCrewMember(params.crew_identifier);
+    if (!crewMember) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Crew member not found: ${params.crew_identifier}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Flight attendants follow Part 121 Subpart Q rather than a pilot rule pack
+    if (crewMember.crew_type === 'FLIGHT_ATTENDANT') {
+      const faResult = await new FADutyValidator().validateAssignment(
+        crewMember.crew_id,
+        dutyAssignment
+      );
+
+      logger.info('Flight attendant legality validation complete', {
+        crew_identifier: params.crew_identifier,
+        is_legal: faResult.is_legal,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(formatFlightAttendantResponse(params, faResult), null, 2),
+          },
+        ],
+      };
+    }
+
     // Validate legality
     const validator = new LegalityValidator();
     const result = await validator.validateAssignment(
@@ -91,6 +261,7 @@ export async function handleValidateCrewLegality(
     const response = {
       is_legal: result.is_legal,
       crew_status: result.crew_status,
+      rule_pack: result.rule_pack,
       validation_timestamp: new Date().toISOString(),
       proposed_duty: {
         aircraft_type: params.aircraft_type,
@@ -98,6 +269,12 @@ export async function handleValidateCrewLegality(
         duty_end: params.duty_end_utc,
         flight_time_minutes: params.flight_time_minutes,
         number_of_segments: params.number_of_segments,
+        augmenting_pilots: params.augmenting_pilots,
+        rest_facility_class: params.rest_facility_class,
+        report_airport: params.report_airport,
+        fdp_extension_hours: params.fdp_extension_hours,
+        split_duty_break_hours: params.split_duty_break_hours,
+        rest_opportunities: params.rest_opportunities,
       },
       qualification_issues:
         result.qualification_issues.length > 0
@@ -106,14 +283,33 @@ export async function handleValidateCrewLegality(
               description: issue.description,
               severity: issue.severity,
               resolution: issue.resolution,
+              lapsed_on: issue.lapsed_on,
             }))
           : [],
       rest_compliance: {
         is_compliant: result.rest_compliance.is_compliant,
         hours_since_rest: result.rest_compliance.hours_since_rest,
         minimum_rest_required: result.rest_compliance.minimum_rest_required,
+        longest_qualifying_rest_hours:
+          result.rest_compliance.longest_qualifying_rest_hours,
+        weekly_rest_required_hours: result.rest_compliance.weekly_rest_required_hours,
         violations: result.rest_compliance.violations,
       },
+      fdp_compliance: {
+        is_compliant: result.fdp_compliance.is_compliant,
+        fdp_table: result.fdp_compliance.fdp_table,
+        report_local_time: result.fdp_compliance.report_local_time,
+        report_time_bucket: result.fdp_compliance.report_time_bucket,
+        timezone: result.fdp_compliance.timezone,
+        acclimation: result.fdp_compliance.acclimation,
+        proposed_fdp_hours: result.fdp_compliance.proposed_fdp_hours,
+        max_fdp_hours: result.fdp_compliance.max_fdp_hours,
+        extension_hours: result.fdp_compliance.extension_hours,
+        split_duty_credit_hours: result.fdp_compliance.split_duty_credit_hours,
+        split_duty_rest: result.fdp_compliance.split_duty_rest,
+        violations: result.fdp_compliance.violations,
+      },
+      reserve_compliance: result.reserve_compliance,
       duty_limits: {
         rolling_28_day_hours: result.duty_limits.rolling_28_day_hours,
         rolling_28_day_limit: result.duty_limits.rolling_28_day_limit,
@@ -125,8 +321,20 @@ export async function handleValidateCrewLegality(
         rolling_365_day_remaining:
           result.duty_limits.rolling_365_day_limit -
           result.duty_limits.rolling_365_day_hours,
+        calendar_year_hours: result.duty_limits.calendar_year_hours,
+        calendar_year_limit: result.duty_limits.calendar_year_limit,
+        cumulative_basis: result.duty_limits.cumulative_basis,
+        rolling_168_hour_fdp_hours: result.duty_limits.rolling_168_hour_fdp_hours,
+        rolling_168_hour_fdp_limit: result.duty_limits.rolling_168_hour_fdp_limit,
+        rolling_336_hour_fdp_hours: result.duty_limits.rolling_336_hour_fdp_hours,
+        rolling_336_hour_fdp_limit: result.duty_limits.rolling_336_hour_fdp_limit,
+        rolling_672_hour_fdp_hours: result.duty_limits.rolling_672_hour_fdp_hours,
+        rolling_672_hour_fdp_limit: result.duty_limits.rolling_672_hour_fdp_limit,
         consecutive_duty_days: result.duty_limits.consecutive_duty_days,
+        consecutive_nights: result.duty_limits.consecutive_nights,
+        consecutive_nights_limit: result.duty_limits.consecutive_nights_limit,
       },
+      violated_rules: result.violated_rules,
       recommendations: result.recommendations,
       decision: result.is_legal
         ? 'APPROVED - Crew member is legal and qualified for this assignment'
@@ -0,0 +1,249 @@
+/**
+ * MCP Tool: validate-pairing-legality
+ * Simulate an ordered sequence of duties for one crew member through the legality validator
+ */
+
+import { z } from 'zod';
+import { LegalityValidator } from '../engines/legality-validator.js';
+import { FADutyValidator } from '../engines/fa-duty-validator.js';
+import { getCrewMember } from '../db/queries.js';
+import type { MCPToolResponse } from '../types/mcp.js';
+import type { DutyAssignment } from '../types/qualifications.js';
+import { logger } from '../utils/logger.js';
+
+const DutySchema = z.object({
+  aircraft_type: z.string().min(1),
+  duty_start_utc: z.string().datetime(),
+  duty_end_utc: z.string().datetime(),
+  flight_time_minutes: z.number().int().min(0).optional().default(0),
+  number_of_segments: z.number().int().min(1).optional().default(1),
+  augmenting_pilots: z.number().int().min(0).max(2).optional().default(0),
+  additional_flight_attendants: z.number().int().min(0).optional().default(0),
+  rest_facility_class: z.enum(['CLASS_1', 'CLASS_2', 'CLASS_3']).optional(),
+  report_airport: z.string().length(3).optional(),
+  release_airport: z.string().length(3).optional(),
+});
+
+// Input validation schema
+const ValidatePairingLegalitySchema = z
+  .object({
+    crew_identifier: z.string().min(1),
+    duties: z.array(DutySchema).min(1),
+  })
+  .refine(
+    (params) =>
+      params.duties.every(
+        (duty, i) =>
+          new Date(duty.duty_end_utc) > new Date(duty.duty_start_utc) &&
+          (i === 0 ||
+            new Date(duty.duty_start_utc) >= new Date(params.duties[i - 1].duty_end_utc))
+      ),
+    {
+      message: 'duties must be in chronological order without overlapping',
+      path: ['duties'],
+    }
+  );
+
+// Tool definition
+export const validatePairingLegalityTool = {
+  name: 'validate-pairing-legality',
+  description:
+    'Simulate an ordered list of duties and layovers for one crew member, carrying projected flight hours, rest and consecutive nights forward, and report the first failing duty and rule',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      crew_identifier: {
+        type: 'string',
+        description: 'Employee number or crew_id',
+      },
+      duties: {
+        type: 'array',
+        description:
+          'Duties in chronological order; the gaps between them are the layovers',
+        items: {
+          type: 'object',
+          properties: {
+            aircraft_type: { type: 'string' },
+            duty_start_utc: { type: 'string', format: 'date-time' },
+            duty_end_utc: { type: 'string', format: 'date-time' },
+            flight_time_minutes: { type: 'integer' },
+            number_of_segments: { type: 'integer', default: 1 },
+            augmenting_pilots: { type: 'integer', default: 0 },
+            additional_flight_attendants: {
+              type: 'integer',
+              description: 'Flight attendants staffed above the minimum (flight attendant crew only)',
+              default: 0,
+            },
+            rest_facility_class: {
+              type: 'string',
+              enum: ['CLASS_1', 'CLASS_2', 'CLASS_3'],
+            },
+            report_airport: { type: 'string' },
+            release_airport: {
+              type: 'string',
+              description: 'Where the duty ends (the layover station)',
+            },
+          },
+          required: ['aircraft_type', 'duty_start_utc', 'duty_end_utc'],
+        },
+      },
+    },
+    required: ['crew_identifier', 'duties'],
+  },
+};
+
+// Tool handler
+export async function handleValidatePairingLegality(
+  args: unknown
+): Promise<MCPToolResponse> {
+  try {
+    // Validate input
+    const params = ValidatePairingLegalitySchema.parse(args);
+    logger.info('Validating pairing legality', {
+      crew_identifier: params.crew_identifier,
+      duties: params.duties.length,
+    });
+
+    const duties: DutyAssignment[] = params.duties.map((duty) => ({
+      aircraft_type: duty.aircraft_type,
+      duty_start_utc: new Date(duty.duty_start_utc),
+      duty_end_utc: new Date(duty.duty_end_utc),
+      flight_time_minutes: duty.flight_time_minutes,
+      number_of_segments: duty.number_of_segments,
+      augmenting_pilots: duty.augmenting_pilots,
+      additional_flight_attendants: duty.additional_flight_attendants,
+      rest_facility_class: duty.rest_facility_class,
+      report_airport: duty.report_airport?.toUpperCase(),
+    }));
+
+    const crewMember = await getCrewMember(params.crew_identifier);
+    if (!crewMember) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Crew member not found: ${params.crew_identifier}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Flight attendants follow Part 121 Subpart Q rather than a pilot rule pack
+    if (crewMember.crew_type === 'FLIGHT_ATTENDANT') {
+      const faSequence = await new FADutyValidator().validateSequence(crewMember.crew_id, duties);
+
+      logger.info('Flight attendant pairing legality validation complete', {
+        crew_identifier: params.crew_identifier,
+        is_legal: faSequence.is_legal,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                is_legal: faSequence.is_legal,
+                crew_identifier: params.crew_identifier,
+                regulation: '14 CFR 121.467',
+                first_failing_duty: faSequence.first_failure
+                  ? {
+                      duty_number: faSequence.first_failure.index + 1,
+                      duty_start_utc: faSequence.first_failure.duty_start_utc,
+                      violated_rules: faSequence.first_failure.violated_rules,
+                    }
+                  : null,
+                duties: faSequence.results.map((result, index) => ({
+                  duty_number: index + 1,
+                  duty_start_utc: params.duties[index].duty_start_utc,
+                  is_legal: result.is_legal,
+                  violated_rules: result.violated_rules,
+                  projected: {
+                    scheduled_duty_hours: result.duty_compliance.scheduled_duty_hours,
+                    max_duty_hours: result.duty_compliance.max_duty_hours,
+                    rest_before_hours: result.rest_compliance.rest_before_hours,
+                    minimum_rest_required: result.rest_compliance.minimum_rest_required,
+                    longest_rest_7_days_hours: result.rest_compliance.longest_rest_7_days_hours,
+                  },
+                })),
+                decision: faSequence.is_legal
+                  ? 'APPROVED - Every duty in the sequence is legal'
+                  : `DENIED - Duty ${faSequence.first_failure!.index + 1} fails ${faSequence.first_failure!.violated_rules.map((r) => r.rule).join(', ')}`,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const validator = new LegalityValidator();
+    const sequence = await validator.validateSequence(crewMember.crew_id, duties);
+
+    const response = {
+      is_legal: sequence.is_legal,
+      crew_identifier: params.crew_identifier,
+      first_failing_duty: sequence.first_failure
+        ? {
+            duty_number: sequence.first_failure.index + 1,
+            duty_start_utc: sequence.first_failure.duty_start_utc,
+            violated_rules: sequence.first_failure.violated_rules,
+          }
+        : null,
+      duties: sequence.results.map((result, index) => ({
+        duty_number: index + 1,
+        duty_start_utc: params.duties[index].duty_start_utc,
+        is_legal: result.is_legal,
+        violated_rules: result.violated_rules,
+        projected: {
+          hours_since_rest: result.rest_compliance.hours_since_rest,
+          minimum_rest_required: result.rest_compliance.minimum_rest_required,
+          proposed_fdp_hours: result.fdp_compliance.proposed_fdp_hours,
+          max_fdp_hours: result.fdp_compliance.max_fdp_hours,
+          rolling_28_day_hours: result.duty_limits.rolling_28_day_hours,
+          rolling_365_day_hours: result.duty_limits.rolling_365_day_hours,
+          consecutive_nights: result.duty_limits.consecutive_nights,
+        },
+      })),
+      layovers: params.duties.slice(0, -1).map((duty, index) => ({
+        after_duty: index + 1,
+        airport: duty.release_airport || params.duties[index + 1].report_airport,
+        rest_hours: (
+          (new Date(params.duties[index + 1].duty_start_utc).getTime() -
+            new Date(duty.duty_end_utc).getTime()) /
+          (1000 * 60 * 60)
+        ).toFixed(2),
+      })),
+      decision: sequence.is_legal
+        ? 'APPROVED - Every duty in the sequence is legal'
+        : `DENIED - Duty ${sequence.first_failure!.index + 1} fails ${sequence.first_failure!.violated_rules.map((r) => r.rule).join(', ')}`,
+    };
+
+    logger.info('Pairing legality validation complete', {
+      crew_identifier: params.crew_identifier,
+      is_legal: sequence.is_legal,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Error validating pairing legality:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * MCP Tool: validate-pairing
+ * Validate a whole pairing for a crew member against FAA Part 117
+ */
+
+import { z } from 'zod';
+import { PairingService } from '../services/pairing-service.js';
+import type { MCPToolResponse } from '../types/mcp.js';
+import { logger } from '../utils/logger.js';
+
+// Input validation schema
+const ValidatePairingSchema = z.object({
+  pairing_identifier: z.string().min(1),
+  crew_identifier: z.string().min(1),
+});
+
+// Tool definition
+export const validatePairingTool = {
+  name: 'validate-pairing',
+  description:
+    'Validate every duty period and layover of a pairing for a crew member against FAA Part 117 in one call',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      pairing_identifier: {
+        type: 'string',
+        description: 'Pairing ID or trip number',
+      },
+      crew_identifier: {
+        type: 'string',
+        description: 'Employee number or crew_id',
+      },
+    },
+    required: ['pairing_identifier', 'crew_identifier'],
+  },
+};
+
+// Tool handler
+export async function handleValidatePairing(
+  args: unknown
+): Promise<MCPToolResponse> {
+  try {
+    // Validate input
+    const params = ValidatePairingSchema.parse(args);
+    logger.info('Validating pairing', {
+      pairing_identifier: params.pairing_identifier,
+      crew_identifier: params.crew_identifier,
+    });
+
+    const service = new PairingService();
+    const validation = await service.validatePairing(
+      params.pairing_identifier,
+      params.crew_identifier
+    );
+
+    const response = {
+      is_legal: validation.is_legal,
+      pairing: {
+        pairing_id: validation.pairing.pairing_id,
+        trip_number: validation.pairing.trip_number,
+        start_utc: validation.pairing.start_utc,
+        end_utc: validation.pairing.end_utc,
+      },
+      crew_member: validation.crew_member,
+      first_failure: validation.first_failure,
+      duty_periods: validation.duty_validations.map((duty) => ({
+        sequence_number: duty.sequence_number,
+        duty_start_utc: duty.duty_start_utc,
+        is_legal: duty.is_legal,
+        qualification_issues: duty.result.qualification_issues.map((issue) => issue.description),
+        rest_violations: duty.result.rest_compliance.violations,
+        fdp_violations: duty.result.fdp_compliance.violations,
+        max_fdp_hours: duty.result.fdp_compliance.max_fdp_hours,
+        proposed_fdp_hours: duty.result.fdp_compliance.proposed_fdp_hours,
+      })),
+      layovers: validation.layover_validations.map((layover) => ({
+        airport: layover.airport,
+        after_duty: layover.after_duty,
+        rest_hours: layover.rest_hours.toFixed(2),
+        minimum_rest_required: layover.minimum_rest_required,
+        is_compliant: layover.is_compliant,
+      })),
+      violations: validation.violations,
+      decision: validation.is_legal
+        ? 'APPROVED - Crew member is legal for the entire pairing'
+        : 'DENIED - Pairing has duty periods or layovers that violate FAA Part 117',
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Error validating pairing:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
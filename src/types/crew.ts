@@ -2,6 +2,9 @@
  * Core crew member types and interfaces
  */
 
+import type { RestOpportunity } from './qualifications.js';
+import type { RulePackId } from './rule-pack.js';
+
 export type CrewType = 'PILOT' | 'FLIGHT_ATTENDANT';
 
 export type PilotPosition = 'CAPTAIN' | 'FIRST_OFFICER';
@@ -23,6 +26,8 @@ export interface CrewMember {
   seniority_number?: number;
   status: CrewStatus;
   union_code?: string;
+  operator_certificate?: string;
+  rule_pack?: RulePackId;
   email?: string;
   phone?: string;
   created_at: Date;
@@ -66,6 +71,8 @@ export interface MedicalCertificate {
   created_at: Date;
 }
 
+export type TrainingEventFormat = 'SIMULATOR' | 'CLASSROOM' | 'LINE_CHECK';
+
 export interface RecurrentTraining {
   training_id: string;
   crew_id: string;
@@ -75,6 +82,8 @@ export interface RecurrentTraining {
   next_due_date: Date;
   instructor_name?: string;
   training_location?: string;
+  event_format: TrainingEventFormat;
+  duration_minutes?: number;
   status: 'CURRENT' | 'DUE_SOON' | 'OVERDUE';
   created_at: Date;
 }
@@ -88,21 +97,83 @@ export interface DutyTimeRecord {
   flight_time_minutes: number;
   duty_time_minutes: number;
   block_time_minutes: number;
+  deadhead_minutes: number;
   rest_period_start_utc?: Date;
   rest_period_end_utc?: Date;
   is_fdp: boolean;
   wocl_crossing: boolean;
   consecutive_nights: number;
   flight_segments: number;
+  pairing_id?: string;
+  rest_opportunities?: RestOpportunity[];
   created_at: Date;
   updated_at: Date;
 }
 
+export interface FlightSegment {
+  segment_id: string;
+  duty_id: string;
+  crew_id: string;
+  segment_number: number;
+  flight_number: string;
+  origin: string;
+  destination: string;
+  out_utc: Date;
+  off_utc?: Date;
+  on_utc?: Date;
+  in_utc: Date;
+  aircraft_tail?: string;
+  aircraft_type?: string;
+  is_deadhead: boolean;
+  pilot_flying: boolean;
+  captain_seat: boolean;
+  created_at: Date;
+}
+
+export interface Airport {
+  iata_code: string;
+  icao_code?: string;
+  name: string;
+  city?: string;
+  country_code: string;
+  timezone: string;
+  latitude: number;
+  longitude: number;
+}
+
+export type RestrictionType = 'HIGH_MINIMUMS' | 'IOE' | 'CONSOLIDATION';
+export type RestrictionLiftCondition = 'PIC_HOURS_IN_TYPE' | 'FLIGHT_HOURS_IN_TYPE' | 'MANUAL';
+
+export interface QualificationRestriction {
+  restriction_id: string;
+  crew_id: string;
+  restriction_type: RestrictionType;
+  aircraft_type: string;
+  description?: string;
+  imposed_date: Date;
+  lift_condition: RestrictionLiftCondition;
+  required_hours?: number;
+  expires_on?: Date;
+  status: 'ACTIVE' | 'LIFTED';
+  lifted_at?: Date;
+  lift_reason?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RestrictionProgress {
+  restriction: QualificationRestriction;
+  accumulated_hours: number;
+  remaining_hours: number | null;
+  condition: string;
+}
+
 export interface CrewQualificationProfile {
   crew_member: CrewMember;
   licenses: PilotLicense[];
   type_ratings: AircraftTypeRating[];
   medical?: MedicalCertificate;
   training: RecurrentTraining[];
+  restrictions: RestrictionProgress[];
   overall_status: 'QUALIFIED' | 'RESTRICTIONS' | 'NOT_QUALIFIED';
 }
@@ -25,6 +25,18 @@ export interface ValidateCrewLegalityArgs {
   duty_end_utc?: string;
   flight_time_minutes?: number;
   number_of_segments?: number;
+  augmenting_pilots?: number;
+  rest_facility_class?: 'CLASS_1' | 'CLASS_2' | 'CLASS_3';
+  report_airport?: string;
+  theater_arrival_utc?: string;
+  additional_flight_attendants?: number;
+  fdp_extension_hours?: number;
+  split_duty_break_hours?: number;
+  rest_opportunities?: Array<{
+    start_utc: string;
+    end_utc: string;
+    location?: string;
+  }>;
 }
 
 export interface CalculateCrewPayArgs {
@@ -71,6 +83,117 @@ export interface UpdateDutyTimeArgs {
   flight_time_minutes?: number;
   duty_time_minutes?: number;
   block_time_minutes?: number;
+  deadhead_minutes?: number;
   flight_segments?: number;
   wocl_crossing?: boolean;
+  pairing_id?: string;
+  rest_opportunities?: Array<{
+    start_utc: string;
+    end_utc: string;
+    location?: string;
+  }>;
+  reserve_callout_utc?: string;
+  legs?: Array<{
+    flight_number: string;
+    origin: string;
+    destination: string;
+    out_utc: string;
+    off_utc?: string;
+    on_utc?: string;
+    in_utc: string;
+    aircraft_tail?: string;
+    aircraft_type?: string;
+    is_deadhead?: boolean;
+  }>;
+}
+
+export interface LookupAirportArgs {
+  code: string;
+}
+
+export interface CreatePairingArgs {
+  trip_number: string;
+  base_airport: string;
+  crew_type?: 'PILOT' | 'FLIGHT_ATTENDANT';
+  credit_minutes?: number;
+  status?: 'PLANNED' | 'PUBLISHED' | 'COMPLETED' | 'CANCELLED';
+  duty_periods: Array<{
+    duty_start_utc: string;
+    duty_end_utc: string;
+    report_airport: string;
+    release_airport: string;
+    aircraft_type: string;
+    flight_time_minutes?: number;
+    number_of_segments?: number;
+  }>;
+}
+
+export interface GetPairingArgs {
+  pairing_identifier: string;
+}
+
+export interface ValidatePairingArgs {
+  pairing_identifier: string;
+  crew_identifier: string;
+}
+
+export interface ValidatePairingLegalityArgs {
+  crew_identifier: string;
+  duties: Array<{
+    aircraft_type: string;
+    duty_start_utc: string;
+    duty_end_utc: string;
+    flight_time_minutes?: number;
+    number_of_segments?: number;
+    augmenting_pilots?: number;
+    rest_facility_class?: 'CLASS_1' | 'CLASS_2' | 'CLASS_3';
+    report_airport?: string;
+    release_airport?: string;
+  }>;
+}
+
+export interface ValidateCrewComplementArgs {
+  aircraft_type: string;
+  duty_start_utc: string;
+  duty_end_utc: string;
+  flight_time_minutes?: number;
+  number_of_segments?: number;
+  report_airport?: string;
+  seat_capacity?: number;
+  captain: string;
+  first_officer: string;
+  flight_attendants?: string[];
+}
+
+export interface ApplyFDPExtensionArgs {
+  crew_identifier: string;
+  aircraft_type: string;
+  duty_start_utc: string;
+  scheduled_duty_end_utc?: string;
+  extension_minutes: number;
+  authorized_by: string;
+  reason: string;
+  authorized_at?: string;
+  number_of_segments?: number;
+  augmenting_pilots?: number;
+  rest_facility_class?: 'CLASS_1' | 'CLASS_2' | 'CLASS_3';
+  report_airport?: string;
+  rest_airport?: string;
+}
+
+export interface GetFDPExtensionReportsArgs {
+  base_airport?: string;
+  due_within_days?: number;
+}
+
+export interface CheckReserveCalloutLegalityArgs {
+  aircraft_type: string;
+  planned_fdp_hours: number;
+  callout_utc?: string;
+  flight_time_minutes?: number;
+  number_of_segments?: number;
+  augmenting_pilots?: number;
+  rest_facility_class?: 'CLASS_1' | 'CLASS_2' | 'CLASS_3';
+  base_airport?: string;
+  reserve_type?: 'AIRPORT' | 'SHORT_CALL' | 'LONG_CALL';
 }
@@ -0,0 +1,96 @@
+/**
+ * Pairing (trip) types and interfaces
+ */
+
+import type { CrewType } from './crew.js';
+import type { LegalityResult, RuleViolation } from './qualifications.js';
+
+export type PairingStatus = 'PLANNED' | 'PUBLISHED' | 'COMPLETED' | 'CANCELLED';
+
+export interface Pairing {
+  pairing_id: string;
+  trip_number: string;
+  base_airport: string;
+  crew_type?: CrewType;
+  start_utc: Date;
+  end_utc: Date;
+  credit_minutes: number;
+  status: PairingStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PairingDutyPeriod {
+  pairing_duty_id: string;
+  pairing_id: string;
+  sequence_number: number;
+  duty_start_utc: Date;
+  duty_end_utc: Date;
+  report_airport: string;
+  release_airport: string;
+  aircraft_type: string;
+  flight_time_minutes: number;
+  number_of_segments: number;
+  created_at: Date;
+}
+
+export interface Layover {
+  airport: string;
+  after_duty: number;
+  rest_start_utc: Date;
+  rest_end_utc: Date;
+  rest_hours: number;
+}
+
+export interface PairingDetail {
+  pairing: Pairing;
+  duty_periods: PairingDutyPeriod[];
+  layovers: Layover[];
+  tafb_hours: number;
+}
+
+export interface PairingDutyValidation {
+  sequence_number: number;
+  duty_start_utc: Date;
+  is_legal: boolean;
+  result: LegalityResult;
+}
+
+export interface LayoverValidation extends Layover {
+  minimum_rest_required: number;
+  is_compliant: boolean;
+}
+
+export interface PairingValidation {
+  pairing: Pairing;
+  crew_member: {
+    employee_number: string;
+    name: string;
+    position: string;
+  };
+  is_legal: boolean;
+  first_failure: {
+    sequence_number: number;
+    violated_rules: RuleViolation[];
+  } | null;
+  duty_validations: PairingDutyValidation[];
+  layover_validations: LayoverValidation[];
+  violations: string[];
+}
+
+export interface CreatePairingInput {
+  trip_number: string;
+  base_airport: string;
+  crew_type?: CrewType;
+  credit_minutes?: number;
+  status?: PairingStatus;
+  duty_periods: Array<{
+    duty_start_utc: Date;
+    duty_end_utc: Date;
+    report_airport: string;
+    release_airport: string;
+    aircraft_type: string;
+    flight_time_minutes: number;
+    number_of_segments: number;
+  }>;
+}
@@ -2,7 +2,17 @@
  * Pay calculation types and interfaces
  */
 
-export type PayRuleType = 'BASE_PAY' | 'PER_DIEM' | 'PREMIUM' | 'OVERTIME' | 'GUARANTEE';
+import type { TrainingEventFormat } from './crew.js';
+
+export type PayRuleType =
+  | 'BASE_PAY'
+  | 'PER_DIEM'
+  | 'PREMIUM'
+  | 'OVERTIME'
+  | 'GUARANTEE'
+  | 'DEADHEAD'
+  | 'TRAINING'
+  | 'CREDIT';
 export type CalculationMethod = 'AUTOMATED' | 'MANUAL' | 'ADJUSTED';
 
 export interface PayCalculationRule {
@@ -15,20 +25,123 @@ export interface PayCalculationRule {
   expiration_date?: Date;
   rule_config: Record<string, any>;
   union_code?: string;
+  version: number;
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
+export type PayRuleSource = 'DATABASE' | 'STATIC';
+
+/**
+ * The rule that applies to a crew member after database rules are layered over the static defaults
+ */
+export interface ResolvedPayRule {
+  rule_type: PayRuleType;
+  rule_id: string;
+  rule_name: string;
+  version: string;
+  source: PayRuleSource;
+  config: Record<string, any>;
+}
+
 export interface PayBreakdownItem {
   type: string;
   hours?: number;
   days?: number;
   rate: number;
   amount: number;
+  date?: Date;
   description?: string;
 }
 
+export interface TripSegment {
+  flight_number?: string;
+  origin?: string;
+  destination?: string;
+  is_international: boolean;
+  start: Date;
+  end: Date;
+  tafb_hours: number;
+}
+
+export interface Trip {
+  report_utc: Date;
+  release_utc: Date;
+  duty_ids: string[];
+  tafb_hours: number;
+  is_international: boolean;
+  is_complete: boolean;
+  segments: TripSegment[];
+}
+
+/**
+ * A training event to be paid, with the flight hours already paid from duty on the same day
+ */
+export interface TrainingPayEvent {
+  training_id: string;
+  training_type: string;
+  event_format: TrainingEventFormat;
+  date: Date;
+  duration_hours: number | null;
+  same_day_flight_hours: number;
+}
+
+export type CreditComponent =
+  | 'BLOCK'
+  | 'SCHEDULED_BLOCK'
+  | 'MINIMUM_DAY'
+  | 'DUTY_RIG'
+  | 'DUTY_PERIODS'
+  | 'TRIP_RIG';
+
+/**
+ * Credit guarantees from the contract; rig ratios are hours worked per credit hour
+ * (a 1:2 duty rig is 2, a 1:3.5 trip rig is 3.5) and null when the rig does not apply
+ */
+export interface CreditRules {
+  rule_id: string | null;
+  version: string | null;
+  union_code: string | null;
+  minimum_day_hours: number;
+  duty_rig_ratio: number | null;
+  trip_rig_ratio: number | null;
+  pay_scheduled_block: boolean;
+}
+
+export interface DutyPeriodHours {
+  duty_id: string;
+  duty_date: Date;
+  block_hours: number;
+  scheduled_block_hours: number | null;
+  duty_hours: number;
+}
+
+export interface DutyCredit extends DutyPeriodHours {
+  minimum_day_hours: number;
+  duty_rig_hours: number;
+  credit_hours: number;
+  winning_component: CreditComponent;
+}
+
+export interface TripCredit {
+  report_utc: Date;
+  release_utc: Date;
+  tafb_hours: number;
+  duty_credit_hours: number;
+  trip_rig_hours: number;
+  credit_hours: number;
+  winning_component: CreditComponent;
+  duties: DutyCredit[];
+}
+
+export interface CreditSummary {
+  rules: CreditRules;
+  block_hours: number;
+  credit_hours: number;
+  trips: TripCredit[];
+}
+
 export interface PayCalculation {
   crew_member: {
     employee_number: string;
@@ -42,6 +155,9 @@ export interface PayCalculation {
   summary: {
     total_flight_hours: number;
     total_duty_hours: number;
+    total_credit_hours: number;
+    total_deadhead_hours: number;
+    total_tafb_hours: number;
     total_compensation: number;
   };
   breakdown: {
@@ -50,16 +166,30 @@ export interface PayCalculation {
     premium_pay: PayBreakdownItem[];
     overtime_pay: PayBreakdownItem;
     guarantee_pay: PayBreakdownItem;
+    deadhead_pay: PayBreakdownItem;
+    training_pay: PayBreakdownItem[];
   };
+  credit: CreditSummary | null;
   duty_records: Array<{
     date: Date;
     flight_time: number;
     duty_time: number;
     block_time: number;
+    deadhead_time: number;
+  }>;
+  trips: Array<{
+    report: Date;
+    release: Date;
+    tafb_hours: number;
+    is_international: boolean;
+    is_complete: boolean;
   }>;
   applied_rules: Array<{
     rule_name: string;
     rule_type: PayRuleType;
+    rule_id: string | null;
+    version: string | null;
+    source: PayRuleSource | null;
     amount: number;
   }>;
   calculation_timestamp: Date;
@@ -72,11 +202,14 @@ export interface CrewPayRecord {
   pay_period_end: Date;
   flight_hours: number;
   duty_hours: number;
+  credit_hours: number;
   base_pay: number;
   per_diem: number;
   premium_pay: number;
   overtime_pay: number;
   guarantee_pay: number;
+  deadhead_pay: number;
+  training_pay: number;
   total_compensation: number;
   calculation_method: CalculationMethod;
   verified: boolean;
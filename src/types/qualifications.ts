@@ -2,6 +2,8 @@
  * Qualification validation and compliance types
  */
 
+import type { RulePackId } from './rule-pack.js';
+
 export type QualificationSeverity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
 export type ComplianceStatus = 'COMPLIANT' | 'NON_COMPLIANT' | 'WARNING';
 
@@ -10,38 +12,243 @@ export interface QualificationIssue {
   description: string;
   severity: QualificationSeverity;
   resolution?: string;
+  lapsed_on?: Date;
+}
+
+export type MedicalClass = 'FIRST_CLASS' | 'SECOND_CLASS' | 'THIRD_CLASS';
+
+export interface MedicalPrivileges {
+  certificate_class: MedicalClass;
+  exam_date: Date;
+  age_at_exam: number;
+  as_of_date: Date;
+  privilege_class: MedicalClass | null;
+  privileges_valid_until: Partial<Record<MedicalClass, Date>>;
+  next_step_down: {
+    date: Date;
+    to_class: MedicalClass | null;
+  } | null;
 }
 
 export interface RestCompliance {
   is_compliant: boolean;
   hours_since_rest: number;
   minimum_rest_required: number;
+  longest_qualifying_rest_hours: number;
+  weekly_rest_required_hours: number;
+  extension_rest_hours: number;
   violations: string[];
 }
 
+export interface AcclimationState {
+  is_acclimated: boolean;
+  acclimated_airport: string;
+  longitude_difference_degrees: number | null;
+  hours_in_theater?: number;
+}
+
+export interface FDPCompliance {
+  is_compliant: boolean;
+  max_fdp_hours: number;
+  proposed_fdp_hours: number;
+  fdp_table: string;
+  report_time_bucket: string;
+  report_local_time: string;
+  timezone: string;
+  acclimation: AcclimationState;
+  extension_hours: number;
+  split_duty_credit_hours: number;
+  split_duty_rest: SplitDutyRest[];
+  unforeseen_extension_hours: number;
+  violations: string[];
+}
+
+/**
+ * A rest opportunity taken within a duty (e.g. a hotel break between sectors)
+ */
+export interface RestOpportunity {
+  start_utc: Date;
+  end_utc: Date;
+  location?: string;
+}
+
+export interface SplitDutyRest extends RestOpportunity {
+  rest_hours: number;
+  credited_hours: number;
+  reason?: string;
+}
+
 export interface DutyLimits {
   rolling_28_day_hours: number;
   rolling_28_day_limit: number;
   rolling_365_day_hours: number;
   rolling_365_day_limit: number;
+  calendar_year_hours: number;
+  calendar_year_limit: number | null;
+  /** FDP only (FAA) or all duty time (EASA) in the consecutive-hour windows */
+  cumulative_basis: 'FDP' | 'DUTY';
+  rolling_168_hour_fdp_hours: number;
+  rolling_168_hour_fdp_limit: number;
+  rolling_336_hour_fdp_hours: number;
+  rolling_336_hour_fdp_limit: number | null;
+  rolling_672_hour_fdp_hours: number;
+  rolling_672_hour_fdp_limit: number;
   consecutive_duty_days: number;
+  consecutive_nights: number;
+  consecutive_nights_limit: number | null;
+}
+
+export type ReserveType = 'AIRPORT' | 'SHORT_CALL' | 'LONG_CALL';
+export type ReserveStatus = 'SCHEDULED' | 'CALLED_OUT' | 'RELEASED';
+
+/**
+ * A reserve period a duty is assigned from
+ */
+export interface ReserveCallout {
+  reserve_type: ReserveType;
+  reserve_start_utc: Date;
+  reserve_end_utc: Date;
+  callout_utc?: Date;
+}
+
+export interface ReserveAssignment extends ReserveCallout {
+  reserve_id: string;
+  crew_id: string;
+  reserve_airport: string;
+  status: ReserveStatus;
+  duty_id?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ReserveCompliance {
+  is_compliant: boolean;
+  reserve_type: ReserveType;
+  reserve_hours: number;
+  reserve_hours_before_report: number;
+  counts_as_fdp: boolean;
+  fdp_reduction_hours: number;
+  reserve_plus_fdp_hours: number;
+  reserve_plus_fdp_limit: number | null;
+  notice_hours: number | null;
+  violations: string[];
+}
+
+export interface RuleViolation {
+  rule: string;
+  regulation: string;
+  description: string;
 }
 
 export interface LegalityResult {
   is_legal: boolean;
+  rule_pack: RulePackId;
   crew_status: 'QUALIFIED' | 'NOT_QUALIFIED';
   qualification_issues: QualificationIssue[];
   rest_compliance: RestCompliance;
+  fdp_compliance: FDPCompliance;
+  reserve_compliance: ReserveCompliance | null;
   duty_limits: DutyLimits;
+  violated_rules: RuleViolation[];
   recommendations: string[];
 }
 
+export interface SequenceValidation<R extends { is_legal: boolean } = LegalityResult> {
+  is_legal: boolean;
+  results: R[];
+  first_failure: {
+    index: number;
+    duty_start_utc: Date;
+    violated_rules: RuleViolation[];
+  } | null;
+}
+
+export type RestFacilityClass = 'CLASS_1' | 'CLASS_2' | 'CLASS_3';
+
 export interface DutyAssignment {
   aircraft_type: string;
   duty_start_utc: Date;
   duty_end_utc?: Date;
   flight_time_minutes: number;
   number_of_segments: number;
+  augmenting_pilots?: number;
+  rest_facility_class?: RestFacilityClass;
+  report_airport?: string;
+  theater_arrival_utc?: Date;
+  additional_flight_attendants?: number;
+  fdp_extension_hours?: number;
+  split_duty_break_hours?: number;
+  rest_opportunities?: RestOpportunity[];
+  unforeseen_extension_minutes?: number;
+  reserve?: ReserveCallout;
+}
+
+export interface FADutyCompliance {
+  is_compliant: boolean;
+  scheduled_duty_hours: number;
+  max_duty_hours: number;
+  additional_flight_attendants: number;
+  violations: string[];
+}
+
+export interface FARestCompliance {
+  is_compliant: boolean;
+  rest_before_hours: number | null;
+  minimum_rest_required: number;
+  reduced_rest: boolean;
+  compensatory_rest_hours: number | null;
+  compensatory_rest_due_by: Date | null;
+  longest_rest_7_days_hours: number;
+  weekly_rest_required_hours: number;
+  violations: string[];
+}
+
+export interface FALegalityResult {
+  is_legal: boolean;
+  crew_status: 'QUALIFIED' | 'NOT_QUALIFIED';
+  qualification_issues: QualificationIssue[];
+  duty_compliance: FADutyCompliance;
+  rest_compliance: FARestCompliance;
+  violated_rules: RuleViolation[];
+  recommendations: string[];
+}
+
+export type ComplementRole = 'CAPTAIN' | 'FIRST_OFFICER' | 'FLIGHT_ATTENDANT';
+
+export interface CrewComplementInput {
+  duty: DutyAssignment;
+  captain: string;
+  first_officer: string;
+  flight_attendants: string[];
+  seat_capacity?: number;
+}
+
+export interface CrewComplementMember {
+  role: ComplementRole;
+  crew_identifier: string;
+  employee_number?: string;
+  name?: string;
+  position?: string;
+  hours_in_type?: number;
+  legality: LegalityResult | FALegalityResult | null;
+}
+
+export interface CrewComplementValidation {
+  is_legal: boolean;
+  violated_rules: RuleViolation[];
+  inexperienced_pairing: {
+    captain_hours_in_type: number | null;
+    first_officer_hours_in_type: number | null;
+    minimum_hours_in_type: number;
+    is_compliant: boolean;
+  };
+  cabin_crew: {
+    seat_capacity: number | null;
+    required_flight_attendants: number | null;
+    assigned_flight_attendants: number;
+    lead_fa_present: boolean;
+  };
+  members: CrewComplementMember[];
 }
 
 export interface FAACompliance {
@@ -57,6 +264,86 @@ export interface FAACompliance {
   created_at: Date;
 }
 
+export interface FDPExtension {
+  extension_id: string;
+  crew_id: string;
+  duty_id?: string;
+  duty_start_utc: Date;
+  extension_minutes: number;
+  extended_duty_end_utc: Date;
+  rule_pack: RulePackId;
+  regulation: string;
+  authorized_by: string;
+  reason: string;
+  authorized_at: Date;
+  report_required: boolean;
+  report_due_date?: Date;
+  report_filed_at?: Date;
+  report_reference?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface FDPExtensionReportDue extends FDPExtension {
+  employee_number: string;
+  name: string;
+  base_airport: string;
+}
+
+export interface ApplyFDPExtensionInput {
+  aircraft_type: string;
+  duty_start_utc: Date;
+  scheduled_duty_end_utc?: Date;
+  extension_minutes: number;
+  authorized_by: string;
+  reason: string;
+  authorized_at?: Date;
+  number_of_segments?: number;
+  augmenting_pilots?: number;
+  rest_facility_class?: RestFacilityClass;
+  report_airport?: string;
+  rest_airport?: string;
+}
+
+export interface FDPExtensionResult {
+  extension: FDPExtension | null;
+  extended_duty_end_utc: Date;
+  legality: LegalityResult;
+  report: {
+    required: boolean;
+    due_date: Date | null;
+    regulation: string;
+  };
+  next_rest: {
+    minimum_hours: number;
+    extension_rest_hours: number;
+    earliest_next_report_utc: Date;
+  };
+}
+
+export interface ReserveCalloutInput {
+  callout_utc: Date;
+  aircraft_type: string;
+  planned_fdp_hours: number;
+  flight_time_minutes?: number;
+  number_of_segments?: number;
+  augmenting_pilots?: number;
+  rest_facility_class?: RestFacilityClass;
+  base_airport?: string;
+  reserve_type?: ReserveType;
+}
+
+export interface ReserveCalloutOption {
+  reserve: ReserveAssignment;
+  employee_number: string;
+  name: string;
+  position: string;
+  earliest_report_utc: Date;
+  latest_legal_report_utc: Date | null;
+  legality: LegalityResult | null;
+  reasons: string[];
+}
+
 export interface TrainingRequirement {
   crew_member: {
     employee_number: string;
@@ -0,0 +1,159 @@
+/**
+ * Regulatory rule pack types
+ * A rule pack supplies the duty, rest and flight time limits of one
+ * jurisdiction (e.g. FAA Part 117, EASA ORO.FTL) to the legality validator
+ */
+
+import type {
+  AcclimationState,
+  ReserveType,
+  RestFacilityClass,
+  RestOpportunity,
+  SplitDutyRest,
+} from './qualifications.js';
+
+export type RulePackId = 'FAA_PART117' | 'EASA_FTL';
+
+/**
+ * Rules a validation can break, cited per jurisdiction
+ */
+export type RegulatedRule =
+  | 'MINIMUM_REST'
+  | 'WEEKLY_REST'
+  | 'FDP_LIMIT'
+  | 'FDP_LIMIT_AUGMENTED'
+  | 'FDP_EXTENSION'
+  | 'FDP_UNFORESEEN_EXTENSION'
+  | 'FDP_SPLIT_DUTY'
+  | 'FLIGHT_TIME_28_DAY'
+  | 'FLIGHT_TIME_365_DAY'
+  | 'CUMULATIVE_FDP_168_HOUR'
+  | 'CUMULATIVE_FDP_672_HOUR'
+  | 'CUMULATIVE_DUTY_336_HOUR'
+  | 'FLIGHT_TIME_CALENDAR_YEAR'
+  | 'CONSECUTIVE_NIGHTS'
+  | 'RESERVE';
+
+export interface FDPLimitInput {
+  report_hour: number;
+  report_minute: number;
+  segments: number;
+  acclimation: AcclimationState;
+  augmenting_pilots: number;
+  rest_facility_class?: RestFacilityClass;
+  wocl_encroachment_minutes: number;
+  extension_hours?: number;
+  extensions_in_prior_7_days: number;
+  split_duty_break_hours?: number;
+  /** Rest opportunities within the duty, with split-duty windows read in home base time */
+  rest_opportunities: RestOpportunity[];
+  home_base_timezone: string;
+}
+
+export interface FDPLimit {
+  max_fdp_hours: number;
+  fdp_table: string;
+  report_time_bucket: string;
+  extension_hours: number;
+  split_duty_credit_hours: number;
+  split_duty_rest: SplitDutyRest[];
+  violations: string[];
+}
+
+export interface WeeklyRestRule {
+  minimum_hours: number;
+  period_hours: number;
+  local_nights_required: number;
+  local_night: {
+    start_time: string;
+    end_time: string;
+    minimum_hours: number;
+  };
+}
+
+export interface AcclimationRule {
+  theater_longitude_degrees: number;
+  hours_in_theater: number;
+  consecutive_rest_hours: number;
+}
+
+export interface UnforeseenExtensionRule {
+  maximum_hours: number;
+  maximum_hours_augmented: number;
+  report_required_above_minutes: number;
+  report_due_days: number;
+  /** Reportable extensions allowed in any 168 consecutive hours, or null when not limited */
+  reportable_per_168_hours: number | null;
+}
+
+/**
+ * Limits on a reserve (standby) period and on an FDP assigned from it
+ */
+export interface ReserveRule {
+  /** Longest reserve period, or null when not limited */
+  max_hours: number | null;
+  /** The whole reserve period counts as FDP, so the FDP begins when the reserve does */
+  counts_as_fdp: boolean;
+  /** Maximum FDP is reduced by reserve time before report beyond this many hours, or null */
+  fdp_reduction_after_hours: number | null;
+  /** Reserve plus FDP may not exceed the maximum FDP plus this many hours, or null */
+  reserve_plus_fdp_over_limit_hours: number | null;
+  /** Fixed cap on reserve plus FDP, or null when not capped */
+  reserve_plus_fdp_max_hours: number | null;
+  reserve_plus_fdp_max_hours_augmented: number | null;
+  /** Notice required between the callout and the report time */
+  minimum_notice_hours: number;
+}
+
+export interface FlightTimeLimits {
+  rolling_28_day_hours: number;
+  rolling_365_day_hours: number;
+  /** Flight time in the calendar year, where the jurisdiction limits it */
+  calendar_year_hours: number | null;
+}
+
+export interface CumulativeLimits {
+  /** Whether the windows count FDP only (FAA) or all duty time (EASA) */
+  basis: 'FDP' | 'DUTY';
+  rolling_168_hour_hours: number;
+  rolling_336_hour_hours: number | null;
+  rolling_672_hour_hours: number;
+}
+
+export interface ConsecutiveNightRule {
+  maximum_consecutive: number;
+  /** Higher limit when every night duty in the series has a qualifying rest opportunity */
+  extended_maximum_consecutive: number | null;
+  extended_rest_opportunity_hours: number | null;
+  required_rest_after: number;
+}
+
+export interface RulePack {
+  readonly id: RulePackId;
+  readonly name: string;
+
+  /** Maximum FDP for a duty, including any extension or split-duty credit */
+  getFDPLimit(input: FDPLimitInput): FDPLimit;
+
+  /** Minimum rest before a duty, given the length of the previous duty */
+  getMinimumRestHours(previousDutyHours: number, atHomeBase: boolean): number;
+
+  getWeeklyRest(): WeeklyRestRule;
+  getAcclimation(): AcclimationRule;
+  getFlightTimeLimits(): FlightTimeLimits;
+
+  /** Cumulative FDP (or duty, per basis) hours allowed in any 168, 336 and 672 consecutive hours */
+  getCumulativeFDPLimits(): CumulativeLimits;
+
+  /** Extension for unforeseen circumstances once the duty has begun; the next rest grows by it */
+  getUnforeseenExtension(): UnforeseenExtensionRule;
+
+  /** Limits for airport, short-call and long-call reserve */
+  getReserveRule(reserveType: ReserveType): ReserveRule;
+
+  /** Consecutive nighttime duty limit, or null when the jurisdiction has none */
+  getConsecutiveNights(): ConsecutiveNightRule | null;
+
+  /** Regulation reference for a rule */
+  cite(rule: RegulatedRule): string;
+}
@@ -0,0 +1,110 @@
+/**
+ * Airport reference lookup (timezone, coordinates, country)
+ * Starts from the bundled seed file; rows in the airports table override it
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import config from '../config/index.js';
+import { getAirports } from '../db/queries.js';
+import type { Airport } from '../types/crew.js';
+import { logger } from './logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export type AirportSource = 'DATABASE' | 'BUNDLED';
+
+// Territories flown as domestic within their parent country
+const DOMESTIC_REGIONS: Record<string, string> = {
+  PR: 'US',
+  VI: 'US',
+  GU: 'US',
+  AS: 'US',
+  MP: 'US',
+};
+
+const airportsByCode = new Map<string, Airport>();
+const sources = new Map<string, AirportSource>();
+
+function register(airport: Airport, source: AirportSource): void {
+  const iata = airport.iata_code.toUpperCase();
+  airportsByCode.set(iata, airport);
+  sources.set(iata, source);
+  if (airport.icao_code) {
+    airportsByCode.set(airport.icao_code.toUpperCase(), airport);
+  }
+}
+
+// Load bundled seed data
+const bundled: Airport[] = JSON.parse(
+  readFileSync(join(__dirname, '../data/airports.json'), 'utf-8')
+);
+bundled.forEach((airport) => register(airport, 'BUNDLED'));
+
+/**
+ * Merge airport rows from the database over the bundled seed data
+ */
+export async function loadAirportReference(): Promise<number> {
+  try {
+    const airports = await getAirports();
+    airports.forEach((airport) => register(airport, 'DATABASE'));
+    logger.info(`Airport reference loaded: ${airports.length} airports from database`);
+    return airports.length;
+  } catch (error) {
+    logger.warn('Airport reference table unavailable, using bundled seed data', {
+      error: error instanceof Error ? error.message : error,
+    });
+    return 0;
+  }
+}
+
+/**
+ * Get the bundled seed airports
+ */
+export function getBundledAirports(): Airport[] {
+  return bundled;
+}
+
+/**
+ * Get airport by IATA or ICAO code
+ */
+export function getAirport(code: string): Airport | null {
+  return airportsByCode.get(code.toUpperCase()) || null;
+}
+
+/**
+ * Where the loaded record for an airport came from
+ */
+export function getAirportSource(airport: Airport): AirportSource {
+  return sources.get(airport.iata_code.toUpperCase()) || 'BUNDLED';
+}
+
+/**
+ * Resolve an airport's IANA timezone, falling back to the configured default
+ */
+export function resolveAirportTimezone(code: string): string {
+  const airport = getAirport(code);
+  if (!airport) {
+    logger.warn(`No timezone on file for airport ${code}, using ${config.timezone}`);
+    return config.timezone;
+  }
+  return airport.timezone;
+}
+
+/**
+ * Longitude difference between two airports in degrees (0-180)
+ */
+export function longitudeDifference(from: Airport, to: Airport): number {
+  const diff = Math.abs(from.longitude - to.longitude) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Country an airport's country code is domestic to (e.g. Puerto Rico to the US)
+ */
+export function domesticRegion(countryCode: string): string {
+  const code = countryCode.toUpperCase();
+  return DOMESTIC_REGIONS[code] || code;
+}
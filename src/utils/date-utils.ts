@@ -27,6 +27,80 @@ export function fromUTC(date: Date, timezone: string): Date {
   return toZonedTime(date, timezone);
 }
 
+/**
+ * Minutes past midnight for an HHMM time
+ */
+function minuteOfDay(time: string): number {
+  return parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(2), 10);
+}
+
+/**
+ * Wall-clock time on a local day (1440 is midnight at its end)
+ */
+function atMinuteOfDay(day: DateTime, minute: number): DateTime {
+  return day
+    .set({ hour: Math.floor(minute / 60) % 24, minute: minute % 60 })
+    .plus({ days: Math.floor(minute / 1440) });
+}
+
+/**
+ * Minutes of a period inside each daily occurrence of a local-time window
+ * (e.g. 2200-0500), one entry per window from the evening before the period
+ * starts; windows whose end is not after their start wrap past midnight, and
+ * the end (in minutes past midnight) is exclusive
+ */
+function localWindowOverlaps(
+  periodStart: Date,
+  periodEnd: Date,
+  timezone: string,
+  windowStartMinute: number,
+  windowEndMinute: number
+): number[] {
+  const start = DateTime.fromJSDate(periodStart, { zone: timezone });
+  const end = DateTime.fromJSDate(periodEnd, { zone: timezone });
+
+  const overlaps: number[] = [];
+  let day = start.startOf('day').minus({ days: 1 });
+  while (day <= end) {
+    const windowStart = atMinuteOfDay(day, windowStartMinute);
+    let windowEnd = atMinuteOfDay(day, windowEndMinute);
+    if (windowEnd <= windowStart) {
+      windowEnd = windowEnd.plus({ days: 1 });
+    }
+
+    const overlapStart = windowStart > start ? windowStart : start;
+    const overlapEnd = windowEnd < end ? windowEnd : end;
+    overlaps.push(
+      overlapEnd > overlapStart ? overlapEnd.diff(overlapStart, 'minutes').minutes : 0
+    );
+
+    day = day.plus({ days: 1 });
+  }
+
+  return overlaps;
+}
+
+/**
+ * Minutes of a duty period that fall inside the Window of Circadian Low (WOCL)
+ * WOCL is 0200-0559 local time (the window closes at 0600)
+ */
+export function woclOverlapMinutes(
+  dutyStart: Date,
+  dutyEnd: Date,
+  timezone: string,
+  woclStartTime = '0200',
+  woclEndTime = '0559'
+): number {
+  // The WOCL end time is the last minute inside the window
+  return localWindowOverlaps(
+    dutyStart,
+    dutyEnd,
+    timezone,
+    minuteOfDay(woclStartTime),
+    minuteOfDay(woclEndTime) + 1
+  ).reduce((sum, minutes) => sum + minutes, 0);
+}
+
 /**
  * Check if duty period crosses Window of Circadian Low (WOCL)
  * WOCL is typically 2:00 AM to 5:59 AM local time
@@ -36,20 +110,66 @@ export function crossesWOCL(
   dutyEnd: Date,
   timezone: string
 ): boolean {
-  const start = DateTime.fromJSDate(dutyStart, { zone: timezone });
-  const end = DateTime.fromJSDate(dutyEnd, { zone: timezone });
-
-  // Check each hour in the duty period
-  let current = start;
-  while (current <= end) {
-    const hour = current.hour;
-    if (hour >= 2 && hour < 6) {
-      return true;
-    }
-    current = current.plus({ hours: 1 });
-  }
+  return woclOverlapMinutes(dutyStart, dutyEnd, timezone) > 0;
+}
+
+/**
+ * Check if a rest period includes a local night
+ * A local night is a block of consecutive hours inside the nightly window
+ * (e.g. 5 hours between 2200 and 0800 local time)
+ */
+export function includesLocalNight(
+  restStart: Date,
+  restEnd: Date,
+  timezone: string,
+  nightStartTime = '2200',
+  nightEndTime = '0800',
+  minimumHours = 5
+): boolean {
+  return (
+    countLocalNights(restStart, restEnd, timezone, nightStartTime, nightEndTime, minimumHours) > 0
+  );
+}
+
+/**
+ * Count the local nights a rest period includes
+ */
+export function countLocalNights(
+  restStart: Date,
+  restEnd: Date,
+  timezone: string,
+  nightStartTime = '2200',
+  nightEndTime = '0800',
+  minimumHours = 5
+): number {
+  return localWindowOverlaps(
+    restStart,
+    restEnd,
+    timezone,
+    minuteOfDay(nightStartTime),
+    minuteOfDay(nightEndTime)
+  ).filter((minutes) => minutes >= minimumHours * 60).length;
+}
 
-  return false;
+/**
+ * Hours of a period that fall inside a nightly local-time window
+ * (e.g. 2200-0500); windows that end before they start wrap past midnight
+ */
+export function localWindowOverlapHours(
+  periodStart: Date,
+  periodEnd: Date,
+  timezone: string,
+  windowStartTime: string,
+  windowEndTime: string
+): number {
+  const minutes = localWindowOverlaps(
+    periodStart,
+    periodEnd,
+    timezone,
+    minuteOfDay(windowStartTime),
+    minuteOfDay(windowEndTime)
+  ).reduce((sum, overlap) => sum + overlap, 0);
+  return minutes / 60;
 }
 
 /**
@@ -0,0 +1,51 @@
+import { jest } from '@jest/globals';
+
+describe('config', () => {
+  const env = { ...process.env };
+
+  // Config is read once at import, so each case loads a fresh copy
+  const loadConfig = async (overrides: Record<string, string>) => {
+    Object.assign(process.env, overrides);
+    jest.resetModules();
+    return (await import('../../src/config/index.js')).default;
+  };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('maps operator certificates to rule packs', async () => {
+    const config = await loadConfig({
+      DEFAULT_RULE_PACK: 'EASA_FTL',
+      OPERATOR_RULE_PACKS: 'ABCA123:FAA_PART117, EU.AOC.001:EASA_FTL',
+    });
+
+    expect(config.compliance.defaultRulePack).toBe('EASA_FTL');
+    expect(config.compliance.operatorRulePacks).toEqual({
+      ABCA123: 'FAA_PART117',
+      'EU.AOC.001': 'EASA_FTL',
+    });
+  });
+
+  it('defaults to Part 117 with no operator mappings', async () => {
+    const config = await loadConfig({ DEFAULT_RULE_PACK: '', OPERATOR_RULE_PACKS: '' });
+
+    expect(config.compliance.defaultRulePack).toBe('FAA_PART117');
+    expect(config.compliance.operatorRulePacks).toEqual({});
+  });
+
+  it('fails on an unknown default rule pack', async () => {
+    await expect(loadConfig({ DEFAULT_RULE_PACK: 'FAA_PART121' })).rejects.toThrow(
+      'Invalid rule pack "FAA_PART121" in DEFAULT_RULE_PACK; expected one of FAA_PART117, EASA_FTL'
+    );
+  });
+
+  it('fails on an unknown or missing operator rule pack', async () => {
+    await expect(loadConfig({ OPERATOR_RULE_PACKS: 'EU.AOC.001:EASA' })).rejects.toThrow(
+      'Invalid rule pack "EASA" in OPERATOR_RULE_PACKS'
+    );
+    await expect(loadConfig({ OPERATOR_RULE_PACKS: 'EU.AOC.001' })).rejects.toThrow(
+      'Invalid entry "EU.AOC.001" in OPERATOR_RULE_PACKS; expected CERTIFICATE:RULE_PACK'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { jest } from '@jest/globals';
+
+jest.unstable_mockModule('../../src/db/connection.js', () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+}));
+
+const connection = await import('../../src/db/connection.js');
+const { getBlockMinutesInType, getRecentLandings, refreshLandingCounts } = await import(
+  '../../src/db/queries.js'
+);
+
+describe('landing recency queries', () => {
+  const asOf = new Date('2026-04-10T12:00:00Z');
+
+  beforeEach(() => {
+    jest.mocked(connection.query).mockReset();
+    jest.mocked(connection.query).mockResolvedValue({ rows: [] } as any);
+  });
+
+  it('counts legs flown as pilot flying from either seat', async () => {
+    jest
+      .mocked(connection.query)
+      .mockResolvedValue({ rows: [{ landing_utc: new Date('2026-04-01T15:00:00Z') }] } as any);
+
+    const landings = await getRecentLandings('crew-1', 'B737', asOf, 3);
+
+    const [sql, params] = jest.mocked(connection.query).mock.calls[0];
+    expect(sql).toMatch(/AND pilot_flying\s+AND NOT is_deadhead/);
+    expect(sql).not.toContain('captain_seat');
+    expect(params).toEqual(['crew-1', 'B737', asOf, 3]);
+    expect(landings).toEqual([new Date('2026-04-01T15:00:00Z')]);
+  });
+
+  it('refreshes the 90-day counters as of the recorded duty', async () => {
+    await refreshLandingCounts('crew-1', asOf);
+
+    const [sql, params] = jest.mocked(connection.query).mock.calls[0];
+    expect(sql).toContain("> $2::timestamptz - INTERVAL '90 days'");
+    expect(sql).toMatch(/fs\.pilot_flying\s+AND NOT fs\.is_deadhead/);
+    expect(sql).not.toContain('captain_seat');
+    expect(params).toEqual(['crew-1', asOf]);
+  });
+});
+
+describe('getBlockMinutesInType', () => {
+  const since = new Date('2026-01-15');
+
+  beforeEach(() => {
+    jest.mocked(connection.query).mockReset();
+    jest.mocked(connection.query).mockResolvedValue({ rows: [{ minutes: '5400' }] } as any);
+  });
+
+  it('limits PIC time to legs flown in the captain seat', async () => {
+    const minutes = await getBlockMinutesInType('crew-1', 'B737', since, true);
+
+    const [sql, params] = jest.mocked(connection.query).mock.calls[0];
+    expect(sql).toContain('AND (NOT $4::boolean OR captain_seat)');
+    expect(sql).not.toContain('pilot_flying');
+    expect(params).toEqual(['crew-1', 'B737', since, true]);
+    expect(minutes).toBe(5400);
+  });
+
+  it('counts either seat by default', async () => {
+    await getBlockMinutesInType('crew-1', 'B737', since);
+
+    const [, params] = jest.mocked(connection.query).mock.calls[0];
+    expect(params).toEqual(['crew-1', 'B737', since, false]);
+  });
+});
@@ -0,0 +1,153 @@
+import { CreditCalculator } from '../../src/engines/credit-calculator.js';
+import type { CreditRules, DutyPeriodHours, Trip } from '../../src/types/pay.js';
+
+const RULES: CreditRules = {
+  rule_id: null,
+  version: null,
+  union_code: null,
+  minimum_day_hours: 4,
+  duty_rig_ratio: 2,
+  trip_rig_ratio: 3.5,
+  pay_scheduled_block: true,
+};
+
+function duty(
+  dutyId: string,
+  blockHours: number,
+  dutyHours: number,
+  scheduledBlockHours: number | null = null
+): DutyPeriodHours {
+  return {
+    duty_id: dutyId,
+    duty_date: new Date('2026-06-01T00:00:00Z'),
+    block_hours: blockHours,
+    scheduled_block_hours: scheduledBlockHours,
+    duty_hours: dutyHours,
+  };
+}
+
+function trip(dutyIds: string[], tafbHours: number): Trip {
+  const report = new Date('2026-06-01T12:00:00Z');
+  return {
+    report_utc: report,
+    release_utc: new Date(report.getTime() + tafbHours * 60 * 60 * 1000),
+    duty_ids: dutyIds,
+    tafb_hours: tafbHours,
+    is_international: false,
+    is_complete: true,
+    segments: [],
+  };
+}
+
+describe('CreditCalculator', () => {
+  const calculator = new CreditCalculator();
+
+  describe('creditDutyPeriod', () => {
+    it('credits block time when it is the greatest', () => {
+      const credit = calculator.creditDutyPeriod(duty('d1', 6, 8), RULES);
+
+      expect(credit.credit_hours).toBe(6);
+      expect(credit.winning_component).toBe('BLOCK');
+    });
+
+    it('credits scheduled block when it exceeds the block flown', () => {
+      const credit = calculator.creditDutyPeriod(duty('d1', 5, 9, 5.5), RULES);
+
+      expect(credit.credit_hours).toBe(5.5);
+      expect(credit.winning_component).toBe('SCHEDULED_BLOCK');
+    });
+
+    it('ignores scheduled block when the rules do not pay it', () => {
+      const credit = calculator.creditDutyPeriod(duty('d1', 5, 9, 5.5), {
+        ...RULES,
+        pay_scheduled_block: false,
+      });
+
+      expect(credit.credit_hours).toBe(5);
+      expect(credit.winning_component).toBe('BLOCK');
+    });
+
+    it('credits the minimum day on a short duty', () => {
+      const credit = calculator.creditDutyPeriod(duty('d1', 2, 6), RULES);
+
+      expect(credit.credit_hours).toBe(4);
+      expect(credit.winning_component).toBe('MINIMUM_DAY');
+    });
+
+    it('credits the duty rig on a long duty', () => {
+      const credit = calculator.creditDutyPeriod(duty('d1', 6, 14), RULES);
+
+      expect(credit.duty_rig_hours).toBe(7);
+      expect(credit.credit_hours).toBe(7);
+      expect(credit.winning_component).toBe('DUTY_RIG');
+    });
+
+    it('gives no duty rig when the rules have none', () => {
+      const credit = calculator.creditDutyPeriod(duty('d1', 6, 14), {
+        ...RULES,
+        duty_rig_ratio: null,
+      });
+
+      expect(credit.duty_rig_hours).toBe(0);
+      expect(credit.winning_component).toBe('BLOCK');
+    });
+
+    it('gives ties to block time', () => {
+      const credit = calculator.creditDutyPeriod(duty('d1', 4, 8), RULES);
+
+      expect(credit.credit_hours).toBe(4);
+      expect(credit.winning_component).toBe('BLOCK');
+    });
+  });
+
+  describe('calculate', () => {
+    it('credits a trip with the sum of its duty credits', () => {
+      const summary = calculator.calculate(
+        [duty('d1', 5, 9, 5.5), duty('d2', 2, 6)],
+        [trip(['d1', 'd2'], 28)],
+        RULES
+      );
+
+      expect(summary.block_hours).toBe(7);
+      expect(summary.credit_hours).toBe(9.5);
+      expect(summary.trips[0]).toMatchObject({
+        duty_credit_hours: 9.5,
+        trip_rig_hours: 8,
+        winning_component: 'DUTY_PERIODS',
+      });
+      expect(summary.trips[0].duties).toHaveLength(2);
+    });
+
+    it('credits the trip rig on a long trip', () => {
+      const summary = calculator.calculate(
+        [duty('d1', 5, 9), duty('d2', 5, 9)],
+        [trip(['d1', 'd2'], 42)],
+        RULES
+      );
+
+      expect(summary.credit_hours).toBe(12);
+      expect(summary.trips[0].winning_component).toBe('TRIP_RIG');
+    });
+
+    it('gives no trip rig to a trip without credited duties', () => {
+      const summary = calculator.calculate([duty('d1', 5, 9)], [trip(['deadhead'], 30)], RULES);
+
+      expect(summary.trips[0]).toMatchObject({
+        duty_credit_hours: 0,
+        trip_rig_hours: 0,
+        credit_hours: 0,
+      });
+    });
+
+    it('totals credit across trips', () => {
+      const summary = calculator.calculate(
+        [duty('d1', 6, 8), duty('d2', 2, 6)],
+        [trip(['d1'], 10), trip(['d2'], 8)],
+        RULES
+      );
+
+      expect(summary.trips.map((t) => t.credit_hours)).toEqual([6, 4]);
+      expect(summary.credit_hours).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { jest } from '@jest/globals';
+import { mockQueries } from '../helpers/mock-queries.js';
+import { crewMember, dutyAssignment, dutyRecord, hoursAfter } from '../helpers/fixtures.js';
+import type { RecurrentTraining } from '../../src/types/crew.js';
+
+mockQueries();
+
+const queries = await import('../../src/db/queries.js');
+const { FADutyValidator } = await import('../../src/engines/fa-duty-validator.js');
+
+const FLIGHT_ATTENDANT = crewMember({
+  crew_id: 'crew-fa',
+  employee_number: 'F2001',
+  crew_type: 'FLIGHT_ATTENDANT',
+  position: 'FA',
+});
+
+const assignment = (start: Date, hours: number, additional = 0) =>
+  dutyAssignment(start, hours, { additional_flight_attendants: additional });
+
+const recorded = (start: Date, hours: number) =>
+  dutyRecord(start, hours, { crew_id: FLIGHT_ATTENDANT.crew_id });
+
+describe('FADutyValidator', () => {
+  const validator = new FADutyValidator();
+  const day = new Date('2026-04-10T06:00:00Z');
+
+  beforeEach(() => {
+    jest.mocked(queries.getCrewMember).mockResolvedValue(FLIGHT_ATTENDANT);
+    jest.mocked(queries.getDutyTimeRecords).mockResolvedValue([]);
+    jest.mocked(queries.getTrainingRecords).mockResolvedValue([]);
+  });
+
+  describe('duty period limits', () => {
+    it('allows 14 hours with the minimum complement', async () => {
+      const result = await validator.validateAssignment('crew-fa', assignment(day, 14));
+
+      expect(result.is_legal).toBe(true);
+      expect(result.duty_compliance.max_duty_hours).toBe(14);
+      expect(result.recommendations).toEqual(['Flight attendant is legal for this assignment']);
+    });
+
+    it('flags a longer duty and recommends the staffing that would allow it', async () => {
+      const result = await validator.validateAssignment('crew-fa', assignment(day, 15));
+
+      expect(result.is_legal).toBe(false);
+      expect(result.violated_rules).toEqual([
+        expect.objectContaining({ rule: 'FA_DUTY_PERIOD', regulation: '14 CFR 121.467' }),
+      ]);
+      expect(result.recommendations).toContain(
+        'Staff 1 flight attendant(s) above the minimum to allow up to 16 hours'
+      );
+    });
+
+    it.each([
+      [1, 16],
+      [2, 18],
+      [3, 20],
+      [4, 20],
+    ])('with %i additional flight attendant(s) allows %i hours', async (additional, hours) => {
+      const allowed = await validator.validateAssignment(
+        'crew-fa',
+        assignment(day, hours, additional)
+      );
+      const over = await validator.validateAssignment(
+        'crew-fa',
+        assignment(day, hours + 0.5, additional)
+      );
+
+      expect(allowed.duty_compliance).toMatchObject({ is_compliant: true, max_duty_hours: hours });
+      expect(over.duty_compliance.is_compliant).toBe(false);
+    });
+
+    it('recommends splitting a duty beyond the longest extension', async () => {
+      const result = await validator.validateAssignment('crew-fa', assignment(day, 21, 3));
+
+      expect(result.recommendations).toContain(
+        'Split the duty period - it exceeds the longest staffing extension'
+      );
+    });
+  });
+
+  describe('rest requirements', () => {
+    it('requires 10 hours rest before a duty', async () => {
+      jest.mocked(queries.getDutyTimeRecords).mockResolvedValue([recorded(day, 10)]);
+
+      const result = await validator.validateAssignment(
+        'crew-fa',
+        assignment(hoursAfter(day, 18.5), 8)
+      );
+
+      expect(result.rest_compliance).toMatchObject({
+        rest_before_hours: 8.5,
+        minimum_rest_required: 10,
+        reduced_rest: false,
+      });
+      expect(result.violated_rules.map((v) => v.rule)).toEqual(['FA_MINIMUM_REST']);
+    });
+
+    it('allows rest reduced to 9 hours when the compensatory rest can follow', async () => {
+      jest.mocked(queries.getDutyTimeRecords).mockResolvedValue([recorded(day, 10)]);
+
+      const result = await validator.validateAssignment(
+        'crew-fa',
+        assignment(hoursAfter(day, 19.5), 8)
+      );
+
+      expect(result.is_legal).toBe(true);
+      expect(result.rest_compliance.reduced_rest).toBe(true);
+      expect(result.rest_compliance.compensatory_rest_due_by).toEqual(hoursAfter(day, 34));
+    });
+
+    it('flags a reduced-rest duty that runs past the compensatory rest', async () => {
+      jest.mocked(queries.getDutyTimeRecords).mockResolvedValue([recorded(day, 10)]);
+
+      const result = await validator.validateAssignment(
+        'crew-fa',
+        assignment(hoursAfter(day, 19.5), 15, 1)
+      );
+
+      expect(result.rest_compliance.is_compliant).toBe(false);
+      expect(result.rest_compliance.violations[0]).toMatch(/when the compensatory rest/);
+    });
+
+    it('does not allow two reduced rests in a row', async () => {
+      jest
+        .mocked(queries.getDutyTimeRecords)
+        .mockResolvedValue([recorded(day, 10), recorded(hoursAfter(day, 19.5), 8)]);
+
+      const result = await validator.validateAssignment(
+        'crew-fa',
+        assignment(hoursAfter(day, 37), 8)
+      );
+
+      expect(result.rest_compliance.is_compliant).toBe(false);
+      expect(result.rest_compliance.violations[0]).toMatch(/follows a reduced rest/);
+    });
+
+    it('requires 12 hours rest after an extended duty, reducible to 10', async () => {
+      jest.mocked(queries.getDutyTimeRecords).mockResolvedValue([recorded(day, 15)]);
+
+      const result = await validator.validateAssignment(
+        'crew-fa',
+        assignment(hoursAfter(day, 24.5), 8)
+      );
+
+      expect(result.rest_compliance.minimum_rest_required).toBe(12);
+      expect(result.rest_compliance.violations).toEqual([
+        'Rest before duty (9.5 hours) is less than the required 12 hours after an extended duty (10 when reduced)',
+      ]);
+    });
+
+    it('allows rest after an extended duty reduced to 10 hours with 14 hours to follow', async () => {
+      jest.mocked(queries.getDutyTimeRecords).mockResolvedValue([recorded(day, 15)]);
+
+      const result = await validator.validateAssignment(
+        'crew-fa',
+        assignment(hoursAfter(day, 26), 8)
+      );
+
+      expect(result.is_legal).toBe(true);
+      expect(result.rest_compliance).toMatchObject({
+        reduced_rest: true,
+        compensatory_rest_hours: 14,
+        compensatory_rest_due_by: hoursAfter(day, 39),
+      });
+      expect(result.recommendations).toEqual([
+        `Reduced rest: schedule 14 hours rest beginning by ${hoursAfter(day, 39).toISOString()}`,
+      ]);
+    });
+
+    it('requires the 14-hour compensatory rest after a reduced extended-duty rest', async () => {
+      jest
+        .mocked(queries.getDutyTimeRecords)
+        .mockResolvedValue([recorded(day, 15), recorded(hoursAfter(day, 26), 8)]);
+
+      const result = await validator.validateAssignment(
+        'crew-fa',
+        assignment(hoursAfter(day, 46), 8)
+      );
+
+      expect(result.rest_compliance.rest_before_hours).toBe(12);
+      expect(result.rest_compliance.violations).toEqual([
+        'Rest before duty (12.0 hours) follows a reduced rest; 14 hours compensatory rest required',
+      ]);
+    });
+
+    it('requires 24 consecutive hours free of duty in 7 days', async () => {
+      const daily = Array.from({ length: 9 }, (_, i) => recorded(hoursAfter(day, i * 24), 12));
+      jest.mocked(queries.getDutyTimeRecords).mockResolvedValue(daily);
+
+      const result = await validator.validateAssignment(
+        'crew-fa',
+        assignment(hoursAfter(day, 9 * 24), 12)
+      );
+
+      expect(result.rest_compliance.longest_rest_7_days_hours).toBe(12);
+      expect(result.violated_rules.map((v) => v.rule)).toEqual(['FA_WEEKLY_REST']);
+      expect(result.recommendations).toContain('Schedule 24 consecutive hours free of duty');
+    });
+  });
+
+  it('is not qualified with overdue recurrent training', async () => {
+    const overdue: RecurrentTraining = {
+      training_id: 'training-1',
+      crew_id: FLIGHT_ATTENDANT.crew_id,
+      training_type: 'RECURRENT',
+      completion_date: new Date('2025-01-15'),
+      next_due_date: new Date('2026-01-31'),
+      event_format: 'CLASSROOM',
+      status: 'CURRENT',
+      created_at: new Date('2025-01-15'),
+    };
+    jest.mocked(queries.getTrainingRecords).mockResolvedValue([overdue]);
+
+    const result = await validator.validateAssignment('crew-fa', assignment(day, 8));
+
+    expect(result.is_legal).toBe(false);
+    expect(result.crew_status).toBe('NOT_QUALIFIED');
+    expect(result.violated_rules).toEqual([
+      expect.objectContaining({ rule: 'TRAINING', regulation: 'Qualification' }),
+    ]);
+  });
+
+  it('validates a sequence with earlier duties as history', async () => {
+    const result = await validator.validateSequence('crew-fa', [
+      assignment(hoursAfter(day, 18), 8),
+      assignment(day, 10),
+    ]);
+
+    expect(result.is_legal).toBe(false);
+    expect(result.first_failure).toMatchObject({
+      index: 1,
+      duty_start_utc: hoursAfter(day, 18),
+    });
+    expect(result.results[0].is_legal).toBe(true);
+  });
+});
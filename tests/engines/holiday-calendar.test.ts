@@ -0,0 +1,42 @@
+import { HolidayCalendar } from '../../src/engines/holiday-calendar.js';
+
+describe('HolidayCalendar', () => {
+  const calendar = new HolidayCalendar();
+
+  const dateOf = (unionCode: string | undefined, year: number, name: string) =>
+    calendar.getHolidays(unionCode, year).find((holiday) => holiday.name === name)?.date;
+
+  it.each([
+    [2025, '2025-05-26', '2025-09-01', '2025-11-27'],
+    [2026, '2026-05-25', '2026-09-07', '2026-11-26'],
+    [2027, '2027-05-31', '2027-09-06', '2027-11-25'],
+    [2030, '2030-05-27', '2030-09-02', '2030-11-28'],
+    [2031, '2031-05-26', '2031-09-01', '2031-11-27'],
+  ])('dates the floating holidays in %i', (year, memorial, labor, thanksgiving) => {
+    expect(dateOf(undefined, year, 'Memorial Day')).toBe(memorial);
+    expect(dateOf(undefined, year, 'Labor Day')).toBe(labor);
+    expect(dateOf(undefined, year, 'Thanksgiving')).toBe(thanksgiving);
+  });
+
+  it('dates the fixed holidays in any year', () => {
+    expect(dateOf(undefined, 2040, "New Year's Day")).toBe('2040-01-01');
+    expect(dateOf(undefined, 2040, 'Independence Day')).toBe('2040-07-04');
+    expect(dateOf(undefined, 2040, 'Christmas')).toBe('2040-12-25');
+  });
+
+  it('dates the day after Thanksgiving for AFA', () => {
+    expect(dateOf('AFA', 2030, 'Day After Thanksgiving')).toBe('2030-11-29');
+  });
+
+  it('counts holiday minutes outside the years once listed', () => {
+    const minutes = calendar.getHolidayMinutes(
+      new Date('2031-07-04T00:00:00Z'),
+      new Date('2031-07-05T00:00:00Z'),
+      undefined,
+      'America/New_York'
+    );
+
+    // 0000Z on the 4th is 2000 on the 3rd in New York
+    expect(minutes).toBe(20 * 60);
+  });
+});
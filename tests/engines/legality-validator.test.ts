@@ -0,0 +1,218 @@
+import { jest } from '@jest/globals';
+import { mockQueries } from '../helpers/mock-queries.js';
+import type { FDPExtension } from '../../src/types/qualifications.js';
+import {
+  crewMember,
+  dutyAssignment,
+  dutyRecord,
+  hoursAfter,
+  stubPilotQueries,
+} from '../helpers/fixtures.js';
+
+mockQueries();
+
+const queries = await import('../../src/db/queries.js');
+const { LegalityValidator } = await import('../../src/engines/legality-validator.js');
+
+describe('LegalityValidator', () => {
+  const validator = new LegalityValidator();
+  const captain = crewMember();
+  // 0800 New York time
+  const report = new Date('2026-04-10T12:00:00Z');
+
+  // 10-hour duties reporting at 0800 New York time on the given April days
+  const dailyDuties = (days: number[]) =>
+    days.map((day) =>
+      dutyRecord(new Date(`2026-04-${String(day).padStart(2, '0')}T12:00:00Z`), 10)
+    );
+
+  beforeEach(() => {
+    stubPilotQueries(queries, captain);
+  });
+
+  describe('30-hour rest in 168 hours', () => {
+    it('is legal with no duty in the prior 168 hours', async () => {
+      const result = await validator.validateAssignment('crew-1', dutyAssignment(report, 9));
+
+      expect(result.is_legal).toBe(true);
+      expect(result.rest_compliance.is_compliant).toBe(true);
+    });
+
+    it('flags a week of daily duties without a 30-hour rest', async () => {
+      jest
+        .mocked(queries.getDutyTimeRecords)
+        .mockResolvedValue(dailyDuties([2, 3, 4, 5, 6, 7, 8, 9]));
+
+      const result = await validator.validateAssignment('crew-1', dutyAssignment(report, 9));
+
+      expect(result.rest_compliance.longest_qualifying_rest_hours).toBe(14);
+      expect(result.rest_compliance.weekly_rest_required_hours).toBe(30);
+      expect(result.violated_rules.map((v) => v.rule)).toEqual(['WEEKLY_REST']);
+    });
+
+    it('accepts a rest of 30 hours or more that includes a local night', async () => {
+      jest.mocked(queries.getDutyTimeRecords).mockResolvedValue(dailyDuties([2, 3, 4, 5, 6, 9]));
+
+      const result = await validator.validateAssignment('crew-1', dutyAssignment(report, 9));
+
+      expect(result.rest_compliance.longest_qualifying_rest_hours).toBe(62);
+      expect(result.is_legal).toBe(true);
+    });
+
+    it('still requires the minimum rest before the duty', async () => {
+      jest.mocked(queries.getDutyTimeRecords).mockResolvedValue(dailyDuties([6]));
+
+      const result = await validator.validateAssignment(
+        'crew-1',
+        dutyAssignment(hoursAfter(new Date('2026-04-06T22:00:00Z'), 9), 9)
+      );
+
+      expect(result.rest_compliance.minimum_rest_required).toBe(11);
+      expect(result.violated_rules.map((v) => v.rule)).toEqual(['MINIMUM_REST']);
+    });
+  });
+
+  describe('landing recency', () => {
+    const landings = (...dates: string[]) =>
+      jest.mocked(queries.getRecentLandings).mockResolvedValue(dates.map((d) => new Date(d)));
+
+    it('is met by 3 landings in the 90 days before the duty', async () => {
+      landings('2026-04-01T15:00:00Z', '2026-02-20T15:00:00Z', '2026-01-12T15:00:00Z');
+
+      const result = await validator.validateAssignment('crew-1', dutyAssignment(report, 9));
+
+      expect(queries.getRecentLandings).toHaveBeenCalledWith('crew-1', 'B737', report, 3);
+      expect(result.is_legal).toBe(true);
+    });
+
+    it('lapses 90 days after the third most recent landing', async () => {
+      landings('2026-04-01T15:00:00Z', '2026-02-20T15:00:00Z', '2026-01-05T15:00:00Z');
+
+      const result = await validator.validateAssignment('crew-1', dutyAssignment(report, 9));
+
+      expect(result.violated_rules).toEqual([
+        expect.objectContaining({
+          rule: 'LANDING_RECENCY',
+          description: 'B737 landing recency lapsed 2026-04-05 (14 CFR 121.439)',
+        }),
+      ]);
+    });
+
+    it('is not met with fewer than 3 recorded landings', async () => {
+      landings('2026-04-01T15:00:00Z', '2026-02-20T15:00:00Z');
+
+      const result = await validator.validateAssignment('crew-1', dutyAssignment(report, 9));
+
+      expect(result.violated_rules.map((v) => v.description)).toEqual([
+        'Fewer than 3 recorded landings in B737 as pilot flying (14 CFR 121.439)',
+      ]);
+    });
+  });
+
+  describe('unforeseen-circumstance extension', () => {
+    // 12-hour duty reporting at 0800 New York time (13-hour Table B limit)
+    const extended = (minutes: number) =>
+      dutyAssignment(report, 12 + minutes / 60, { unforeseen_extension_minutes: minutes });
+
+    const priorExtension = (minutes: number): FDPExtension => ({
+      extension_id: 'extension-1',
+      crew_id: 'crew-1',
+      duty_id: 'duty-prior',
+      duty_start_utc: new Date('2026-04-07T12:00:00Z'),
+      extension_minutes: minutes,
+      extended_duty_end_utc: new Date('2026-04-07T23:00:00Z'),
+      rule_pack: 'FAA_PART117',
+      regulation: '14 CFR 117.19(a)',
+      authorized_by: 'Capt. Rivera',
+      reason: 'ATC ground stop',
+      authorized_at: new Date('2026-04-07T20:00:00Z'),
+      report_required: minutes > 30,
+      created_at: new Date('2026-04-07T20:00:00Z'),
+      updated_at: new Date('2026-04-07T20:00:00Z'),
+    });
+
+    const withPriorExtension = (minutes: number) => {
+      jest
+        .mocked(queries.getDutyTimeRecords)
+        .mockResolvedValue([
+          dutyRecord(new Date('2026-04-07T12:00:00Z'), 11, { duty_id: 'duty-prior' }),
+        ]);
+      jest.mocked(queries.getFDPExtensions).mockResolvedValue([priorExtension(minutes)]);
+    };
+
+    it('extends the FDP limit by up to 2 hours', async () => {
+      const result = await validator.validateAssignment('crew-1', extended(120));
+
+      expect(result.fdp_compliance).toMatchObject({
+        is_compliant: true,
+        max_fdp_hours: 15,
+        unforeseen_extension_hours: 2,
+      });
+    });
+
+    it('rejects an extension beyond 2 hours', async () => {
+      const result = await validator.validateAssignment('crew-1', extended(150));
+
+      expect(result.fdp_compliance.unforeseen_extension_hours).toBe(0);
+      expect(result.fdp_compliance.violations).toContain(
+        'Unforeseen-circumstance extension of 150 minutes exceeds the 2-hour maximum'
+      );
+    });
+
+    it('allows one extension over 30 minutes in 168 hours', async () => {
+      withPriorExtension(45);
+
+      const result = await validator.validateAssignment('crew-1', extended(60));
+
+      expect(result.fdp_compliance.violations).toEqual([
+        'FDP already extended more than 30 minutes 1 time(s) in the prior 168 hours (maximum 1)',
+      ]);
+      expect(result.violated_rules.map((v) => v.rule)).toEqual(['FDP_LIMIT']);
+    });
+
+    it('does not count extensions of 30 minutes or less toward the 168-hour limit', async () => {
+      withPriorExtension(30);
+      const afterShortExtension = await validator.validateAssignment('crew-1', extended(60));
+
+      withPriorExtension(45);
+      const shortExtension = await validator.validateAssignment('crew-1', extended(30));
+
+      expect(afterShortExtension.fdp_compliance.is_compliant).toBe(true);
+      expect(shortExtension.fdp_compliance.is_compliant).toBe(true);
+    });
+
+    it('is not limited by the WOCL under Part 117', async () => {
+      // Reports 1500 New York time (12-hour limit) and is extended to 0400, inside the WOCL
+      const result = await validator.validateAssignment(
+        'crew-1',
+        dutyAssignment(new Date('2026-04-10T19:00:00Z'), 13, {
+          unforeseen_extension_minutes: 60,
+        })
+      );
+
+      expect(result.fdp_compliance).toMatchObject({
+        is_compliant: true,
+        max_fdp_hours: 13,
+        unforeseen_extension_hours: 1,
+      });
+    });
+
+    it('limits the sectors of an extended EASA FDP that encroaches on the WOCL', async () => {
+      stubPilotQueries(queries, crewMember({ base_airport: 'FRA', rule_pack: 'EASA_FTL' }));
+
+      // Reports 1800 Frankfurt time and ends at 0300, an hour into the WOCL
+      const result = await validator.validateAssignment(
+        'crew-1',
+        dutyAssignment(new Date('2026-04-10T16:00:00Z'), 9, {
+          number_of_segments: 5,
+          fdp_extension_hours: 1,
+          report_airport: 'FRA',
+        })
+      );
+
+      expect(result.fdp_compliance.violations).toContain(
+        'Extended FDP limited to 4 sectors with 60 minutes of WOCL encroachment (5 planned)'
+      );
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { DateTime } from 'luxon';
+import { MedicalValidityEngine } from '../../src/engines/medical-validity.js';
+import type { MedicalCertificate } from '../../src/types/crew.js';
+
+function medical(
+  certificateClass: MedicalCertificate['class'],
+  issueDate: Date
+): MedicalCertificate {
+  return {
+    certificate_id: 'med-1',
+    crew_id: 'crew-1',
+    class: certificateClass,
+    issue_date: issueDate,
+    expiration_date: issueDate,
+    status: 'VALID',
+    created_at: issueDate,
+  };
+}
+
+function isoDate(date: Date | undefined): string | null {
+  return date ? DateTime.fromJSDate(date).toISODate() : null;
+}
+
+describe('MedicalValidityEngine', () => {
+  const engine = new MedicalValidityEngine();
+  const examDate = new Date(2026, 2, 10);
+  const under40 = new Date(1990, 0, 1);
+  const over40 = new Date(1980, 0, 1);
+
+  describe('getPrivileges', () => {
+    it('runs each class to the end of the Nth calendar month for a pilot under 40', () => {
+      const privileges = engine.getPrivileges(
+        medical('FIRST_CLASS', examDate),
+        under40,
+        new Date(2026, 11, 1)
+      );
+
+      expect(privileges.age_at_exam).toBe(36);
+      expect(privileges.privilege_class).toBe('FIRST_CLASS');
+      expect(isoDate(privileges.privileges_valid_until.FIRST_CLASS)).toBe('2027-03-31');
+      expect(isoDate(privileges.privileges_valid_until.SECOND_CLASS)).toBe('2027-03-31');
+      expect(isoDate(privileges.privileges_valid_until.THIRD_CLASS)).toBe('2031-03-31');
+    });
+
+    it('shortens first-class privileges to 6 months from age 40', () => {
+      const privileges = engine.getPrivileges(
+        medical('FIRST_CLASS', examDate),
+        over40,
+        new Date(2026, 6, 15)
+      );
+
+      expect(privileges.age_at_exam).toBe(46);
+      expect(privileges.privilege_class).toBe('FIRST_CLASS');
+      expect(isoDate(privileges.privileges_valid_until.FIRST_CLASS)).toBe('2026-09-30');
+      expect(isoDate(privileges.privileges_valid_until.THIRD_CLASS)).toBe('2028-03-31');
+      expect(isoDate(privileges.next_step_down?.date)).toBe('2026-09-30');
+      expect(privileges.next_step_down?.to_class).toBe('SECOND_CLASS');
+    });
+
+    it.each([
+      ['2026-09-30', 'FIRST_CLASS'],
+      ['2026-10-01', 'SECOND_CLASS'],
+      ['2027-06-01', 'THIRD_CLASS'],
+      ['2028-04-01', null],
+    ])('steps first-class privileges down as of %s', (asOf, expected) => {
+      const privileges = engine.getPrivileges(
+        medical('FIRST_CLASS', examDate),
+        over40,
+        DateTime.fromISO(asOf).toJSDate()
+      );
+
+      expect(privileges.privilege_class).toBe(expected);
+    });
+
+    it('has no step down once all privileges have lapsed', () => {
+      const privileges = engine.getPrivileges(
+        medical('FIRST_CLASS', examDate),
+        over40,
+        new Date(2028, 3, 1)
+      );
+
+      expect(privileges.next_step_down).toBeNull();
+    });
+
+    it('takes age on the examination date', () => {
+      // Turns 40 the day after the examination
+      const privileges = engine.getPrivileges(
+        medical('FIRST_CLASS', examDate),
+        new Date(1986, 2, 11),
+        new Date(2026, 11, 1)
+      );
+
+      expect(privileges.age_at_exam).toBe(39);
+      expect(privileges.privilege_class).toBe('FIRST_CLASS');
+    });
+
+    it('never grants a higher class than the certificate', () => {
+      const privileges = engine.getPrivileges(
+        medical('SECOND_CLASS', examDate),
+        under40,
+        new Date(2026, 5, 1)
+      );
+
+      expect(privileges.privilege_class).toBe('SECOND_CLASS');
+      expect(privileges.privileges_valid_until.FIRST_CLASS).toBeUndefined();
+    });
+  });
+
+  describe('getRequiredClass', () => {
+    it('requires first class for captains and second class for first officers', () => {
+      expect(engine.getRequiredClass('CAPTAIN')).toBe('FIRST_CLASS');
+      expect(engine.getRequiredClass('FIRST_OFFICER')).toBe('SECOND_CLASS');
+      expect(engine.getRequiredClass('FA')).toBeNull();
+    });
+  });
+
+  describe('meetsClass', () => {
+    it('accepts the required class or higher', () => {
+      expect(engine.meetsClass('FIRST_CLASS', 'SECOND_CLASS')).toBe(true);
+      expect(engine.meetsClass('SECOND_CLASS', 'SECOND_CLASS')).toBe(true);
+      expect(engine.meetsClass('THIRD_CLASS', 'SECOND_CLASS')).toBe(false);
+      expect(engine.meetsClass(null, 'THIRD_CLASS')).toBe(false);
+    });
+  });
+});
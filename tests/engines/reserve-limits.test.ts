@@ -0,0 +1,133 @@
+import { ReserveLimitsEngine } from '../../src/engines/reserve-limits.js';
+import type { ReserveCallout } from '../../src/types/qualifications.js';
+import type { ReserveRule } from '../../src/types/rule-pack.js';
+
+const NO_LIMITS: ReserveRule = {
+  max_hours: null,
+  counts_as_fdp: false,
+  fdp_reduction_after_hours: null,
+  reserve_plus_fdp_over_limit_hours: null,
+  reserve_plus_fdp_max_hours: null,
+  reserve_plus_fdp_max_hours_augmented: null,
+  minimum_notice_hours: 0,
+};
+
+// FAA short-call reserve: 14-hour RAP, RAP plus FDP within the FDP limit + 4 or 16 hours
+const SHORT_CALL: ReserveRule = {
+  ...NO_LIMITS,
+  max_hours: 14,
+  reserve_plus_fdp_over_limit_hours: 4,
+  reserve_plus_fdp_max_hours: 16,
+};
+
+// EASA other standby: FDP reduced by standby beyond 6 hours, standby plus FDP within 18 hours
+const STANDBY: ReserveRule = {
+  ...NO_LIMITS,
+  max_hours: 16,
+  fdp_reduction_after_hours: 6,
+  reserve_plus_fdp_max_hours: 18,
+  reserve_plus_fdp_max_hours_augmented: 18,
+};
+
+function at(time: string): Date {
+  return new Date(`2026-05-04T${time}:00Z`);
+}
+
+function reserve(overrides: Partial<ReserveCallout> = {}): ReserveCallout {
+  return {
+    reserve_type: 'SHORT_CALL',
+    reserve_start_utc: at('06:00'),
+    reserve_end_utc: at('20:00'),
+    ...overrides,
+  };
+}
+
+describe('ReserveLimitsEngine', () => {
+  const engine = new ReserveLimitsEngine();
+
+  it('passes a duty inside the reserve period and the combined limit', () => {
+    const result = engine.check(SHORT_CALL, reserve(), at('10:00'), at('20:00'), 13, false);
+
+    expect(result.is_compliant).toBe(true);
+    expect(result.reserve_hours).toBe(14);
+    expect(result.reserve_hours_before_report).toBe(4);
+    expect(result.reserve_plus_fdp_hours).toBe(14);
+    expect(result.reserve_plus_fdp_limit).toBe(16);
+    expect(result.notice_hours).toBeNull();
+  });
+
+  it('caps reserve plus FDP at the lesser of the FDP limit plus margin and the fixed cap', () => {
+    const result = engine.check(SHORT_CALL, reserve(), at('10:00'), at('19:30'), 9, false);
+
+    expect(result.reserve_plus_fdp_limit).toBe(13);
+    expect(result.is_compliant).toBe(false);
+    expect(result.violations).toEqual([
+      'Reserve plus FDP of 13.5 hours exceeds the 13-hour limit',
+    ]);
+  });
+
+  it('applies no fixed cap to augmented duties when none is set', () => {
+    const result = engine.check(SHORT_CALL, reserve(), at('10:00'), at('23:00'), 17, true);
+
+    expect(result.reserve_plus_fdp_limit).toBe(21);
+    expect(result.is_compliant).toBe(true);
+  });
+
+  it('flags a reserve period longer than the maximum', () => {
+    const result = engine.check(
+      SHORT_CALL,
+      reserve({ reserve_end_utc: at('21:00') }),
+      at('10:00'),
+      at('16:00'),
+      13,
+      false
+    );
+
+    expect(result.violations).toEqual([
+      'SHORT_CALL reserve period of 15.0 hours exceeds the 14-hour maximum',
+    ]);
+  });
+
+  it('flags a report outside the reserve period', () => {
+    const result = engine.check(SHORT_CALL, reserve(), at('05:00'), at('12:00'), 13, false);
+
+    expect(result.is_compliant).toBe(false);
+    expect(result.violations[0]).toMatch(/falls outside the reserve period/);
+  });
+
+  it('requires the minimum notice between callout and report', () => {
+    const longCall: ReserveRule = { ...NO_LIMITS, minimum_notice_hours: 2 };
+    const callout = reserve({ reserve_type: 'LONG_CALL', callout_utc: at('08:30') });
+
+    const late = engine.check(longCall, callout, at('10:00'), at('18:00'), 13, false);
+    const early = engine.check(longCall, callout, at('11:00'), at('18:00'), 13, false);
+
+    expect(late.notice_hours).toBe(1.5);
+    expect(late.violations).toEqual([
+      '1.5 hours notice of report from LONG_CALL reserve (requires 2)',
+    ]);
+    expect(early.is_compliant).toBe(true);
+  });
+
+  describe('getFDPReductionHours', () => {
+    it('reduces the FDP by reserve time beyond the threshold', () => {
+      expect(engine.getFDPReductionHours(STANDBY, reserve(), at('15:00'))).toBe(3);
+    });
+
+    it('does not reduce the FDP within the threshold', () => {
+      expect(engine.getFDPReductionHours(STANDBY, reserve(), at('11:00'))).toBe(0);
+    });
+
+    it('does not reduce the FDP when the rule has no threshold', () => {
+      expect(engine.getFDPReductionHours(SHORT_CALL, reserve(), at('19:00'))).toBe(0);
+    });
+
+    it('is reported by the check', () => {
+      const result = engine.check(STANDBY, reserve(), at('15:00'), at('23:00'), 10, false);
+
+      expect(result.fdp_reduction_hours).toBe(3);
+      expect(result.reserve_plus_fdp_limit).toBe(18);
+      expect(result.is_compliant).toBe(true);
+    });
+  });
+});
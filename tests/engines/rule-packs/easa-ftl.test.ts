@@ -0,0 +1,178 @@
+import { EASAFTLRulePack } from '../../../src/engines/rule-packs/easa-ftl.js';
+import type { FDPLimitInput } from '../../../src/types/rule-pack.js';
+import type { RestOpportunity } from '../../../src/types/qualifications.js';
+
+function fdpInput(overrides: Partial<FDPLimitInput> = {}): FDPLimitInput {
+  return {
+    report_hour: 8,
+    report_minute: 0,
+    segments: 2,
+    acclimation: {
+      is_acclimated: true,
+      acclimated_airport: 'FRA',
+      longitude_difference_degrees: 0,
+    },
+    augmenting_pilots: 0,
+    wocl_encroachment_minutes: 0,
+    extensions_in_prior_7_days: 0,
+    rest_opportunities: [],
+    home_base_timezone: 'Europe/Berlin',
+    ...overrides,
+  };
+}
+
+function restOf(hours: number, startUtc = '2026-03-10T10:00:00Z'): RestOpportunity {
+  const start = new Date(startUtc);
+  return { start_utc: start, end_utc: new Date(start.getTime() + hours * 60 * 60 * 1000) };
+}
+
+describe('EASAFTLRulePack', () => {
+  const pack = new EASAFTLRulePack();
+
+  describe('Table 2 (acclimatised)', () => {
+    it.each([
+      [8, 0, 1, 13, '0600-1329'],
+      [8, 0, 2, 13, '0600-1329'],
+      [8, 0, 4, 12, '0600-1329'],
+      [13, 45, 3, 12.25, '1330-1359'],
+      [16, 45, 2, 11.25, '1630-1659'],
+      [5, 20, 2, 12.25, '0515-0529'],
+    ])(
+      'reports at %i:%i with %i sectors limits the FDP to %d hours',
+      (hour, minute, segments, hours, bucket) => {
+        const limit = pack.getFDPLimit(fdpInput({ report_hour: hour, report_minute: minute, segments }));
+
+        expect(limit.max_fdp_hours).toBe(hours);
+        expect(limit.fdp_table).toBe('ACCLIMATISED');
+        expect(limit.report_time_bucket).toBe(bucket);
+      }
+    );
+
+    it.each([
+      [23, 30],
+      [2, 0],
+      [4, 59],
+    ])('wraps the 1700-0459 band past midnight (%i:%i)', (hour, minute) => {
+      const limit = pack.getFDPLimit(fdpInput({ report_hour: hour, report_minute: minute }));
+
+      expect(limit.max_fdp_hours).toBe(11);
+      expect(limit.report_time_bucket).toBe('1700-0459');
+    });
+
+    it('uses the last column beyond ten sectors', () => {
+      const limit = pack.getFDPLimit(fdpInput({ segments: 12 }));
+
+      expect(limit.max_fdp_hours).toBe(9);
+    });
+  });
+
+  describe('Table 3 (unknown state of acclimatisation)', () => {
+    const unknown = {
+      is_acclimated: false,
+      acclimated_airport: 'FRA',
+      longitude_difference_degrees: 90,
+    };
+
+    it('ignores the report time', () => {
+      const morning = pack.getFDPLimit(fdpInput({ acclimation: unknown, segments: 3 }));
+      const night = pack.getFDPLimit(
+        fdpInput({ acclimation: unknown, segments: 3, report_hour: 23 })
+      );
+
+      expect(morning.max_fdp_hours).toBe(10.5);
+      expect(night.max_fdp_hours).toBe(10.5);
+      expect(morning.fdp_table).toBe('UNKNOWN_STATE');
+      expect(morning.report_time_bucket).toBe('ANY');
+    });
+
+    it('uses the last column beyond eight sectors', () => {
+      const limit = pack.getFDPLimit(fdpInput({ acclimation: unknown, segments: 9 }));
+
+      expect(limit.max_fdp_hours).toBe(9);
+    });
+  });
+
+  describe('in-flight rest', () => {
+    it('limits the FDP by rest facility and additional pilots', () => {
+      const limit = pack.getFDPLimit(
+        fdpInput({ augmenting_pilots: 2, rest_facility_class: 'CLASS_2' })
+      );
+
+      expect(limit.max_fdp_hours).toBe(16);
+      expect(limit.fdp_table).toBe('AUGMENTED_CLASS_2_2_ADDITIONAL');
+    });
+
+    it('cannot be combined with an extension', () => {
+      const limit = pack.getFDPLimit(
+        fdpInput({ augmenting_pilots: 1, rest_facility_class: 'CLASS_1', extension_hours: 1 })
+      );
+
+      expect(limit.max_fdp_hours).toBe(16);
+      expect(limit.extension_hours).toBe(0);
+      expect(limit.violations).toContain('FDP extension cannot be combined with in-flight rest');
+    });
+  });
+
+  describe('split duty rest', () => {
+    it('credits half the break after post- and pre-flight duties', () => {
+      const limit = pack.getFDPLimit(fdpInput({ rest_opportunities: [restOf(4)] }));
+
+      expect(limit.split_duty_credit_hours).toBe(1.75);
+      expect(limit.max_fdp_hours).toBe(14.75);
+      expect(limit.split_duty_rest[0]).toMatchObject({ rest_hours: 4, credited_hours: 1.75 });
+    });
+
+    it('credits only the longest break', () => {
+      const limit = pack.getFDPLimit(
+        fdpInput({
+          rest_opportunities: [restOf(4), restOf(5, '2026-03-10T16:00:00Z')],
+        })
+      );
+
+      expect(limit.split_duty_credit_hours).toBe(2.25);
+      expect(limit.split_duty_rest[0]).toMatchObject({
+        credited_hours: 0,
+        reason: 'Only one break on the ground is credited per FDP',
+      });
+      expect(limit.split_duty_rest[1].credited_hours).toBe(2.25);
+    });
+
+    it('gives no credit for a break shorter than the minimum', () => {
+      const limit = pack.getFDPLimit(fdpInput({ rest_opportunities: [restOf(3)] }));
+
+      expect(limit.split_duty_credit_hours).toBe(0);
+      expect(limit.split_duty_rest[0].reason).toMatch(/shorter than the 3.5 hours required/);
+    });
+
+    it('falls back to the break length when no rest opportunities are recorded', () => {
+      const limit = pack.getFDPLimit(fdpInput({ split_duty_break_hours: 6 }));
+
+      expect(limit.split_duty_credit_hours).toBe(2.75);
+      expect(limit.split_duty_rest).toEqual([]);
+    });
+
+    it('cannot be combined with in-flight rest', () => {
+      const limit = pack.getFDPLimit(
+        fdpInput({
+          augmenting_pilots: 1,
+          rest_facility_class: 'CLASS_1',
+          rest_opportunities: [restOf(4)],
+        })
+      );
+
+      expect(limit.split_duty_rest[0]).toMatchObject({
+        credited_hours: 0,
+        reason: 'Split duty cannot be combined with in-flight rest',
+      });
+    });
+
+    it('cannot be combined with an extension', () => {
+      const limit = pack.getFDPLimit(
+        fdpInput({ extension_hours: 1, rest_opportunities: [restOf(4)] })
+      );
+
+      expect(limit.extension_hours).toBe(0);
+      expect(limit.violations).toContain('FDP extension cannot be combined with a split duty');
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { FAAPart117RulePack } from '../../../src/engines/rule-packs/faa-part117.js';
+import type { FDPLimitInput } from '../../../src/types/rule-pack.js';
+
+function fdpInput(overrides: Partial<FDPLimitInput> = {}): FDPLimitInput {
+  return {
+    report_hour: 8,
+    report_minute: 0,
+    segments: 2,
+    acclimation: { is_acclimated: true, acclimated_airport: 'JFK', longitude_difference_degrees: 0 },
+    augmenting_pilots: 0,
+    wocl_encroachment_minutes: 0,
+    extensions_in_prior_7_days: 0,
+    rest_opportunities: [],
+    home_base_timezone: 'America/New_York',
+    ...overrides,
+  };
+}
+
+describe('FAAPart117RulePack', () => {
+  const pack = new FAAPart117RulePack();
+
+  describe('Table B (unaugmented)', () => {
+    it.each([
+      [8, 2, 13, '0700-1259'],
+      [8, 3, 12, '0700-1259'],
+      [8, 7, 10, '0700-1259'],
+      [8, 9, 10, '0700-1259'],
+      [3, 2, 9, '0000-0459'],
+      [5, 4, 9.5, '0500-0559'],
+      [14, 5, 11, '1300-1659'],
+      [22, 2, 11, '2200-2259'],
+      [23, 6, 9, '2300-2359'],
+    ])('reports at %i:00 with %i segments limits the FDP to %d hours', (hour, segments, hours, bucket) => {
+      const limit = pack.getFDPLimit(fdpInput({ report_hour: hour, segments }));
+
+      expect(limit.max_fdp_hours).toBe(hours);
+      expect(limit.fdp_table).toBe('UNAUGMENTED');
+      expect(limit.report_time_bucket).toBe(bucket);
+      expect(limit.violations).toEqual([]);
+    });
+
+    it('reduces the limit by 30 minutes when not acclimated', () => {
+      const limit = pack.getFDPLimit(
+        fdpInput({
+          acclimation: {
+            is_acclimated: false,
+            acclimated_airport: 'JFK',
+            longitude_difference_degrees: 75,
+          },
+        })
+      );
+
+      expect(limit.max_fdp_hours).toBe(12.5);
+    });
+  });
+
+  describe('Table C (augmented)', () => {
+    // Report hour inside each Table C start-time bucket
+    const reportHours: Record<string, number> = {
+      '0000-0559': 3,
+      '0600-0659': 6,
+      '0700-1259': 9,
+      '1300-1659': 14,
+      '1700-2359': 20,
+    };
+
+    it.each([
+      ['CLASS_1', 1, [15, 16, 17, 16, 15]],
+      ['CLASS_1', 2, [17, 18.5, 19, 18.5, 17]],
+      ['CLASS_2', 1, [14, 15, 16.5, 15.5, 14]],
+      ['CLASS_2', 2, [15.5, 16.5, 18, 17, 15.5]],
+      ['CLASS_3', 1, [13, 14, 15, 14.5, 13.5]],
+      ['CLASS_3', 2, [13.5, 14.5, 15.5, 15.5, 14]],
+    ] as const)(
+      'matches 117 Table C for a %s rest facility with %i augmenting pilot(s)',
+      (facility, augmentingPilots, limits) => {
+        const actual = Object.values(reportHours).map(
+          (hour) =>
+            pack.getFDPLimit(
+              fdpInput({
+                report_hour: hour,
+                augmenting_pilots: augmentingPilots,
+                rest_facility_class: facility,
+              })
+            ).max_fdp_hours
+        );
+
+        expect(actual).toEqual(limits);
+      }
+    );
+
+    it('uses the 3-pilot column for one augmenting pilot', () => {
+      const limit = pack.getFDPLimit(
+        fdpInput({ augmenting_pilots: 1, rest_facility_class: 'CLASS_1' })
+      );
+
+      expect(limit.max_fdp_hours).toBe(17);
+      expect(limit.fdp_table).toBe('AUGMENTED_CLASS_1_3_PILOTS');
+      expect(limit.report_time_bucket).toBe('0700-1259');
+    });
+
+    it('uses the 4-pilot column by rest facility and report time', () => {
+      const limit = pack.getFDPLimit(
+        fdpInput({ report_hour: 18, augmenting_pilots: 2, rest_facility_class: 'CLASS_2' })
+      );
+
+      expect(limit.max_fdp_hours).toBe(15.5);
+      expect(limit.fdp_table).toBe('AUGMENTED_CLASS_2_4_PILOTS');
+      expect(limit.report_time_bucket).toBe('1700-2359');
+    });
+
+    it('evaluates more than two augmenting pilots against the 4-pilot column', () => {
+      const limit = pack.getFDPLimit(
+        fdpInput({ augmenting_pilots: 3, rest_facility_class: 'CLASS_1' })
+      );
+
+      expect(limit.max_fdp_hours).toBe(19);
+    });
+
+    it('requires a rest facility class', () => {
+      const limit = pack.getFDPLimit(fdpInput({ augmenting_pilots: 1 }));
+
+      expect(limit.max_fdp_hours).toBe(0);
+      expect(limit.violations).toHaveLength(1);
+    });
+  });
+
+  describe('split duty rest', () => {
+    // 2300-0300 New York time (EST)
+    const overnight = {
+      start_utc: new Date('2026-01-15T04:00:00Z'),
+      end_utc: new Date('2026-01-15T08:00:00Z'),
+    };
+
+    it('credits rest taken inside the 2200-0500 home base window', () => {
+      const limit = pack.getFDPLimit(fdpInput({ rest_opportunities: [overnight] }));
+
+      expect(limit.split_duty_credit_hours).toBe(4);
+      expect(limit.max_fdp_hours).toBe(17);
+      expect(limit.split_duty_rest[0]).toMatchObject({ rest_hours: 4, credited_hours: 4 });
+      expect(limit.split_duty_rest[0].reason).toBeUndefined();
+    });
+
+    it('credits only the part of the rest inside the window', () => {
+      // 0100-0600 New York time
+      const limit = pack.getFDPLimit(
+        fdpInput({
+          rest_opportunities: [
+            {
+              start_utc: new Date('2026-01-15T06:00:00Z'),
+              end_utc: new Date('2026-01-15T11:00:00Z'),
+            },
+          ],
+        })
+      );
+
+      expect(limit.split_duty_rest[0]).toMatchObject({ rest_hours: 5, credited_hours: 4 });
+    });
+
+    it('gives no credit for less than 3 hours inside the window', () => {
+      // 1900-2300 New York time
+      const limit = pack.getFDPLimit(
+        fdpInput({
+          rest_opportunities: [
+            {
+              start_utc: new Date('2026-01-15T00:00:00Z'),
+              end_utc: new Date('2026-01-15T04:00:00Z'),
+            },
+          ],
+        })
+      );
+
+      expect(limit.split_duty_credit_hours).toBe(0);
+      expect(limit.max_fdp_hours).toBe(13);
+      expect(limit.split_duty_rest[0].reason).toMatch(/1\.0 hours of rest between 2200 and 0500/);
+    });
+
+    it('reads the window in home base time', () => {
+      // 2300-0300 New York time is 2000-0000 in Los Angeles
+      const limit = pack.getFDPLimit(
+        fdpInput({ rest_opportunities: [overnight], home_base_timezone: 'America/Los_Angeles' })
+      );
+
+      expect(limit.split_duty_rest[0].credited_hours).toBe(0);
+    });
+
+    it('does not apply to augmented operations', () => {
+      const limit = pack.getFDPLimit(
+        fdpInput({
+          augmenting_pilots: 1,
+          rest_facility_class: 'CLASS_1',
+          rest_opportunities: [overnight],
+        })
+      );
+
+      expect(limit.max_fdp_hours).toBe(17);
+      expect(limit.split_duty_rest[0]).toMatchObject({
+        credited_hours: 0,
+        reason: 'Split duty does not apply to augmented operations',
+      });
+    });
+  });
+});
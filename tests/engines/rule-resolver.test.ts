@@ -0,0 +1,142 @@
+import { RuleResolver } from '../../src/engines/rule-resolver.js';
+import type { PayCalculationRule } from '../../src/types/pay.js';
+import { crewMember } from '../helpers/fixtures.js';
+
+const STATIC_RULES = {
+  version: '2.1',
+  pilot_base_pay: {
+    positions: {
+      CAPTAIN: { hourly_rate: 250, minimum_monthly_hours: 75 },
+      FIRST_OFFICER: { hourly_rate: 150, minimum_monthly_hours: 75 },
+    },
+  },
+  premium_pay: {
+    premiums: {
+      night_flying: { rate_multiplier: 1.1 },
+      holiday: { rate_multiplier: 2.0 },
+    },
+  },
+  training_pay: {
+    rates: {
+      simulator_training: { hourly_rate: 80 },
+    },
+  },
+};
+
+const CAPTAIN = crewMember({ union_code: 'ALPA' });
+
+function dbRule(ruleId: string, overrides: Partial<PayCalculationRule> = {}): PayCalculationRule {
+  return {
+    rule_id: ruleId,
+    rule_name: 'Base Pay',
+    rule_type: 'BASE_PAY',
+    crew_type: 'PILOT',
+    effective_date: new Date('2026-01-01'),
+    rule_config: { hourly_rate: 260 },
+    version: 1,
+    is_active: true,
+    created_at: new Date('2026-01-01'),
+    updated_at: new Date('2026-01-01'),
+    ...overrides,
+  };
+}
+
+describe('RuleResolver', () => {
+  let resolver: RuleResolver;
+
+  beforeEach(() => {
+    resolver = new RuleResolver(STATIC_RULES);
+  });
+
+  it('falls back to the static rule when no database rule matches', () => {
+    const rule = resolver.resolve('BASE_PAY', CAPTAIN);
+
+    expect(rule).toEqual({
+      rule_type: 'BASE_PAY',
+      rule_id: 'static:pilot_base_pay.CAPTAIN',
+      rule_name: 'pilot_base_pay.CAPTAIN',
+      version: '2.1',
+      source: 'STATIC',
+      config: { hourly_rate: 250, minimum_monthly_hours: 75 },
+    });
+  });
+
+  it('layers a database rule config over the static default', () => {
+    resolver.setDatabaseRules([dbRule('general')]);
+
+    const rule = resolver.resolve('BASE_PAY', CAPTAIN);
+
+    expect(rule?.source).toBe('DATABASE');
+    expect(rule?.rule_id).toBe('general');
+    expect(rule?.version).toBe('1');
+    expect(rule?.config).toEqual({ hourly_rate: 260, minimum_monthly_hours: 75 });
+  });
+
+  it('prefers a position rule over a union rule over a general rule', () => {
+    resolver.setDatabaseRules([
+      dbRule('general'),
+      dbRule('union', { union_code: 'ALPA' }),
+      dbRule('position', { position: 'CAPTAIN' }),
+    ]);
+
+    expect(resolver.resolve('BASE_PAY', CAPTAIN)?.rule_id).toBe('position');
+  });
+
+  it('prefers a position and union rule over a position rule', () => {
+    resolver.setDatabaseRules([
+      dbRule('position', { position: 'CAPTAIN' }),
+      dbRule('both', { position: 'CAPTAIN', union_code: 'ALPA' }),
+    ]);
+
+    expect(resolver.resolve('BASE_PAY', CAPTAIN)?.rule_id).toBe('both');
+  });
+
+  it('ignores rules for another position or union', () => {
+    resolver.setDatabaseRules([
+      dbRule('general'),
+      dbRule('first-officer', { position: 'FIRST_OFFICER' }),
+      dbRule('other-union', { union_code: 'APA' }),
+    ]);
+
+    expect(resolver.resolve('BASE_PAY', CAPTAIN)?.rule_id).toBe('general');
+  });
+
+  it('breaks specificity ties by latest effective date, then highest version', () => {
+    resolver.setDatabaseRules([
+      dbRule('older', { effective_date: new Date('2025-01-01'), version: 5 }),
+      dbRule('v1', { version: 1 }),
+      dbRule('v2', { version: 2 }),
+    ]);
+
+    expect(resolver.resolve('BASE_PAY', CAPTAIN)?.rule_id).toBe('v2');
+  });
+
+  it('matches keyed rules by rule_key or by rule name', () => {
+    resolver.setDatabaseRules([
+      dbRule('night', {
+        rule_type: 'PREMIUM',
+        rule_name: 'Night Flying Premium',
+        rule_config: { rate_multiplier: 1.15 },
+      }),
+      dbRule('holiday', {
+        rule_type: 'PREMIUM',
+        rule_name: 'Christmas Premium',
+        rule_config: { rule_key: 'holiday', rate_multiplier: 2.5 },
+      }),
+    ]);
+
+    expect(resolver.resolve('PREMIUM', CAPTAIN, 'night_flying')?.rule_id).toBe('night');
+    expect(resolver.resolve('PREMIUM', CAPTAIN, 'holiday')?.rule_id).toBe('holiday');
+  });
+
+  it('resolves training rates by key', () => {
+    const rule = resolver.resolve('TRAINING', CAPTAIN, 'simulator_training');
+
+    expect(rule?.rule_id).toBe('static:training_pay.simulator_training');
+    expect(rule?.config).toEqual({ hourly_rate: 80 });
+  });
+
+  it('returns null when neither a static nor a database rule exists', () => {
+    expect(resolver.resolve('TRAINING', CAPTAIN, 'line_check')).toBeNull();
+  });
+});
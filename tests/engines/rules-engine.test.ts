@@ -0,0 +1,207 @@
+import { jest } from '@jest/globals';
+import { mockQueries } from '../helpers/mock-queries.js';
+import { crewMember } from '../helpers/fixtures.js';
+import type { PayContext } from '../../src/engines/rules-engine.js';
+import type { PayCalculationRule, TrainingPayEvent } from '../../src/types/pay.js';
+
+mockQueries();
+
+const queries = await import('../../src/db/queries.js');
+const { RulesEngine } = await import('../../src/engines/rules-engine.js');
+
+// Captain at the static $250/hour base rate
+function payContext(overrides: Partial<PayContext> = {}): PayContext {
+  return {
+    crewMember: crewMember(),
+    periodStart: new Date('2026-04-01'),
+    periodEnd: new Date('2026-04-14'),
+    flightHours: 0,
+    dutyHours: 0,
+    dutyDays: 0,
+    ...overrides,
+  };
+}
+
+function dbRule(ruleType: PayCalculationRule['rule_type'], config: Record<string, any>) {
+  return {
+    rule_id: `rule-${ruleType.toLowerCase()}`,
+    rule_name: ruleType,
+    rule_type: ruleType,
+    crew_type: 'PILOT',
+    effective_date: new Date('2026-01-01'),
+    rule_config: config,
+    version: 3,
+    is_active: true,
+    created_at: new Date('2026-01-01'),
+    updated_at: new Date('2026-01-01'),
+  } as PayCalculationRule;
+}
+
+function trainingEvent(overrides: Partial<TrainingPayEvent> = {}): TrainingPayEvent {
+  return {
+    training_id: 'training-1',
+    training_type: 'RECURRENT',
+    event_format: 'SIMULATOR',
+    date: new Date('2026-04-10T00:00:00Z'),
+    duration_hours: 4,
+    same_day_flight_hours: 0,
+    ...overrides,
+  };
+}
+
+describe('RulesEngine', () => {
+  let engine: InstanceType<typeof RulesEngine>;
+
+  beforeEach(() => {
+    engine = new RulesEngine();
+  });
+
+  describe('calculateDeadheadPay', () => {
+    it('pays each duty at half the base rate with a 2-hour minimum', () => {
+      const deadhead = engine.calculateDeadheadPay(payContext({ deadheadDutyHours: [1, 3] }));
+
+      expect(deadhead.amount).toBe(625);
+      expect(deadhead.calculation).toBe(
+        '4.00 hours on 2 duty(ies), paid as 5.00 hours × $250 × 50% = $625.00'
+      );
+      expect(deadhead.rule).toMatchObject({ source: 'STATIC', rule_id: 'static:deadhead_pay' });
+    });
+
+    it('applies the minimum to each duty rather than the period', () => {
+      const deadhead = engine.calculateDeadheadPay(
+        payContext({ deadheadDutyHours: [0.5, 0.5, 0] })
+      );
+
+      // Two positioning duties at the 2-hour minimum; the zero-hour duty is not deadhead
+      expect(deadhead.amount).toBe(500);
+    });
+
+    it('uses the percentage and minimum of a database rule', async () => {
+      jest
+        .mocked(queries.getPayCalculationRules)
+        .mockResolvedValue([dbRule('DEADHEAD', { percentage_of_base: 100, minimum_hours: 4 })]);
+      await engine.loadDatabaseRules('PILOT', 'CAPTAIN');
+
+      const deadhead = engine.calculateDeadheadPay(payContext({ deadheadDutyHours: [1.5, 5] }));
+
+      expect(deadhead.amount).toBe((4 + 5) * 250);
+      expect(deadhead.description).toBe('Deadhead at 100% of base, minimum 4 hours per duty');
+      expect(deadhead.rule).toMatchObject({ source: 'DATABASE', rule_id: 'rule-deadhead' });
+    });
+
+    it('pays nothing without deadhead in the period', () => {
+      const deadhead = engine.calculateDeadheadPay(payContext());
+
+      expect(deadhead.amount).toBe(0);
+      expect(deadhead.description).toBe('No deadhead in period');
+    });
+  });
+
+  describe('calculateTrainingPay', () => {
+    const amounts = (context: PayContext) =>
+      engine.calculateTrainingPay(context, engine.calculateCredit(context)).map((t) => t.amount);
+
+    it('pays a simulator event by the hour and a classroom day at the daily rate', () => {
+      const context = payContext({
+        trainingEvents: [
+          trainingEvent(),
+          trainingEvent({ event_format: 'CLASSROOM', duration_hours: null }),
+        ],
+      });
+
+      expect(amounts(context)).toEqual([4 * 75, 200]);
+    });
+
+    it('pays only what the training adds over same-day flight pay', () => {
+      const [training] = engine.calculateTrainingPay(
+        payContext({
+          trainingEvents: [trainingEvent({ duration_hours: 6, same_day_flight_hours: 1 })],
+        })
+      );
+
+      expect(training.amount).toBe(450 - 250);
+      expect(training.calculation).toBe(
+        '6.00 hours × $75 = $450.00 - $250.00 same-day flight pay = $200.00'
+      );
+      expect(training.description).toBe(
+        'RECURRENT training on 2026-04-10 (duty day, paid above flight pay)'
+      );
+    });
+
+    it('offsets the credit earned on the training day when credit was computed', () => {
+      // 2 block hours on an 8-hour duty credit the 5-hour minimum day
+      const context = payContext({
+        dutyPeriods: [
+          {
+            duty_id: 'duty-1',
+            duty_date: new Date('2026-04-10T00:00:00Z'),
+            block_hours: 2,
+            scheduled_block_hours: null,
+            duty_hours: 8,
+          },
+        ],
+        trips: [
+          {
+            report_utc: new Date('2026-04-10T12:00:00Z'),
+            release_utc: new Date('2026-04-10T20:00:00Z'),
+            duty_ids: ['duty-1'],
+            tafb_hours: 8,
+            is_international: false,
+            is_complete: true,
+            segments: [],
+          },
+        ],
+        trainingEvents: [
+          trainingEvent({ duration_hours: 20, same_day_flight_hours: 2 }),
+          trainingEvent({ date: new Date('2026-04-11T00:00:00Z'), same_day_flight_hours: 2 }),
+        ],
+      });
+
+      const [dutyDay, otherDay] = engine.calculateTrainingPay(
+        context,
+        engine.calculateCredit(context)
+      );
+
+      expect(dutyDay.amount).toBe(20 * 75 - 5 * 250);
+      expect(dutyDay.calculation).toContain('- $1250.00 same-day credit pay');
+      // Credit is the day's pay, so recorded flight hours on a day without credit are not offset
+      expect(otherDay.amount).toBe(4 * 75);
+    });
+
+    it('never pays less than nothing', () => {
+      const [training] = engine.calculateTrainingPay(
+        payContext({
+          trainingEvents: [
+            trainingEvent({
+              event_format: 'CLASSROOM',
+              duration_hours: null,
+              same_day_flight_hours: 3,
+            }),
+          ],
+        })
+      );
+
+      expect(training.amount).toBe(0);
+    });
+
+    it('pays nothing without a rate for the crew type or a duration for an hourly rate', () => {
+      const flightAttendant = crewMember({ crew_type: 'FLIGHT_ATTENDANT', position: 'FA' });
+
+      const [noRate] = engine.calculateTrainingPay(
+        payContext({ crewMember: flightAttendant, trainingEvents: [trainingEvent()] })
+      );
+      const [noDuration] = engine.calculateTrainingPay(
+        payContext({ trainingEvents: [trainingEvent({ duration_hours: null })] })
+      );
+
+      expect(noRate).toMatchObject({
+        amount: 0,
+        calculation: 'No simulator training rate for FLIGHT_ATTENDANT',
+      });
+      expect(noDuration).toMatchObject({
+        amount: 0,
+        calculation: 'Hourly rate requires the event duration',
+      });
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { TripBuilder } from '../../src/engines/trip-builder.js';
+import type { DutyTimeRecord, FlightSegment } from '../../src/types/crew.js';
+import { HOUR_MS, crewMember, dutyRecord } from '../helpers/fixtures.js';
+
+const CREW = crewMember();
+
+function duty(dutyId: string, start: string, end: string): DutyTimeRecord {
+  const report = new Date(start);
+  return dutyRecord(report, (new Date(end).getTime() - report.getTime()) / HOUR_MS, {
+    duty_id: dutyId,
+  });
+}
+
+function leg(
+  dutyId: string,
+  segmentNumber: number,
+  origin: string,
+  destination: string,
+  out: string,
+  arrive: string
+): FlightSegment {
+  return {
+    segment_id: `${dutyId}-${segmentNumber}`,
+    duty_id: dutyId,
+    crew_id: CREW.crew_id,
+    segment_number: segmentNumber,
+    flight_number: `XX${100 + segmentNumber}`,
+    origin,
+    destination,
+    out_utc: new Date(out),
+    in_utc: new Date(arrive),
+    is_deadhead: false,
+    pilot_flying: false,
+    captain_seat: true,
+    created_at: new Date(out),
+  };
+}
+
+describe('TripBuilder', () => {
+  const builder = new TripBuilder();
+
+  describe('buildTrips', () => {
+    const outbound = duty('d1', '2026-06-01T12:00:00Z', '2026-06-01T22:00:00Z');
+    const inbound = duty('d2', '2026-06-02T14:00:00Z', '2026-06-03T00:00:00Z');
+    const legs = [
+      leg('d1', 2, 'BOS', 'LHR', '2026-06-01T15:00:00Z', '2026-06-01T21:30:00Z'),
+      leg('d1', 1, 'JFK', 'BOS', '2026-06-01T13:00:00Z', '2026-06-01T14:15:00Z'),
+      leg('d2', 1, 'LHR', 'JFK', '2026-06-02T15:00:00Z', '2026-06-02T23:30:00Z'),
+    ];
+
+    it('groups duties from report at base to release at base', () => {
+      const trips = builder.buildTrips([inbound, outbound], legs, CREW);
+
+      expect(trips).toHaveLength(1);
+      expect(trips[0]).toMatchObject({
+        report_utc: new Date('2026-06-01T12:00:00Z'),
+        release_utc: new Date('2026-06-03T00:00:00Z'),
+        duty_ids: ['d1', 'd2'],
+        tafb_hours: 36,
+        is_international: true,
+        is_complete: true,
+      });
+    });
+
+    it('gives each leg the time until the next leg blocks out', () => {
+      const [trip] = builder.buildTrips([outbound, inbound], legs, CREW);
+
+      expect(
+        trip.segments.map((s) => [s.origin, s.destination, s.tafb_hours, s.is_international])
+      ).toEqual([
+        ['JFK', 'BOS', 3, false],
+        ['BOS', 'LHR', 24, true],
+        ['LHR', 'JFK', 9, true],
+      ]);
+    });
+
+    it('treats a duty without legs as a trip of its own', () => {
+      const standby = duty('s1', '2026-06-05T10:00:00Z', '2026-06-05T16:00:00Z');
+
+      const trips = builder.buildTrips([outbound, inbound, standby], legs, CREW);
+
+      expect(trips).toHaveLength(2);
+      expect(trips[1]).toMatchObject({
+        duty_ids: ['s1'],
+        tafb_hours: 6,
+        is_international: false,
+        is_complete: true,
+      });
+      expect(trips[1].segments).toHaveLength(1);
+    });
+
+    it('leaves a trip still away from base incomplete', () => {
+      const trips = builder.buildTrips([outbound], legs, CREW);
+
+      expect(trips).toHaveLength(1);
+      expect(trips[0]).toMatchObject({
+        duty_ids: ['d1'],
+        release_utc: new Date('2026-06-01T22:00:00Z'),
+        is_complete: false,
+      });
+    });
+
+    it('ends a duty without a recorded end after its duty time', () => {
+      const open: DutyTimeRecord = {
+        ...duty('d3', '2026-06-07T08:00:00Z', '2026-06-07T08:00:00Z'),
+        duty_end_utc: undefined,
+        duty_time_minutes: 300,
+      };
+
+      const [trip] = builder.buildTrips([open], [], CREW);
+
+      expect(trip.release_utc).toEqual(new Date('2026-06-07T13:00:00Z'));
+      expect(trip.tafb_hours).toBe(5);
+    });
+  });
+
+  describe('isInternationalSegment', () => {
+    it('flags legs outside the base country', () => {
+      expect(
+        builder.isInternationalSegment(
+          leg('d1', 1, 'JFK', 'CUN', '2026-06-01T13:00:00Z', '2026-06-01T17:00:00Z'),
+          'US'
+        )
+      ).toBe(true);
+    });
+
+    it('treats US territories as domestic', () => {
+      expect(
+        builder.isInternationalSegment(
+          leg('d1', 1, 'JFK', 'SJU', '2026-06-01T13:00:00Z', '2026-06-01T17:00:00Z'),
+          'US'
+        )
+      ).toBe(false);
+    });
+
+    it('treats unknown stations as domestic', () => {
+      expect(
+        builder.isInternationalSegment(
+          leg('d1', 1, 'JFK', 'ZZZ', '2026-06-01T13:00:00Z', '2026-06-01T17:00:00Z'),
+          'US'
+        )
+      ).toBe(false);
+    });
+
+    it('is relative to the base country', () => {
+      expect(
+        builder.isInternationalSegment(
+          leg('d1', 1, 'LHR', 'DUB', '2026-06-01T13:00:00Z', '2026-06-01T14:00:00Z'),
+          'GB'
+        )
+      ).toBe(true);
+      expect(
+        builder.isInternationalSegment(
+          leg('d1', 1, 'JFK', 'LAX', '2026-06-01T13:00:00Z', '2026-06-01T19:00:00Z'),
+          'GB'
+        )
+      ).toBe(true);
+    });
+  });
+});
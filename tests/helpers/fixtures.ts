@@ -0,0 +1,136 @@
+import { jest } from '@jest/globals';
+import type {
+  AircraftTypeRating,
+  CrewMember,
+  DutyTimeRecord,
+  MedicalCertificate,
+} from '../../src/types/crew.js';
+import type { DutyAssignment } from '../../src/types/qualifications.js';
+
+type Queries = typeof import('../../src/db/queries.js');
+
+export const HOUR_MS = 60 * 60 * 1000;
+
+export function hoursAfter(base: Date, hours: number): Date {
+  return new Date(base.getTime() + hours * HOUR_MS);
+}
+
+/**
+ * A JFK-based captain unless overridden
+ */
+export function crewMember(overrides: Partial<CrewMember> = {}): CrewMember {
+  return {
+    crew_id: 'crew-1',
+    employee_number: 'E1001',
+    first_name: 'Sam',
+    last_name: 'Rivera',
+    date_of_birth: new Date('1985-04-02'),
+    hire_date: new Date('2010-06-01'),
+    crew_type: 'PILOT',
+    position: 'CAPTAIN',
+    base_airport: 'JFK',
+    status: 'ACTIVE',
+    created_at: new Date('2010-06-01'),
+    updated_at: new Date('2010-06-01'),
+    ...overrides,
+  };
+}
+
+/**
+ * A B737 duty of the given length
+ */
+export function dutyAssignment(
+  start: Date,
+  hours: number,
+  overrides: Partial<DutyAssignment> = {}
+): DutyAssignment {
+  return {
+    aircraft_type: 'B737',
+    duty_start_utc: start,
+    duty_end_utc: hoursAfter(start, hours),
+    flight_time_minutes: Math.round(hours * 0.6 * 60),
+    number_of_segments: 2,
+    ...overrides,
+  };
+}
+
+/**
+ * A recorded duty of the given length
+ */
+export function dutyRecord(
+  start: Date,
+  hours: number,
+  overrides: Partial<DutyTimeRecord> = {}
+): DutyTimeRecord {
+  return {
+    duty_id: `duty-${start.toISOString()}`,
+    crew_id: 'crew-1',
+    duty_date: start,
+    duty_start_utc: start,
+    duty_end_utc: hoursAfter(start, hours),
+    flight_time_minutes: Math.round(hours * 0.6 * 60),
+    duty_time_minutes: hours * 60,
+    block_time_minutes: Math.round(hours * 0.6 * 60),
+    deadhead_minutes: 0,
+    is_fdp: true,
+    wocl_crossing: false,
+    consecutive_nights: 0,
+    flight_segments: 2,
+    created_at: start,
+    updated_at: start,
+    ...overrides,
+  };
+}
+
+/**
+ * Stub the queries LegalityValidator makes so the pilot is qualified on the
+ * B737 with no duty history; tests override the ones they exercise
+ */
+export function stubPilotQueries(queries: Queries, crew: CrewMember): void {
+  const rating: AircraftTypeRating = {
+    rating_id: 'rating-1',
+    crew_id: crew.crew_id,
+    aircraft_type: 'B737',
+    rating_type: 'PIC',
+    initial_date: new Date('2015-01-10'),
+    currency_status: 'CURRENT',
+    landings_90_day: 3,
+    approaches_90_day: 3,
+    created_at: new Date('2015-01-10'),
+    updated_at: new Date('2015-01-10'),
+  };
+  const medical: MedicalCertificate = {
+    certificate_id: 'medical-1',
+    crew_id: crew.crew_id,
+    class: 'FIRST_CLASS',
+    issue_date: new Date('2026-03-01'),
+    expiration_date: new Date('2026-09-30'),
+    status: 'VALID',
+    created_at: new Date('2026-03-01'),
+  };
+
+  jest.mocked(queries.getCrewMember).mockResolvedValue(crew);
+  jest.mocked(queries.getAircraftTypeRatings).mockResolvedValue([rating]);
+  jest.mocked(queries.getMedicalCertificate).mockResolvedValue(medical);
+  jest.mocked(queries.getTrainingRecords).mockResolvedValue([]);
+  jest
+    .mocked(queries.getRecentLandings)
+    .mockResolvedValue([
+      new Date('2026-03-28T15:00:00Z'),
+      new Date('2026-03-25T15:00:00Z'),
+      new Date('2026-03-20T15:00:00Z'),
+    ]);
+  jest.mocked(queries.getDutyTimeRecords).mockResolvedValue([]);
+  jest.mocked(queries.getFDPExtensions).mockResolvedValue([]);
+  jest.mocked(queries.getReserveAssignments).mockResolvedValue([]);
+  jest.mocked(queries.calculateRollingHours).mockResolvedValue({
+    rolling_28_day: 0,
+    rolling_365_day: 0,
+    calendar_year: 0,
+    fdp_168_hour: 0,
+    fdp_672_hour: 0,
+    duty_168_hour: 0,
+    duty_336_hour: 0,
+    duty_672_hour: 0,
+  });
+}
@@ -0,0 +1,53 @@
+import { jest } from '@jest/globals';
+
+// Every export of src/db/queries.ts, so any module under test links against the mock
+const QUERIES = [
+  'getCrewMember',
+  'getAllCrewMembers',
+  'getPilotLicenses',
+  'getAircraftTypeRatings',
+  'getMedicalCertificate',
+  'getTrainingRecords',
+  'getTrainingEvents',
+  'getCrewByAircraftType',
+  'getQualificationRestrictions',
+  'liftQualificationRestriction',
+  'getBlockMinutesInType',
+  'getExpiringCertifications',
+  'getDutyTimeRecords',
+  'upsertDutyTimeRecord',
+  'replaceFlightSegments',
+  'getFlightSegmentsForDuty',
+  'getFlightSegments',
+  'getRecentLandings',
+  'refreshLandingCounts',
+  'calculateRollingHours',
+  'getPayCalculationRules',
+  'insertPayRecord',
+  'getPayRecords',
+  'getCrewClaims',
+  'insertComplianceRecord',
+  'getLatestComplianceRecord',
+  'insertFDPExtension',
+  'getFDPExtensions',
+  'getFDPExtensionReportsDue',
+  'getReserveAssignments',
+  'getAvailableReserves',
+  'recordReserveCallout',
+  'insertPairing',
+  'getPairing',
+  'getPairingDutyPeriods',
+  'getAirports',
+  'getAirportByCode',
+  'upsertAirport',
+];
+
+/**
+ * Replace the database queries with jest mocks
+ * Call before dynamically importing the modules under test
+ */
+export function mockQueries(): void {
+  jest.unstable_mockModule('../../src/db/queries.js', () =>
+    Object.fromEntries(QUERIES.map((name) => [name, jest.fn()]))
+  );
+}
@@ -0,0 +1,192 @@
+import { jest } from '@jest/globals';
+import { mockQueries } from '../helpers/mock-queries.js';
+import { crewMember, dutyAssignment } from '../helpers/fixtures.js';
+import type { CrewMember } from '../../src/types/crew.js';
+
+mockQueries();
+
+const queries = await import('../../src/db/queries.js');
+const { LegalityValidator } = await import('../../src/engines/legality-validator.js');
+const { FADutyValidator } = await import('../../src/engines/fa-duty-validator.js');
+const { CrewComplementService } = await import('../../src/services/crew-complement-service.js');
+
+const CREW: Record<string, CrewMember> = {
+  E1001: crewMember(),
+  E1002: crewMember({ crew_id: 'crew-2', employee_number: 'E1002', position: 'FIRST_OFFICER' }),
+  E2001: crewMember({
+    crew_id: 'crew-3',
+    employee_number: 'E2001',
+    crew_type: 'FLIGHT_ATTENDANT',
+    position: 'LEAD_FA',
+  }),
+  E2002: crewMember({
+    crew_id: 'crew-4',
+    employee_number: 'E2002',
+    crew_type: 'FLIGHT_ATTENDANT',
+    position: 'FA',
+  }),
+  E2003: crewMember({
+    crew_id: 'crew-5',
+    employee_number: 'E2003',
+    crew_type: 'FLIGHT_ATTENDANT',
+    position: 'FA',
+  }),
+};
+
+const LEGAL = { is_legal: true, violated_rules: [] } as any;
+
+describe('CrewComplementService', () => {
+  const service = new CrewComplementService();
+  // E175: 76 seats, so 2 flight attendants
+  const duty = dutyAssignment(new Date('2026-04-10T12:00:00Z'), 8, { aircraft_type: 'E175' });
+  let hoursInType: Record<string, number>;
+
+  const validate = (overrides: Partial<{ first_officer: string; flight_attendants: string[] }>) =>
+    service.validateComplement({
+      duty,
+      captain: 'E1001',
+      first_officer: 'E1002',
+      flight_attendants: ['E2001', 'E2002'],
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    hoursInType = { 'crew-1': 500, 'crew-2': 40 };
+    jest
+      .mocked(queries.getCrewMember)
+      .mockImplementation(async (identifier) => CREW[identifier] ?? null);
+    jest.mocked(queries.getAircraftTypeRatings).mockImplementation(async (crewId) => [
+      {
+        rating_id: `rating-${crewId}`,
+        crew_id: crewId,
+        aircraft_type: 'E175',
+        rating_type: 'PIC',
+        initial_date: new Date('2025-11-01'),
+        currency_status: 'CURRENT',
+        landings_90_day: 3,
+        approaches_90_day: 3,
+        created_at: new Date('2025-11-01'),
+        updated_at: new Date('2025-11-01'),
+      },
+    ]);
+    jest
+      .mocked(queries.getBlockMinutesInType)
+      .mockImplementation(async (crewId) => hoursInType[crewId] * 60);
+    jest.spyOn(LegalityValidator.prototype, 'validateAssignment').mockResolvedValue(LEGAL);
+    jest.spyOn(FADutyValidator.prototype, 'validateAssignment').mockResolvedValue(LEGAL);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('approves a minimum crew with an experienced captain and a Lead FA', async () => {
+    const validation = await validate({});
+
+    expect(validation.is_legal).toBe(true);
+    expect(validation.inexperienced_pairing).toEqual({
+      captain_hours_in_type: 500,
+      first_officer_hours_in_type: 40,
+      minimum_hours_in_type: 75,
+      is_compliant: true,
+    });
+    expect(validation.cabin_crew).toEqual({
+      seat_capacity: 76,
+      required_flight_attendants: 2,
+      assigned_flight_attendants: 2,
+      lead_fa_present: true,
+    });
+  });
+
+  it('flags a captain and first officer both under 75 hours in type', async () => {
+    hoursInType['crew-1'] = 60;
+
+    const validation = await validate({});
+
+    expect(validation.violated_rules).toEqual([
+      {
+        rule: 'INEXPERIENCED_PAIRING',
+        regulation: '14 CFR 121.438',
+        description:
+          'Captain (60.0h) and first officer (40.0h) both have fewer than 75 hours in E175',
+      },
+    ]);
+  });
+
+  it('flags too few flight attendants for the seat capacity', async () => {
+    const validation = await validate({ flight_attendants: ['E2001'] });
+
+    expect(validation.violated_rules).toEqual([
+      expect.objectContaining({
+        rule: 'FLIGHT_ATTENDANT_COUNT',
+        description: '76 seats require 2 flight attendants; 1 assigned',
+      }),
+    ]);
+  });
+
+  it('requires a Lead FA in the cabin crew', async () => {
+    const validation = await validate({ flight_attendants: ['E2002', 'E2003'] });
+
+    expect(validation.cabin_crew.lead_fa_present).toBe(false);
+    expect(validation.violated_rules.map((v) => v.rule)).toEqual(['LEAD_FLIGHT_ATTENDANT']);
+  });
+
+  it('passes cabin staffing above the minimum to the flight attendant duty limits', async () => {
+    await validate({ flight_attendants: ['E2001', 'E2002', 'E2003'] });
+
+    expect(FADutyValidator.prototype.validateAssignment).toHaveBeenCalledWith(
+      'crew-5',
+      expect.objectContaining({ additional_flight_attendants: 1 })
+    );
+    expect(LegalityValidator.prototype.validateAssignment).toHaveBeenCalledWith('crew-1', duty);
+  });
+
+  it("carries each member's own violations with their seat", async () => {
+    jest.mocked(LegalityValidator.prototype.validateAssignment).mockImplementation(
+      async (crewId) =>
+        (crewId === 'crew-2'
+          ? {
+              is_legal: false,
+              violated_rules: [
+                { rule: 'MINIMUM_REST', regulation: '14 CFR 117.25', description: 'Short rest' },
+              ],
+            }
+          : LEGAL) as any
+    );
+
+    const validation = await validate({});
+
+    expect(validation.violated_rules).toEqual([
+      {
+        rule: 'MINIMUM_REST',
+        regulation: '14 CFR 117.25',
+        description: 'FIRST_OFFICER E1002: Short rest',
+      },
+    ]);
+  });
+
+  it('flags crew who cannot fill their seat or are not found', async () => {
+    const validation = await validate({ first_officer: 'E2003', flight_attendants: ['E9999'] });
+
+    expect(validation.violated_rules.map((v) => v.description)).toEqual([
+      'E2003 (FA) cannot fill the FIRST_OFFICER seat',
+      'FLIGHT_ATTENDANT E9999 not found',
+      '76 seats require 2 flight attendants; 0 assigned',
+    ]);
+  });
+
+  describe('getRequiredFlightAttendants', () => {
+    it.each([
+      [19, 0],
+      [20, 1],
+      [50, 1],
+      [51, 2],
+      [100, 2],
+      [101, 3],
+      [150, 3],
+      [166, 4],
+    ])('%i seats require %i flight attendants', (seats, required) => {
+      expect(service.getRequiredFlightAttendants(seats)).toBe(required);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { jest } from '@jest/globals';
+import { mockQueries } from '../helpers/mock-queries.js';
+import { crewMember, dutyRecord, hoursAfter, stubPilotQueries } from '../helpers/fixtures.js';
+import type { FDPExtension, FDPExtensionReportDue } from '../../src/types/qualifications.js';
+
+mockQueries();
+
+const queries = await import('../../src/db/queries.js');
+const { FDPExtensionService } = await import('../../src/services/fdp-extension-service.js');
+
+describe('FDPExtensionService', () => {
+  const service = new FDPExtensionService();
+  const captain = crewMember();
+  // 12-hour duty reporting at 0800 New York time (13-hour Table B limit)
+  const report = new Date('2026-04-10T12:00:00Z');
+  const authorizedAt = new Date('2026-04-10T20:00:00Z');
+
+  const apply = (extensionMinutes: number) =>
+    service.applyExtension(captain, {
+      aircraft_type: 'B737',
+      duty_start_utc: report,
+      extension_minutes: extensionMinutes,
+      authorized_by: 'Capt. Rivera',
+      reason: 'ATC ground stop',
+      authorized_at: authorizedAt,
+    });
+
+  beforeEach(() => {
+    stubPilotQueries(queries, captain);
+    jest
+      .mocked(queries.getDutyTimeRecords)
+      .mockResolvedValue([dutyRecord(report, 12, { duty_id: 'duty-1' })]);
+    jest.mocked(queries.insertFDPExtension).mockReset();
+    jest.mocked(queries.insertFDPExtension).mockImplementation(
+      async (extension) =>
+        ({
+          ...extension,
+          extension_id: 'extension-1',
+          created_at: authorizedAt,
+          updated_at: authorizedAt,
+        }) as FDPExtension
+    );
+  });
+
+  describe('applyExtension', () => {
+    it('records an extension from the recorded duty end and lengthens the next rest', async () => {
+      const result = await apply(90);
+
+      expect(result.extended_duty_end_utc).toEqual(hoursAfter(report, 13.5));
+      expect(result.legality.fdp_compliance.max_fdp_hours).toBe(14.5);
+      expect(queries.insertFDPExtension).toHaveBeenCalledWith(
+        expect.objectContaining({
+          duty_id: 'duty-1',
+          extension_minutes: 90,
+          rule_pack: 'FAA_PART117',
+          regulation: '14 CFR 117.19(a)',
+        })
+      );
+      // 12 hours after a 13.5-hour FDP, plus the extension
+      expect(result.next_rest).toEqual({
+        minimum_hours: 13.5,
+        extension_rest_hours: 1.5,
+        earliest_next_report_utc: hoursAfter(report, 27),
+      });
+    });
+
+    it.each([
+      [30, false, null],
+      [31, true, new Date('2026-04-20T20:00:00Z')],
+    ])(
+      'a %i-minute extension requires a report: %s',
+      async (extensionMinutes, required, dueDate) => {
+        const result = await apply(extensionMinutes);
+
+        expect(result.report).toEqual({
+          required,
+          due_date: dueDate,
+          regulation: '14 CFR 117.19(a)',
+        });
+        expect(result.extension).toMatchObject({ report_required: required });
+      }
+    );
+
+    it('does not record an extension beyond 2 hours', async () => {
+      const result = await apply(121);
+
+      expect(result.extension).toBeNull();
+      expect(queries.insertFDPExtension).not.toHaveBeenCalled();
+      expect(result.legality.fdp_compliance.violations).toContain(
+        'Unforeseen-circumstance extension of 121 minutes exceeds the 2-hour maximum'
+      );
+    });
+
+    it('does not record a second reportable extension in 168 hours', async () => {
+      jest
+        .mocked(queries.getDutyTimeRecords)
+        .mockResolvedValue([
+          dutyRecord(new Date('2026-04-07T12:00:00Z'), 11, { duty_id: 'duty-prior' }),
+          dutyRecord(report, 12, { duty_id: 'duty-1' }),
+        ]);
+      jest.mocked(queries.getFDPExtensions).mockResolvedValue([
+        {
+          extension_id: 'extension-prior',
+          crew_id: 'crew-1',
+          duty_id: 'duty-prior',
+          duty_start_utc: new Date('2026-04-07T12:00:00Z'),
+          extension_minutes: 45,
+          extended_duty_end_utc: new Date('2026-04-07T23:00:00Z'),
+          rule_pack: 'FAA_PART117',
+          regulation: '14 CFR 117.19(a)',
+          authorized_by: 'Capt. Rivera',
+          reason: 'Weather',
+          authorized_at: new Date('2026-04-07T20:00:00Z'),
+          report_required: true,
+          created_at: new Date('2026-04-07T20:00:00Z'),
+          updated_at: new Date('2026-04-07T20:00:00Z'),
+        },
+      ]);
+
+      const reportable = await apply(45);
+      const unreportable = await apply(30);
+
+      expect(reportable.extension).toBeNull();
+      expect(unreportable.extension).not.toBeNull();
+    });
+
+    it('requires a scheduled end when the duty is not recorded', async () => {
+      jest.mocked(queries.getDutyTimeRecords).mockResolvedValue([]);
+
+      await expect(apply(60)).rejects.toThrow(
+        'No scheduled end for the duty starting 2026-04-10T12:00:00.000Z'
+      );
+    });
+  });
+
+  describe('getReportsDue', () => {
+    it('counts the days until each report is due', async () => {
+      const due = (reportDueDate: string) =>
+        ({ report_due_date: new Date(reportDueDate) }) as FDPExtensionReportDue;
+      jest
+        .mocked(queries.getFDPExtensionReportsDue)
+        .mockResolvedValue([due('2026-04-20T20:00:00Z'), due('2026-04-08T20:00:00Z')]);
+
+      const reports = await service.getReportsDue(
+        { due_within_days: 14 },
+        new Date('2026-04-10T12:00:00Z')
+      );
+
+      expect(queries.getFDPExtensionReportsDue).toHaveBeenCalledWith({
+        base_airport: undefined,
+        due_by: new Date('2026-04-24T12:00:00Z'),
+      });
+      expect(reports.map((r) => [r.days_until_due, r.is_overdue])).toEqual([
+        [10, false],
+        [-2, true],
+      ]);
+    });
+  });
+});
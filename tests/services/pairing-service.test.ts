@@ -0,0 +1,126 @@
+import { jest } from '@jest/globals';
+import { mockQueries } from '../helpers/mock-queries.js';
+import { crewMember, hoursAfter, stubPilotQueries } from '../helpers/fixtures.js';
+import type { Pairing, PairingDutyPeriod } from '../../src/types/pairing.js';
+
+mockQueries();
+
+const queries = await import('../../src/db/queries.js');
+const { PairingService } = await import('../../src/services/pairing-service.js');
+
+const PAIRING: Pairing = {
+  pairing_id: 'pairing-1',
+  trip_number: 'T100',
+  base_airport: 'JFK',
+  start_utc: new Date('2026-04-10T12:00:00Z'),
+  end_utc: new Date('2026-04-12T22:00:00Z'),
+  credit_minutes: 1080,
+  status: 'PLANNED',
+  created_at: new Date('2026-03-01'),
+  updated_at: new Date('2026-03-01'),
+};
+
+/**
+ * Duty periods of the given length, each reporting the given hours after the last release
+ */
+function dutyPeriods(
+  hours: number,
+  layoverHours: number[],
+  stations = ['JFK', 'ORD', 'DEN', 'JFK']
+): PairingDutyPeriod[] {
+  const periods: PairingDutyPeriod[] = [];
+  let report = PAIRING.start_utc;
+  for (let i = 0; i <= layoverHours.length; i++) {
+    periods.push({
+      pairing_duty_id: `pd-${i + 1}`,
+      pairing_id: PAIRING.pairing_id,
+      sequence_number: i + 1,
+      duty_start_utc: report,
+      duty_end_utc: hoursAfter(report, hours),
+      report_airport: stations[i],
+      release_airport: stations[i + 1],
+      aircraft_type: 'B737',
+      flight_time_minutes: hours * 0.6 * 60,
+      number_of_segments: 2,
+      created_at: PAIRING.created_at,
+    });
+    report = hoursAfter(report, hours + (layoverHours[i] ?? 0));
+  }
+  return periods;
+}
+
+describe('PairingService', () => {
+  const service = new PairingService();
+  const captain = crewMember();
+
+  beforeEach(() => {
+    stubPilotQueries(queries, captain);
+    jest.mocked(queries.getPairing).mockResolvedValue(PAIRING);
+  });
+
+  describe('validatePairing', () => {
+    it('approves a pairing with legal duties and layovers', async () => {
+      jest.mocked(queries.getPairingDutyPeriods).mockResolvedValue(dutyPeriods(10, [14, 14]));
+
+      const validation = await service.validatePairing('T100', 'crew-1');
+
+      expect(validation.is_legal).toBe(true);
+      expect(validation.first_failure).toBeNull();
+      expect(validation.layover_validations.map((l) => l.minimum_rest_required)).toEqual([
+        11, 11,
+      ]);
+    });
+
+    it('flags a short layover and the duty that follows it', async () => {
+      jest.mocked(queries.getPairingDutyPeriods).mockResolvedValue(dutyPeriods(10, [9, 14]));
+
+      const validation = await service.validatePairing('T100', 'crew-1');
+
+      expect(validation.is_legal).toBe(false);
+      expect(validation.layover_validations.map((l) => l.is_compliant)).toEqual([false, true]);
+      expect(validation.violations).toContain(
+        'Layover at ORD after duty 1: 9.0 hours rest (requires 11 hours)'
+      );
+      expect(validation.first_failure?.sequence_number).toBe(2);
+      expect(validation.first_failure?.violated_rules.map((v) => v.rule)).toContain(
+        'MINIMUM_REST'
+      );
+    });
+
+    it('projects earlier duties of the pairing into the 168-hour FDP limit', async () => {
+      jest.mocked(queries.getPairingDutyPeriods).mockResolvedValue(dutyPeriods(10, [14, 14]));
+      jest.mocked(queries.calculateRollingHours).mockResolvedValue({
+        rolling_28_day: 0,
+        rolling_365_day: 0,
+        calendar_year: 0,
+        fdp_168_hour: 40,
+        fdp_672_hour: 40,
+        duty_168_hour: 40,
+        duty_336_hour: 40,
+        duty_672_hour: 40,
+      });
+
+      const validation = await service.validatePairing('T100', 'crew-1');
+
+      expect(
+        validation.duty_validations.map((d) => d.result.duty_limits.rolling_168_hour_fdp_hours)
+      ).toEqual([50, 60, 70]);
+      expect(validation.duty_validations.map((d) => d.is_legal)).toEqual([true, true, false]);
+      expect(validation.first_failure).toMatchObject({
+        sequence_number: 3,
+        violated_rules: [expect.objectContaining({ rule: 'CUMULATIVE_FDP_168_HOUR' })],
+      });
+    });
+
+    it('refuses flight attendants', async () => {
+      jest
+        .mocked(queries.getCrewMember)
+        .mockResolvedValue(crewMember({ crew_type: 'FLIGHT_ATTENDANT' }));
+      jest.mocked(queries.getPairingDutyPeriods).mockResolvedValue(dutyPeriods(10, []));
+
+      await expect(service.validatePairing('T100', 'crew-1')).rejects.toThrow(
+        'Pairing validation covers pilots only'
+      );
+    });
+  });
+});
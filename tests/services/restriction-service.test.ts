@@ -0,0 +1,124 @@
+import { jest } from '@jest/globals';
+import { mockQueries } from '../helpers/mock-queries.js';
+import { crewMember } from '../helpers/fixtures.js';
+import type { QualificationRestriction } from '../../src/types/crew.js';
+
+mockQueries();
+
+const queries = await import('../../src/db/queries.js');
+const { RestrictionService } = await import('../../src/services/restriction-service.js');
+
+/**
+ * An active B737 high-minimums restriction lifted after 100 PIC hours
+ */
+function restriction(overrides: Partial<QualificationRestriction> = {}): QualificationRestriction {
+  return {
+    restriction_id: 'restriction-1',
+    crew_id: 'crew-1',
+    restriction_type: 'HIGH_MINIMUMS',
+    aircraft_type: 'B737',
+    imposed_date: new Date('2026-01-15'),
+    lift_condition: 'PIC_HOURS_IN_TYPE',
+    required_hours: 100,
+    status: 'ACTIVE',
+    created_at: new Date('2026-01-15'),
+    updated_at: new Date('2026-01-15'),
+    ...overrides,
+  };
+}
+
+describe('RestrictionService', () => {
+  const service = new RestrictionService();
+  const captain = crewMember();
+  const asOf = new Date('2026-04-10T12:00:00Z');
+
+  beforeEach(() => {
+    jest.mocked(queries.liftQualificationRestriction).mockReset();
+    jest.mocked(queries.getBlockMinutesInType).mockReset();
+  });
+
+  it('counts only captain-seat block time toward PIC hours', async () => {
+    jest.mocked(queries.getQualificationRestrictions).mockResolvedValue([restriction()]);
+    jest.mocked(queries.getBlockMinutesInType).mockResolvedValue(90 * 60);
+
+    const [progress] = await service.getActiveRestrictions(captain, asOf);
+
+    expect(queries.getBlockMinutesInType).toHaveBeenCalledWith(
+      'crew-1',
+      'B737',
+      new Date('2026-01-15'),
+      true
+    );
+    expect(progress).toMatchObject({
+      accumulated_hours: 90,
+      remaining_hours: 10,
+      condition: 'until 100 PIC hours in B737',
+    });
+  });
+
+  it('counts block time from either seat toward flight hours', async () => {
+    jest
+      .mocked(queries.getQualificationRestrictions)
+      .mockResolvedValue([restriction({ lift_condition: 'FLIGHT_HOURS_IN_TYPE' })]);
+    jest.mocked(queries.getBlockMinutesInType).mockResolvedValue(90 * 60);
+
+    await service.getActiveRestrictions(captain, asOf);
+
+    expect(queries.getBlockMinutesInType).toHaveBeenCalledWith(
+      'crew-1',
+      'B737',
+      new Date('2026-01-15'),
+      false
+    );
+  });
+
+  it('leaves a met restriction recorded when only reading progress', async () => {
+    jest.mocked(queries.getQualificationRestrictions).mockResolvedValue([restriction()]);
+    jest.mocked(queries.getBlockMinutesInType).mockResolvedValue(100 * 60);
+
+    const active = await service.getActiveRestrictions(captain, asOf);
+
+    expect(active).toEqual([]);
+    expect(queries.liftQualificationRestriction).not.toHaveBeenCalled();
+  });
+
+  it('lifts a met restriction once duty is recorded', async () => {
+    jest
+      .mocked(queries.getQualificationRestrictions)
+      .mockResolvedValue([
+        restriction(),
+        restriction({ restriction_id: 'restriction-2', aircraft_type: 'A320' }),
+      ]);
+    jest
+      .mocked(queries.getBlockMinutesInType)
+      .mockImplementation(async (_crewId, aircraftType) =>
+        aircraftType === 'B737' ? 100.5 * 60 : 20 * 60
+      );
+
+    const active = await service.liftMetRestrictions(captain, asOf);
+
+    expect(queries.liftQualificationRestriction).toHaveBeenCalledTimes(1);
+    expect(queries.liftQualificationRestriction).toHaveBeenCalledWith(
+      'restriction-1',
+      'Accumulated 100.5 hours in B737'
+    );
+    expect(active.map((p) => p.restriction.restriction_id)).toEqual(['restriction-2']);
+  });
+
+  it('lifts a restriction whose period has ended', async () => {
+    jest
+      .mocked(queries.getQualificationRestrictions)
+      .mockResolvedValue([
+        restriction({ lift_condition: 'MANUAL', expires_on: new Date('2026-04-01') }),
+      ]);
+
+    const active = await service.liftMetRestrictions(captain, asOf);
+
+    expect(queries.getBlockMinutesInType).not.toHaveBeenCalled();
+    expect(queries.liftQualificationRestriction).toHaveBeenCalledWith(
+      'restriction-1',
+      'Restriction period ended 2026-04-01'
+    );
+    expect(active).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { jest } from '@jest/globals';
+import { mockQueries } from '../helpers/mock-queries.js';
+
+mockQueries();
+
+const { CrewComplementService } = await import('../../src/services/crew-complement-service.js');
+const { handleValidateCrewComplement } = await import(
+  '../../src/tools/validate-crew-complement.js'
+);
+
+const ARGS = {
+  aircraft_type: 'E175',
+  duty_start_utc: '2026-04-10T12:00:00Z',
+  duty_end_utc: '2026-04-10T20:00:00Z',
+  flight_time_minutes: 300,
+  report_airport: 'jfk',
+  captain: 'E1001',
+  first_officer: 'E1002',
+  flight_attendants: ['E2001'],
+};
+
+describe('validate-crew-complement', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('validates the whole crew for the flight and lists the failing rules', async () => {
+    const validateComplement = jest
+      .spyOn(CrewComplementService.prototype, 'validateComplement')
+      .mockResolvedValue({
+        is_legal: false,
+        violated_rules: [
+          {
+            rule: 'FLIGHT_ATTENDANT_COUNT',
+            regulation: '14 CFR 121.391',
+            description: '76 seats require 2 flight attendants; 1 assigned',
+          },
+        ],
+        inexperienced_pairing: {
+          captain_hours_in_type: 500,
+          first_officer_hours_in_type: 40,
+          minimum_hours_in_type: 75,
+          is_compliant: true,
+        },
+        cabin_crew: {
+          seat_capacity: 76,
+          required_flight_attendants: 2,
+          assigned_flight_attendants: 1,
+          lead_fa_present: true,
+        },
+        members: [],
+      });
+
+    const response = await handleValidateCrewComplement(ARGS);
+    const body = JSON.parse(response.content[0].text!);
+
+    expect(validateComplement).toHaveBeenCalledWith({
+      duty: {
+        aircraft_type: 'E175',
+        duty_start_utc: new Date('2026-04-10T12:00:00Z'),
+        duty_end_utc: new Date('2026-04-10T20:00:00Z'),
+        flight_time_minutes: 300,
+        number_of_segments: 1,
+        report_airport: 'JFK',
+      },
+      captain: 'E1001',
+      first_officer: 'E1002',
+      flight_attendants: ['E2001'],
+      seat_capacity: undefined,
+    });
+    expect(body.is_legal).toBe(false);
+    expect(body.decision).toBe('DENIED - FLIGHT_ATTENDANT_COUNT');
+  });
+
+  it('rejects a duty that ends before it starts', async () => {
+    const response = await handleValidateCrewComplement({
+      ...ARGS,
+      duty_end_utc: '2026-04-10T11:00:00Z',
+    });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('duty_end_utc must be after duty_start_utc');
+  });
+});
@@ -0,0 +1,109 @@
+import { jest } from '@jest/globals';
+import { mockQueries } from '../helpers/mock-queries.js';
+import { crewMember, stubPilotQueries } from '../helpers/fixtures.js';
+
+mockQueries();
+
+const queries = await import('../../src/db/queries.js');
+const { handleValidatePairingLegality } = await import(
+  '../../src/tools/validate-pairing-legality.js'
+);
+
+/**
+ * A B737 duty reporting and releasing at the given UTC times
+ */
+const duty = (start: string, end: string, flightMinutes = 300) => ({
+  aircraft_type: 'B737',
+  duty_start_utc: start,
+  duty_end_utc: end,
+  flight_time_minutes: flightMinutes,
+  number_of_segments: 2,
+});
+
+async function validate(args: unknown) {
+  const response = await handleValidatePairingLegality(args);
+  return { response, body: response.isError ? null : JSON.parse(response.content[0].text!) };
+}
+
+describe('validate-pairing-legality', () => {
+  beforeEach(() => {
+    stubPilotQueries(queries, crewMember());
+  });
+
+  it('approves a sequence of legal duties and reports the layovers', async () => {
+    const { body } = await validate({
+      crew_identifier: 'E1001',
+      duties: [
+        { ...duty('2026-04-10T12:00:00Z', '2026-04-10T22:00:00Z'), release_airport: 'ORD' },
+        duty('2026-04-11T12:00:00Z', '2026-04-11T22:00:00Z'),
+      ],
+    });
+
+    expect(body.is_legal).toBe(true);
+    expect(body.first_failing_duty).toBeNull();
+    expect(body.layovers).toEqual([{ after_duty: 1, airport: 'ORD', rest_hours: '14.00' }]);
+  });
+
+  it('checks the rest between duties against the earlier duty', async () => {
+    const { body } = await validate({
+      crew_identifier: 'E1001',
+      duties: [
+        duty('2026-04-10T12:00:00Z', '2026-04-10T22:00:00Z'),
+        duty('2026-04-11T08:00:00Z', '2026-04-11T12:00:00Z'),
+      ],
+    });
+
+    expect(body.duties[1].projected).toMatchObject({
+      hours_since_rest: 10,
+      minimum_rest_required: 11,
+    });
+    expect(body.first_failing_duty).toMatchObject({
+      duty_number: 2,
+      violated_rules: [expect.objectContaining({ rule: 'MINIMUM_REST' })],
+    });
+    expect(body.decision).toBe('DENIED - Duty 2 fails MINIMUM_REST');
+  });
+
+  it('carries projected flight time forward into the 28-day limit', async () => {
+    jest.mocked(queries.calculateRollingHours).mockResolvedValue({
+      rolling_28_day: 95,
+      rolling_365_day: 95,
+      calendar_year: 95,
+      fdp_168_hour: 0,
+      fdp_672_hour: 0,
+      duty_168_hour: 0,
+      duty_336_hour: 0,
+      duty_672_hour: 0,
+    });
+
+    const { body } = await validate({
+      crew_identifier: 'E1001',
+      duties: [
+        duty('2026-04-10T12:00:00Z', '2026-04-10T18:00:00Z', 180),
+        duty('2026-04-11T12:00:00Z', '2026-04-11T18:00:00Z', 180),
+      ],
+    });
+
+    expect(body.duties.map((d: any) => d.projected.rolling_28_day_hours)).toEqual([98, 101]);
+    expect(body.duties[0].is_legal).toBe(true);
+    expect(body.first_failing_duty).toMatchObject({
+      duty_number: 2,
+      violated_rules: [expect.objectContaining({ rule: 'FLIGHT_TIME_28_DAY' })],
+    });
+  });
+
+  it('rejects overlapping duties', async () => {
+    const { response } = await validate({
+      crew_identifier: 'E1001',
+      duties: [
+        duty('2026-04-10T12:00:00Z', '2026-04-10T22:00:00Z'),
+        duty('2026-04-10T20:00:00Z', '2026-04-11T02:00:00Z'),
+      ],
+    });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain(
+      'duties must be in chronological order without overlapping'
+    );
+  });
+});